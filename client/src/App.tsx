@@ -2,9 +2,13 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { LanguageProvider } from './LanguageContext';
 import { NavBarDemo } from './components/ui/navbar-demo';
+import { OfflineBanner } from './components/OfflineBanner';
 import { HomeSection } from './components/sections/HomeSection';
 import { HistoricalPerformanceSection } from './components/sections/HistoricalPerformanceSection';
 import { CompareSection } from './components/sections/CompareSection';
+import { MapSection } from './components/sections/MapSection';
+import { RankingsSection } from './components/sections/RankingsSection';
+import { InclusionSection } from './components/sections/InclusionSection';
 import './App.css';
 
 const App: React.FC = () => {
@@ -13,10 +17,14 @@ const App: React.FC = () => {
       <Router>
         <div className="app">
           <NavBarDemo />
+          <OfflineBanner />
           <Routes>
             <Route path="/" element={<HomeSection />} />
             <Route path="/historical" element={<HistoricalPerformanceSection />} />
             <Route path="/compare" element={<CompareSection />} />
+            <Route path="/map" element={<MapSection />} />
+            <Route path="/rankings" element={<RankingsSection />} />
+            <Route path="/inclusion" element={<InclusionSection />} />
           </Routes>
         </div>
       </Router>
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
+import { DataQualityIssue, QUALITY_METRIC_LABELS, issueMessageKey } from '../lib/dataQuality';
+
+// Warning badge for figures the ingestion checks flagged; opens the list of issues
+export const DataQualityWarnings: React.FC<{ issues: DataQualityIssue[]; showMonth?: boolean }> = ({ issues, showMonth = false }) => {
+  const { t, formatNumber, formatCurrency, formatMonth } = useLanguage();
+  const [open, setOpen] = useState(false);
+
+  if (issues.length === 0) return null;
+
+  const describe = (issue: DataQualityIssue) => {
+    const format = (value: number | null) => {
+      if (value === null) return '—';
+      return issue.metric === 'total_amount_spent' ? formatCurrency(value) : formatNumber(value);
+    };
+    const metricKey = QUALITY_METRIC_LABELS[issue.metric];
+    const key = issueMessageKey(issue);
+    const text = t(key, {
+      metric: metricKey ? t(metricKey) : issue.metric,
+      value: format(issue.value),
+      expected: format(issue.expected)
+    });
+    return text === key ? issue.message : text;
+  };
+
+  return (
+    <div className="data-quality">
+      <button
+        className={`data-quality-badge ${issues.some(issue => issue.severity === 'error') ? 'error' : ''}`}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title={t('dataQualityHint')}
+      >
+        <AlertTriangle size={14} />
+        {t('dataQualityWarnings', { count: issues.length })}
+      </button>
+      {open && (
+        <ul className="data-quality-list">
+          {issues.map(issue => (
+            <li key={`${issue.month_year}-${issue.rule}-${issue.metric}`} className={`data-quality-item ${issue.severity}`}>
+              {showMonth && <strong>{formatMonth(issue.month_year)}: </strong>}
+              {describe(issue)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
+
+const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
+
+const FORMATS = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'json', label: 'JSON' }
+];
+
+interface ExportButtonsProps {
+  // Export endpoint, e.g. /api/export/comparison
+  path: string;
+  params?: Record<string, string | number | boolean | undefined>;
+  label?: string;
+}
+
+// Download links for the server-side exports; the server names the file
+export const ExportButtons: React.FC<ExportButtonsProps> = ({ path, params = {}, label }) => {
+  const { t } = useLanguage();
+  const hrefFor = (format: string) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) query.set(key, String(value));
+    });
+    query.set('format', format);
+    return `${API_BASE_URL}${path}?${query.toString()}`;
+  };
+
+  return (
+    <div className="export-buttons" role="group" aria-label={label ?? t('export')}>
+      <span className="export-buttons-label">
+        <Download size={16} />
+        {label ?? t('export')}
+      </span>
+      {FORMATS.map(({ format, label: formatLabel }) => (
+        <a key={format} className="action-btn export" href={hrefFor(format)} download>
+          {formatLabel}
+        </a>
+      ))}
+    </div>
+  );
+};
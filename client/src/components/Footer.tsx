@@ -1,7 +1,10 @@
 import React from 'react';
 import { Linkedin, ExternalLink } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
 
 export const Footer: React.FC = () => {
+  const { t } = useLanguage();
+
   return (
     <footer className="app-footer">
       <div className="footer-content">
@@ -31,7 +34,7 @@ export const Footer: React.FC = () => {
           </div>
         </div>
         <p className="footer-copyright">
-          © {new Date().getFullYear()} All rights reserved
+          © {new Date().getFullYear()} {t('allRightsReserved')}
         </p>
       </div>
     </footer>
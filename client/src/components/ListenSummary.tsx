@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Volume2, Square } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
+
+type ListenMode = 'idle' | 'speaking' | 'text';
+
+const speechAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+// A voice for the language, e.g. te-IN for 'te'; voices load lazily, so an
+// empty list means "not known yet" and the browser default is tried
+const findVoice = (lang: string): SpeechSynthesisVoice | null | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length === 0) return undefined;
+  return voices.find(voice => voice.lang.toLowerCase().replace('_', '-').startsWith(lang)) || null;
+};
+
+// Reads a summary aloud with the browser's speech synthesis. Where there is
+// no voice for the language the same text is shown instead.
+export const ListenSummary: React.FC<{ text: string }> = ({ text }) => {
+  const { language, t } = useLanguage();
+  const [mode, setMode] = useState<ListenMode>('idle');
+
+  // A new district, month or language starts over
+  useEffect(() => {
+    setMode('idle');
+    return () => {
+      if (speechAvailable()) window.speechSynthesis.cancel();
+    };
+  }, [text, language]);
+
+  const handleListen = () => {
+    if (mode === 'speaking') {
+      window.speechSynthesis.cancel();
+      setMode('idle');
+      return;
+    }
+
+    const voice = speechAvailable() ? findVoice(language) : null;
+    if (voice === null) {
+      setMode('text');
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = `${language}-IN`;
+    if (voice) utterance.voice = voice;
+    utterance.rate = 0.9;
+    utterance.onend = () => setMode(current => (current === 'speaking' ? 'idle' : current));
+    utterance.onerror = () => setMode(current => (current === 'speaking' ? 'text' : current));
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+    setMode('speaking');
+  };
+
+  return (
+    <div className="listen-summary">
+      <button
+        className={`action-btn listen-btn ${mode === 'speaking' ? 'active' : ''}`}
+        onClick={handleListen}
+        title={t('listenHint')}
+        aria-pressed={mode === 'speaking'}
+      >
+        {mode === 'speaking' ? <Square size={16} /> : <Volume2 size={16} />}
+        {mode === 'speaking' ? t('stopListening') : t('listen')}
+      </button>
+      {mode !== 'idle' && (
+        <div className="listen-text" role="status">
+          {mode === 'text' && <p className="listen-unavailable">{t('listenUnavailable')}</p>}
+          <p>{text}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { ChevronRight } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
+import { MetricCards, MetricCardsData } from './MetricCards';
+
+const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
+
+interface AreaPerformance extends MetricCardsData {
+  month_year: string;
+  data_source: string;
+}
+
+interface Mandal {
+  mandal_code: string;
+  mandal_name: string;
+  gram_panchayat_count: number;
+  performance: AreaPerformance | null;
+}
+
+interface GramPanchayat {
+  gp_code: string;
+  gp_name: string;
+  performance: AreaPerformance | null;
+}
+
+interface MandalDetail {
+  mandal_code: string;
+  mandal_name: string;
+  performance: AreaPerformance | null;
+  gram_panchayats: GramPanchayat[];
+}
+
+interface LocationDrillDownProps {
+  districtCode: string;
+  districtName: string;
+  month: string;
+  onSelectState: () => void;
+}
+
+// Breadcrumb drill-down from a district to its mandals and gram panchayats
+export const LocationDrillDown: React.FC<LocationDrillDownProps> = ({ districtCode, districtName, month, onSelectState }) => {
+  const { t } = useLanguage();
+  const [mandals, setMandals] = useState<Mandal[]>([]);
+  const [mandal, setMandal] = useState<MandalDetail | null>(null);
+  const [gramPanchayat, setGramPanchayat] = useState<GramPanchayat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMandal(null);
+    setGramPanchayat(null);
+    setError(null);
+    axios.get(`${API_BASE_URL}/api/district/${districtCode}/mandals?month=${month}`)
+      .then(response => setMandals(response.data.mandals))
+      .catch(() => {
+        setMandals([]);
+        setError(t('failedToLoadMandals'));
+      });
+  }, [districtCode, month, t]);
+
+  const selectMandal = async (mandalCode: string) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/mandal/${mandalCode}/performance?month=${month}`);
+      setMandal(response.data);
+      setGramPanchayat(null);
+      setError(null);
+    } catch (err) {
+      setError(t('failedToLoadMandals'));
+    }
+  };
+
+  const selectDistrict = () => {
+    setMandal(null);
+    setGramPanchayat(null);
+  };
+
+  if (mandals.length === 0 && !error) {
+    return <p className="drilldown-empty">{t('noMandalData')}</p>;
+  }
+
+  const area = gramPanchayat || mandal;
+  const areaPerformance = area?.performance;
+
+  return (
+    <div className="location-drilldown">
+      <nav className="breadcrumb" aria-label="breadcrumb">
+        <button onClick={onSelectState}>{t('subtitle')}</button>
+        <ChevronRight size={14} />
+        <button onClick={selectDistrict} disabled={!mandal}>{districtName}</button>
+        {mandal && (
+          <>
+            <ChevronRight size={14} />
+            <button onClick={() => setGramPanchayat(null)} disabled={!gramPanchayat}>{mandal.mandal_name}</button>
+          </>
+        )}
+        {gramPanchayat && (
+          <>
+            <ChevronRight size={14} />
+            <span>{gramPanchayat.gp_name}</span>
+          </>
+        )}
+      </nav>
+
+      {error && <p className="drilldown-empty">{error}</p>}
+
+      {area && (
+        areaPerformance
+          ? <MetricCards data={areaPerformance} />
+          : <p className="drilldown-empty">{t('noAreaDataForMonth')}</p>
+      )}
+
+      {!mandal && (
+        <>
+          <h3>{t('mandals')}</h3>
+          <div className="district-grid">
+            {mandals.map(item => (
+              <button key={item.mandal_code} className="district-card" onClick={() => selectMandal(item.mandal_code)}>
+                <div className="district-name">{item.mandal_name}</div>
+                <div className="district-code">
+                  {t('gramPanchayatCount', { count: item.gram_panchayat_count })}
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {mandal && !gramPanchayat && mandal.gram_panchayats.length > 0 && (
+        <>
+          <h3>{t('gramPanchayats')}</h3>
+          <div className="district-grid">
+            {mandal.gram_panchayats.map(item => (
+              <button key={item.gp_code} className="district-card" onClick={() => setGramPanchayat(item)}>
+                <div className="district-name">{item.gp_name}</div>
+                <div className="district-code">{item.gp_code}</div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Users, Calendar, DollarSign, TrendingUp } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
+
+export interface MetricCardsData {
+  total_households: number | null;
+  total_person_days: number | null;
+  total_amount_spent: number | null;
+  avg_days_per_household: number | null;
+}
+
+// The four headline metrics, shared by the district, mandal and GP views
+export const MetricCards: React.FC<{ data: MetricCardsData }> = ({ data }) => {
+  const { t, formatNumber, formatCurrency } = useLanguage();
+
+  return (
+    <div className="metrics-grid">
+      <div className="metric-card">
+        <div className="metric-icon">
+          <Users />
+        </div>
+        <div className="metric-content">
+          <div className="metric-value">{formatNumber(data.total_households)}</div>
+          <div className="metric-label">{t('totalHouseholds')}</div>
+          <div className="metric-description">{t('familiesBenefited')}</div>
+        </div>
+      </div>
+
+      <div className="metric-card">
+        <div className="metric-icon">
+          <Calendar />
+        </div>
+        <div className="metric-content">
+          <div className="metric-value">{formatNumber(data.total_person_days)}</div>
+          <div className="metric-label">{t('personDays')}</div>
+          <div className="metric-description">{t('workDaysCreated')}</div>
+        </div>
+      </div>
+
+      <div className="metric-card">
+        <div className="metric-icon">
+          <DollarSign />
+        </div>
+        <div className="metric-content">
+          <div className="metric-value">{formatCurrency(data.total_amount_spent)}</div>
+          <div className="metric-label">{t('amountSpent')}</div>
+          <div className="metric-description">{t('totalExpenditure')}</div>
+        </div>
+      </div>
+
+      <div className="metric-card">
+        <div className="metric-icon">
+          <TrendingUp />
+        </div>
+        <div className="metric-content">
+          <div className="metric-value">{data.avg_days_per_household === null ? '—' : formatNumber(data.avg_days_per_household)}</div>
+          <div className="metric-label">{t('avgDaysPerHousehold')}</div>
+          <div className="metric-description">{t('workDaysPerFamily')}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useLanguage } from '../LanguageContext';
+import { useOfflineStatus } from '../lib/useOffline';
+
+// Shown while any screen is displaying saved responses instead of live data
+export const OfflineBanner: React.FC = () => {
+  const { t, formatDateTime } = useLanguage();
+  const { dataAsOf, pendingRefreshes } = useOfflineStatus();
+
+  if (!dataAsOf) return null;
+
+  return (
+    <div className="offline-banner" role="status">
+      <WifiOff size={16} />
+      <span>
+        {t('offlineDataAsOf', { date: formatDateTime(dataAsOf) })}
+        {pendingRefreshes > 0 && <> {t('offlineRefreshPending')}</>}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useLanguage } from '../LanguageContext';
+import { TargetAchievement, gaugeDash, gaugeFraction } from '../lib/targets';
+
+const RADIUS = 40;
+
+const gaugeColor = (percent: number) => {
+  if (percent >= 80) return '#10B981'; // Green
+  if (percent >= 60) return '#F59E0B'; // Yellow
+  return '#EF4444'; // Red
+};
+
+interface GaugeProps {
+  label: string;
+  percent: number | null;
+  detail: string;
+}
+
+// Half-circle gauge filled to `percent`; an empty gauge reads "—"
+const Gauge: React.FC<GaugeProps> = ({ label, percent, detail }) => (
+  <div className="gauge">
+    <svg viewBox="0 0 100 56" role="img" aria-label={`${label}: ${percent === null ? '—' : `${Math.round(percent)}%`}`}>
+      <path d="M 10 50 A 40 40 0 0 1 90 50" className="gauge-track" />
+      {percent !== null && (
+        <path
+          d="M 10 50 A 40 40 0 0 1 90 50"
+          className="gauge-fill"
+          stroke={gaugeColor(percent)}
+          strokeDasharray={gaugeDash(gaugeFraction(percent), RADIUS)}
+        />
+      )}
+      <text x="50" y="48" textAnchor="middle" className="gauge-value">
+        {percent === null ? '—' : `${Math.round(percent)}%`}
+      </text>
+    </svg>
+    <div className="gauge-label">{label}</div>
+    <div className="gauge-detail">{detail}</div>
+  </div>
+);
+
+interface PerformanceGaugesProps {
+  achievement: TargetAchievement | null;
+  performanceScore: number | null;
+}
+
+// Household coverage and person-days against the labour budget, and the
+// overall score, with the year's cumulative person-days against the target
+export const PerformanceGauges: React.FC<PerformanceGaugesProps> = ({ achievement, performanceScore }) => {
+  const { t, formatNumber, formatMonth } = useLanguage();
+  const target = achievement?.target ?? null;
+  const noTarget = achievement ? t('noTargetSet', { year: achievement.financial_year }) : '';
+  const progress = (actual: number | null, goal: number | null | undefined) =>
+    goal ? t('targetProgress', { actual: formatNumber(actual), target: formatNumber(goal) }) : noTarget;
+
+  return (
+    <div className="performance-gauges">
+      <h3>{t('visualPerformanceIndicators')}</h3>
+      <div className="gauge-row">
+        <Gauge
+          label={t('householdCoverage')}
+          percent={achievement?.households.coverage_pct ?? null}
+          detail={progress(achievement?.households.reached ?? null, target?.households)}
+        />
+        <Gauge
+          label={t('workDaysAchievement')}
+          percent={achievement?.person_days.achievement_pct ?? null}
+          detail={progress(achievement?.person_days.actual_to_date ?? null, target?.person_days)}
+        />
+        <Gauge
+          label={t('overallPerformance')}
+          percent={performanceScore}
+          detail={t('performanceScore')}
+        />
+      </div>
+
+      {achievement && target && (
+        <div className="target-curve">
+          <h4>{t('cumulativeVsTarget', { year: achievement.financial_year })}</h4>
+          {achievement.person_days.pace_pct !== null && (
+            <p className="target-pace">{t('paceOfTarget', { percent: Math.round(achievement.person_days.pace_pct) })}</p>
+          )}
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={achievement.curve} margin={{ top: 10, right: 10, left: 0, bottom: 30 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="month_year"
+                tickFormatter={(monthYear: string) => formatMonth(monthYear, 'short')}
+                tick={{ fontSize: 11 }}
+                angle={-45}
+                textAnchor="end"
+                height={50}
+              />
+              <YAxis tick={{ fontSize: 11 }} width={60} tickFormatter={(value: number) => formatNumber(value)} />
+              <Tooltip formatter={(value: any) => formatNumber(value)} labelFormatter={(label: any) => formatMonth(label)} />
+              <Legend />
+              <Line type="monotone" dataKey="target_cumulative" stroke="#6B7280" strokeDasharray="6 4" strokeWidth={2} name={t('cumulativeTarget')} dot={false} />
+              <Line type="monotone" dataKey="actual_cumulative" stroke="#3B82F6" strokeWidth={3} name={t('cumulativeActual')} dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Clock, ArrowUp, ArrowDown, Minus, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer, ReferenceLine, YAxis } from 'recharts';
+import { useLanguage } from '../LanguageContext';
+import { DistrictTimeliness, TREND_MESSAGES } from '../lib/timeliness';
+
+const TREND_ICONS = { improving: ArrowUp, worsening: ArrowDown, steady: Minus };
+
+// Share of wages paid within 15 days, with its direction since the last
+// reported month and a small series drawn against the alert threshold
+export const TimelinessCard: React.FC<{ timeliness: DistrictTimeliness }> = ({ timeliness }) => {
+  const { t, formatMonth } = useLanguage();
+  const { value, threshold, trend, change, previous_month: previousMonth } = timeliness;
+  const TrendIcon = trend ? TREND_ICONS[trend] : null;
+
+  return (
+    <div className={`timeliness-card ${timeliness.below_threshold ? 'alert' : ''}`}>
+      <div className="timeliness-main">
+        <div className="metric-icon">
+          <Clock />
+        </div>
+        <div className="timeliness-figures">
+          <div className="timeliness-label">{t('paymentWithin15Days')}</div>
+          <div className="timeliness-value">{value === null ? '—' : `${value.toFixed(1)}%`}</div>
+          {trend && TrendIcon && previousMonth && (
+            <div className={`timeliness-trend ${trend}`}>
+              <TrendIcon size={16} />
+              {t(TREND_MESSAGES[trend], { change: Math.abs(change ?? 0).toFixed(1), month: formatMonth(previousMonth) })}
+            </div>
+          )}
+        </div>
+        <div className="timeliness-sparkline" aria-hidden="true">
+          <ResponsiveContainer width="100%" height={56}>
+            <LineChart data={timeliness.series} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+              <YAxis hide domain={[(min: number) => Math.min(min, threshold) - 5, 100]} />
+              <ReferenceLine y={threshold} stroke="#EF4444" strokeDasharray="4 3" />
+              <Line type="monotone" dataKey="value" stroke="#3B82F6" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <p className="timeliness-note">
+        {timeliness.below_threshold && <AlertTriangle size={14} />}
+        {t(timeliness.below_threshold ? 'timelinessBelowTarget' : 'timelinessTarget', { threshold })}
+      </p>
+    </div>
+  );
+};
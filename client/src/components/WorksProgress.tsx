@@ -0,0 +1,87 @@
+import React from 'react';
+import { Hammer } from 'lucide-react';
+import { ComposedChart, BarChart, Bar, Line, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useLanguage } from '../LanguageContext';
+import { DistrictWorks, StateWorks, comparableDistricts } from '../lib/works';
+
+interface WorksProgressProps {
+  works: DistrictWorks;
+  state: StateWorks | null;
+}
+
+const formatRatio = (value: any) => (typeof value === 'number' ? `${value.toFixed(1)}%` : '—');
+
+// Works started and finished each month against the backlog of ongoing
+// works, and the district's completion ratio beside every other district's
+export const WorksProgress: React.FC<WorksProgressProps> = ({ works, state }) => {
+  const { t, formatNumber, formatMonth } = useLanguage();
+  const latest = works.series[works.series.length - 1];
+  const statewide = state ? comparableDistricts(state) : [];
+
+  return (
+    <div className="works-progress chart-container">
+      <h3>
+        <Hammer size={18} className="inline-block mr-2" />
+        {t('worksProgress')}
+      </h3>
+      {latest && (
+        <div className="works-summary">
+          <span>{t('completionRatio')}: <strong>{formatRatio(latest.completion_ratio)}</strong></span>
+          <span>{t('ongoingWorks')}: <strong>{latest.ongoing_works === null ? '—' : formatNumber(latest.ongoing_works)}</strong></span>
+        </div>
+      )}
+      <ResponsiveContainer width="100%" height={320}>
+        <ComposedChart data={works.series} margin={{ top: 10, right: 10, left: 0, bottom: 40 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="month_year"
+            tickFormatter={(monthYear: string) => formatMonth(monthYear, 'short')}
+            tick={{ fontSize: 12 }}
+            angle={-45}
+            textAnchor="end"
+            height={60}
+          />
+          <YAxis yAxisId="works" tick={{ fontSize: 12 }} width={50} />
+          <YAxis yAxisId="ratio" orientation="right" tick={{ fontSize: 12 }} width={45} unit="%" domain={[0, 100]} />
+          <Tooltip
+            formatter={(value: any, name: any) => (name === t('completionRatio') ? formatRatio(value) : formatNumber(value))}
+            labelFormatter={(label: any) => formatMonth(label)}
+          />
+          <Legend />
+          <Bar yAxisId="works" dataKey="new_works_started" fill="#3B82F6" name={t('newWorksStarted')} />
+          <Bar yAxisId="works" dataKey="completed_in_month" fill="#10B981" name={t('worksCompletedInMonth')} />
+          <Line yAxisId="works" type="monotone" dataKey="ongoing_works" stroke="#F59E0B" strokeWidth={3} name={t('ongoingWorks')} dot={{ r: 3 }} />
+          <Line yAxisId="ratio" type="monotone" dataKey="completion_ratio" stroke="#6B7280" strokeDasharray="5 5" strokeWidth={2} name={t('completionRatio')} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+      <p className="works-note">{t('worksNote')}</p>
+
+      {state && statewide.length > 0 && (
+        <div className="works-statewide">
+          <h4>{t('worksStatewide', { month: formatMonth(state.month_year) })}</h4>
+          <ResponsiveContainer width="100%" height={Math.max(240, statewide.length * 22)}>
+            <BarChart data={statewide} layout="vertical" margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+              <YAxis type="category" dataKey="district_name" width={130} tick={{ fontSize: 11 }} interval={0} />
+              <Tooltip formatter={formatRatio} />
+              {state.state.completion_ratio !== null && (
+                <ReferenceLine
+                  x={state.state.completion_ratio}
+                  stroke="#EF4444"
+                  strokeDasharray="6 4"
+                  label={{ value: t('stateAverage'), position: 'top', fill: '#B91C1C', fontSize: 12 }}
+                />
+              )}
+              <Bar dataKey="completion_ratio" name={t('completionRatio')}>
+                {statewide.map(district => (
+                  <Cell key={district.district_code} fill={district.district_code === works.district_code ? '#F59E0B' : '#9CA3AF'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
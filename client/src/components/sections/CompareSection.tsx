@@ -1,11 +1,15 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import axios from 'axios';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { GitCompare, Search, BarChart3, ChevronDown, ChevronUp } from 'lucide-react';
 import { useLanguage } from '../../LanguageContext';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import moment from 'moment';
 import { BorderBeam } from '../ui/border-beam';
 import { Footer } from '../Footer';
+import { ExportButtons } from '../ExportButtons';
+import { currentMonthYear, recentMonths, toFinYear } from '../../lib/fiscalCalendar';
+import { cachedGet } from '../../lib/offlineCache';
+import { useRefreshOnReconnect } from '../../lib/useOffline';
+import { parseChoiceParam, parseDistrictCodes, parseMonthParam, viewQuery } from '../../lib/viewParams';
 
 // Custom hook for responsive chart height with debouncing
 const useChartHeight = () => {
@@ -59,17 +63,38 @@ interface District {
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
 
+const COMPARISON_METRICS = ['total_households', 'total_person_days', 'total_amount_spent'] as const;
+type ComparisonMetric = typeof COMPARISON_METRICS[number];
+
+// Catalogue keys for the metric picker and for the short tooltip name
+const METRIC_LABELS: Record<ComparisonMetric, string> = {
+  total_households: 'totalHouseholds',
+  total_person_days: 'totalPersonDays',
+  total_amount_spent: 'totalAmountSpent'
+};
+const SERIES_LABELS: Record<ComparisonMetric, string> = {
+  total_households: 'households',
+  total_person_days: 'personDays',
+  total_amount_spent: 'amountSpent'
+};
+
 export const CompareSection: React.FC = () => {
-  const { language, setLanguage, t } = useLanguage();
+  const { t, formatNumber, formatCurrency, formatMonth } = useLanguage();
+  // View state restored from the URL, e.g. /compare?d=AP001,AP004&m=2025-06&metric=total_person_days
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [linkedDistricts] = useState(() => parseDistrictCodes(searchParams.get('d')));
+  const linkHandled = useRef(false);
   const [districts, setDistricts] = useState<District[]>([]);
   const [comparisonData, setComparisonData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showComparison, setShowComparison] = useState(false);
   const [selectedDistricts, setSelectedDistricts] = useState<string[]>([]);
-  const [comparisonMetric, setComparisonMetric] = useState<'total_households' | 'total_person_days' | 'total_amount_spent'>('total_households');
+  const [comparisonMetric, setComparisonMetric] = useState<ComparisonMetric>(
+    () => parseChoiceParam(searchParams.get('metric'), COMPARISON_METRICS, 'total_households')
+  );
   const [districtSearch, setDistrictSearch] = useState<string>('');
-  const [selectedMonth, setSelectedMonth] = useState<string>(moment().format('YYYY-MM'));
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => parseMonthParam(searchParams.get('m')));
   const [showMonthSelector, setShowMonthSelector] = useState(false);
   const [showMetricSelector, setShowMetricSelector] = useState(false);
   const [scrollPosition, setScrollPosition] = useState(0);
@@ -77,22 +102,22 @@ export const CompareSection: React.FC = () => {
 
   const fetchDistricts = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/districts`);
+      const response = await cachedGet<District[]>(`${API_BASE_URL}/api/districts`);
       setDistricts(response.data);
     } catch (err) {
-      setError('Failed to load districts');
+      setError('failedToLoadDistricts');
     }
   };
 
-  const fetchComparisonData = async (districtCodes: string[]) => {
+  const fetchComparisonData = useCallback(async (districtCodes: string[], monthYear: string = selectedMonth) => {
     // Preserve scroll position before loading
     setScrollPosition(window.pageYOffset);
     setLoading(true);
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/comparison?districts=${districtCodes.join(',')}&month=${selectedMonth}`);
+      const response = await cachedGet<any[]>(`${API_BASE_URL}/api/comparison?districts=${districtCodes.join(',')}&month=${monthYear}`);
       setComparisonData(response.data);
     } catch (err) {
-      setError('Failed to fetch comparison data');
+      setError('failedToLoadComparison');
     } finally {
       setLoading(false);
       // Restore scroll position after loading
@@ -100,12 +125,41 @@ export const CompareSection: React.FC = () => {
         window.scrollTo(0, scrollPosition);
       }, 100);
     }
-  };
+  }, [selectedMonth, scrollPosition]);
 
   useEffect(() => {
     fetchDistricts();
   }, []);
 
+  useRefreshOnReconnect(() => {
+    if (selectedDistricts.length > 0) {
+      fetchComparisonData(selectedDistricts);
+    }
+  });
+
+  // Open the districts from a shared link; unknown codes are skipped
+  useEffect(() => {
+    if (linkedDistricts.length === 0 || linkHandled.current || districts.length === 0) return;
+    linkHandled.current = true;
+    const known = linkedDistricts.filter(code => districts.some(d => d.district_code === code));
+    if (known.length > 0) {
+      setSelectedDistricts(known);
+      setShowComparison(true);
+      fetchComparisonData(known);
+    }
+  }, [districts, linkedDistricts, fetchComparisonData]);
+
+  // Keep the URL in step with the view so it can be refreshed or shared.
+  // Waits for linked districts to be resolved; unknown ones are dropped.
+  useEffect(() => {
+    if (linkedDistricts.length > 0 && !linkHandled.current) return;
+    setSearchParams(viewQuery({
+      d: selectedDistricts,
+      m: selectedMonth !== currentMonthYear() ? selectedMonth : null,
+      metric: comparisonMetric !== 'total_households' ? comparisonMetric : null
+    }), { replace: true });
+  }, [districts, selectedDistricts, selectedMonth, comparisonMetric, linkedDistricts, setSearchParams]);
+
   // Close dropdowns when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -139,66 +193,27 @@ export const CompareSection: React.FC = () => {
   };
 
   const generateMonthOptions = () => {
-    const options = [];
-    const currentDate = moment();
-    
-    // Generate last 24 months
-    for (let i = 0; i < 24; i++) {
-      const date = currentDate.clone().subtract(i, 'months');
-      options.push({
-        value: date.format('YYYY-MM'),
-        label: date.format('MMMM YYYY'),
-        telugu: date.format('MMMM YYYY') // You can add Telugu month names here
-      });
-    }
-    return options;
+    // Last 24 months, tagged with the financial year each belongs to
+    return recentMonths(24).map(monthYear => ({
+      value: monthYear,
+      label: formatMonth(monthYear),
+      finYear: toFinYear(monthYear)
+    }));
   };
 
   const handleMonthChange = (monthValue: string) => {
     setSelectedMonth(monthValue);
     setShowMonthSelector(false);
     if (selectedDistricts.length > 0) {
-      fetchComparisonData(selectedDistricts);
+      fetchComparisonData(selectedDistricts, monthValue);
     }
   };
 
-  const handleMetricChange = (metricValue: string) => {
-    setComparisonMetric(metricValue as any);
+  const handleMetricChange = (metricValue: ComparisonMetric) => {
+    setComparisonMetric(metricValue);
     setShowMetricSelector(false);
   };
 
-  const formatNumber = (num: number) => {
-    if (num >= 10000000) {
-      return (num / 10000000).toFixed(1) + ' Cr';
-    } else if (num >= 100000) {
-      return (num / 100000).toFixed(1) + ' L';
-    } else if (num >= 1000) {
-      return (num / 1000).toFixed(1) + ' K';
-    }
-    return num.toString();
-  };
-
-  const formatCurrency = (amount: number) => {
-    if (amount === null || amount === undefined || isNaN(amount)) {
-      return '₹0';
-    }
-    
-    // Handle amounts that are already in crores (from real API data)
-    if (amount < 1000000 && amount > 100) {
-      return '₹' + amount.toFixed(1) + ' Cr';
-    }
-    
-    // Handle amounts in full format (from mock data)
-    if (amount >= 10000000) {
-      return '₹' + (amount / 10000000).toFixed(1) + ' Cr';
-    } else if (amount >= 100000) {
-      return '₹' + (amount / 100000).toFixed(1) + ' L';
-    } else if (amount >= 1000) {
-      return '₹' + (amount / 1000).toFixed(1) + ' K';
-    }
-    return '₹' + amount.toString();
-  };
-
   // Memoize chart data processing to prevent unnecessary re-renders
   const processedChartData = useMemo(() => {
     if (!showComparison || selectedDistricts.length === 0) return [];
@@ -242,7 +257,7 @@ export const CompareSection: React.FC = () => {
         <div className="section-header text-center">
           <h1 className="section-title text-xl md:text-2xl lg:text-3xl font-medium text-gray-800 mb-1">
             <GitCompare className="section-icon inline-block mr-3" />
-            District Comparison Tool
+            {t('compareTitle')}
           </h1>
         </div>
 
@@ -250,7 +265,7 @@ export const CompareSection: React.FC = () => {
         <div className="toolbar glass-card mb-2">
           <div className="comparison-controls flex flex-wrap gap-6 justify-center items-center p-4">
             <div className="control-group flex flex-col items-center">
-              <label className="text-sm font-medium text-gray-700 mb-2">Select Month</label>
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('selectMonth')}</label>
               <div className="month-selector-container">
                 <button 
                   className="month-selector-btn"
@@ -259,7 +274,7 @@ export const CompareSection: React.FC = () => {
                     setShowMetricSelector(false); // Close other dropdown
                   }}
                 >
-                  {moment(selectedMonth).format('MMMM YYYY')}
+                  {formatMonth(selectedMonth)}
                   {showMonthSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                 </button>
                 {showMonthSelector && (
@@ -269,8 +284,9 @@ export const CompareSection: React.FC = () => {
                         key={option.value}
                         className={`month-option ${selectedMonth === option.value ? 'selected' : ''}`}
                         onClick={() => handleMonthChange(option.value)}
+                        title={t('financialYear', { year: option.finYear })}
                       >
-                        {language === 'te' ? option.telugu : option.label}
+                        {option.label}
                       </button>
                     ))}
                   </div>
@@ -279,7 +295,7 @@ export const CompareSection: React.FC = () => {
             </div>
             
             <div className="control-group flex flex-col items-center">
-              <label className="text-sm font-medium text-gray-700 mb-2">Comparison Metric</label>
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('comparisonMetric')}</label>
               <div className="month-selector-container">
                 <button 
                   className="month-selector-btn"
@@ -288,31 +304,20 @@ export const CompareSection: React.FC = () => {
                     setShowMonthSelector(false); // Close other dropdown
                   }}
                 >
-                  {comparisonMetric === 'total_households' ? 'Total Households' : 
-                   comparisonMetric === 'total_person_days' ? 'Total Person Days' : 
-                   'Total Amount Spent'}
+                  {t(METRIC_LABELS[comparisonMetric])}
                   {showMetricSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                 </button>
                 {showMetricSelector && (
                   <div className="month-dropdown">
-                    <button
-                      className={`month-option ${comparisonMetric === 'total_households' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('total_households')}
-                    >
-                      Total Households
-                    </button>
-                    <button
-                      className={`month-option ${comparisonMetric === 'total_person_days' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('total_person_days')}
-                    >
-                      Total Person Days
-                    </button>
-                    <button
-                      className={`month-option ${comparisonMetric === 'total_amount_spent' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('total_amount_spent')}
-                    >
-                      Total Amount Spent
-                    </button>
+                    {COMPARISON_METRICS.map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${comparisonMetric === option ? 'selected' : ''}`}
+                        onClick={() => handleMetricChange(option)}
+                      >
+                        {t(METRIC_LABELS[option])}
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
@@ -326,14 +331,14 @@ export const CompareSection: React.FC = () => {
                <input
                 type="text"
                 className="search-input w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-lg text-gray-700 font-medium focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200 shadow-sm hover:shadow-md"
-                placeholder="Search districts..."
+                placeholder={t('searchDistricts')}
                 value={districtSearch}
                 onChange={(e) => setDistrictSearch(e.target.value)}
               />
             </div>
           </div>
           <div className="selected-info text-center">
-            <span className="text-sm text-gray-600 font-medium">{selectedDistricts.length}/6 districts selected</span>
+            <span className="text-sm text-gray-600 font-medium">{t('districtsSelected', { count: selectedDistricts.length, max: 6 })}</span>
             {selectedDistricts.length > 0 && (
               <button 
                 className="clear-btn ml-4 px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-lg hover:bg-red-600 transition-colors duration-200 shadow-sm hover:shadow-md"
@@ -343,7 +348,7 @@ export const CompareSection: React.FC = () => {
                   setComparisonData([]);
                 }}
               >
-                Clear Selection
+                {t('clearSelection')}
               </button>
             )}
           </div>
@@ -364,7 +369,7 @@ export const CompareSection: React.FC = () => {
               <div className="district-name">{district.district_name}</div>
               <div className="district-code">{district.district_code}</div>
               {selectedDistricts.includes(district.district_code) && (
-                <div className="selected-badge">Selected</div>
+                <div className="selected-badge">{t('selected')}</div>
               )}
             </button>
           ))}
@@ -373,15 +378,15 @@ export const CompareSection: React.FC = () => {
         {loading && (
           <div className="loading">
             <div className="spinner"></div>
-            <p>Loading comparison data...</p>
+            <p>{t('loadingComparisonData')}</p>
           </div>
         )}
 
         {error && (
           <div className="error">
-            <p>{error}</p>
+            <p>{t(error)}</p>
             <button onClick={() => selectedDistricts.length > 0 && fetchComparisonData(selectedDistricts)}>
-              Try Again
+              {t('tryAgain')}
             </button>
           </div>
         )}
@@ -391,11 +396,15 @@ export const CompareSection: React.FC = () => {
             <div className="chart-header">
               <h3>
                 <BarChart3 className="chart-icon" />
-                District Comparison - {moment(selectedMonth).format('MMMM YYYY')}
+                {t('comparisonChartTitle', { month: formatMonth(selectedMonth) })}
               </h3>
               <p className="chart-subtitle">
-                Comparing {comparisonMetric.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())} across selected districts
+                {t('comparingMetric', { metric: t(METRIC_LABELS[comparisonMetric]) })}
               </p>
+              <ExportButtons
+                path="/api/export/comparison"
+                params={{ districts: selectedDistricts.join(','), month: selectedMonth }}
+              />
             </div>
             
             <ResponsiveContainer width="100%" height={chartHeight}>
@@ -423,14 +432,14 @@ export const CompareSection: React.FC = () => {
                   tick={{ fontSize: window.innerWidth < 768 ? 10 : 12 }}
                   width={window.innerWidth < 768 ? 50 : 60}
                   allowDecimals={false} 
-                  tickFormatter={(val) => comparisonMetric === 'total_amount_spent' ? formatNumber(Number(val)) : formatNumber(Number(val))} 
+                  tickFormatter={(val) => formatNumber(Number(val))} 
                 />
                 <Tooltip 
                   formatter={(value: any, _name: any, props: any) => {
                     const original = props?.payload?.[comparisonMetric] ?? value;
                     return [
                       comparisonMetric === 'total_amount_spent' ? formatCurrency(Number(original)) : formatNumber(Number(original)),
-                      comparisonMetric === 'total_households' ? 'Households' : comparisonMetric === 'total_person_days' ? 'Person Days' : 'Amount Spent'
+                      t(SERIES_LABELS[comparisonMetric])
                     ];
                   }}
                   labelFormatter={(label) => `${label}`}
@@ -464,8 +473,8 @@ export const CompareSection: React.FC = () => {
         {selectedDistricts.length === 0 && (
           <div className="empty-state">
             <GitCompare className="empty-icon" />
-            <h3>No Districts Selected</h3>
-            <p>Select districts from the grid above to start comparing their performance metrics.</p>
+            <h3>{t('noDistrictsSelected')}</h3>
+            <p>{t('noDistrictsSelectedHint')}</p>
           </div>
         )}
       </div>
@@ -1,11 +1,22 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import axios from 'axios';
-import { BarChart3, Download, TrendingUp, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BarChart3, TrendingUp, ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react';
 import { useLanguage } from '../../LanguageContext';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, AreaChart, Area, Legend } from 'recharts';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, AreaChart, Area, Legend, ReferenceLine } from 'recharts';
 import moment from 'moment';
 import { BorderBeam } from '../ui/border-beam';
 import { Footer } from '../Footer';
+import { ExportButtons } from '../ExportButtons';
+import { DataQualityWarnings } from '../DataQualityWarnings';
+import { WorksProgress } from '../WorksProgress';
+import { isOfficialSource, isMissingSource, sourceLabelKey } from '../../lib/provenance';
+import { cachedGet } from '../../lib/offlineCache';
+import { useRefreshOnReconnect } from '../../lib/useOffline';
+import { parseChoiceParam, parseDistrictCodes, parseFlagParam, viewQuery } from '../../lib/viewParams';
+import { TREND_VIEWS, TrendView, TrendsResponse, isChangeView, trendChartRows } from '../../lib/trends';
+import { DataQualityIssue, DataQualityResponse } from '../../lib/dataQuality';
+import { FORECAST_METRICS, ForecastResponse, withForecastRows } from '../../lib/forecast';
+import { DistrictWorks, StateWorks } from '../../lib/works';
 
 // Custom hook for responsive chart height with debouncing
 const useChartHeight = () => {
@@ -71,37 +82,77 @@ interface PerformanceData {
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
 
+const HISTORICAL_METRICS = ['all', 'total_households', 'total_person_days', 'total_amount_spent'] as const;
+const CHART_TYPES = ['line', 'bar', 'area'] as const;
+type HistoricalMetric = typeof HISTORICAL_METRICS[number];
+type ChartType = typeof CHART_TYPES[number];
+
+// Catalogue keys for the pickers and the chart series names
+const METRIC_LABELS: Record<HistoricalMetric, string> = {
+  all: 'allMetrics',
+  total_households: 'households',
+  total_person_days: 'personDays',
+  total_amount_spent: 'amountSpent'
+};
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  line: 'lineChart',
+  bar: 'barChart',
+  area: 'areaChart'
+};
+const TREND_VIEW_LABELS: Record<TrendView, string> = {
+  monthly: 'viewMonthly',
+  mom: 'viewMonthOverMonth',
+  yoy: 'viewYearOverYear',
+  fytd: 'viewFinancialYearToDate',
+  rolling: 'viewRollingAverage'
+};
+const CHART_METRICS = ['total_households', 'total_person_days', 'total_amount_spent'] as const;
+
 export const HistoricalPerformanceSection: React.FC = () => {
-  const { language, setLanguage, t } = useLanguage();
+  const { t, formatNumber, formatCurrency, formatMonth } = useLanguage();
+  // View state restored from the URL, e.g. /historical?d=AP001&metric=total_person_days&chart=bar
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [linkedDistrict] = useState(() => parseDistrictCodes(searchParams.get('d'))[0] || null);
+  const linkHandled = useRef(false);
   const [districts, setDistricts] = useState<District[]>([]);
   const [selectedDistrict, setSelectedDistrict] = useState<District | null>(null);
   const [historicalData, setHistoricalData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [historicalMetric, setHistoricalMetric] = useState<'all' | 'total_households' | 'total_person_days' | 'total_amount_spent'>('all');
-  const [chartType, setChartType] = useState<'line' | 'bar' | 'area'>('line');
+  const [historicalMetric, setHistoricalMetric] = useState<HistoricalMetric>(
+    () => parseChoiceParam(searchParams.get('metric'), HISTORICAL_METRICS, 'all')
+  );
+  const [chartType, setChartType] = useState<ChartType>(() => parseChoiceParam(searchParams.get('chart'), CHART_TYPES, 'line'));
+  const [trendView, setTrendView] = useState<TrendView>(() => parseChoiceParam(searchParams.get('view'), TREND_VIEWS, 'monthly'));
+  const [trends, setTrends] = useState<TrendsResponse | null>(null);
+  const [qualityIssues, setQualityIssues] = useState<DataQualityIssue[]>([]);
+  const [forecast, setForecast] = useState<ForecastResponse | null>(null);
+  const [works, setWorks] = useState<DistrictWorks | null>(null);
+  const [stateWorks, setStateWorks] = useState<StateWorks | null>(null);
   const [showTrendAnalysis, setShowTrendAnalysis] = useState(false);
   const [showMetricSelector, setShowMetricSelector] = useState(false);
   const [showChartTypeSelector, setShowChartTypeSelector] = useState(false);
+  const [showViewSelector, setShowViewSelector] = useState(false);
   const [scrollPosition, setScrollPosition] = useState(0);
+  const [realDataOnly, setRealDataOnly] = useState(() => parseFlagParam(searchParams.get('strict')));
   const chartHeight = useChartHeight();
 
   const fetchDistricts = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/districts`);
+      const response = await cachedGet<District[]>(`${API_BASE_URL}/api/districts`);
       setDistricts(response.data);
     } catch (err) {
-      setError('Failed to load districts');
+      setError('failedToLoadDistricts');
     }
   };
 
-  const fetchHistoricalData = async (districtCode: string) => {
+  const fetchHistoricalData = useCallback(async (districtCode: string, strict: boolean = realDataOnly) => {
     // Preserve scroll position before loading
     setScrollPosition(window.pageYOffset);
     setLoading(true);
     setError(null);
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/district/${districtCode}/history?months=12`);
+      const response = await cachedGet<any[]>(`${API_BASE_URL}/api/district/${districtCode}/history?months=12&strict=${strict}`);
       
       if (!response.data || !Array.isArray(response.data)) {
         throw new Error('Invalid data format received');
@@ -116,13 +167,54 @@ export const HistoricalPerformanceSection: React.FC = () => {
       const processedData = processHistoricalData(sortedData);
       
       if (processedData.length === 0) {
-        setError('No historical data available for this district');
+        setError('noHistoricalData');
       } else {
         setHistoricalData(processedData);
       }
+
+      // Trend views and cards are optional; the monthly chart works without them
+      try {
+        const trendsResponse = await cachedGet<TrendsResponse>(`${API_BASE_URL}/api/district/${districtCode}/trends?months=12&strict=${strict}`);
+        setTrends(trendsResponse.data);
+      } catch (err) {
+        console.warn('Failed to fetch trends');
+        setTrends(null);
+      }
+
+      try {
+        const qualityResponse = await cachedGet<DataQualityResponse>(`${API_BASE_URL}/api/data-quality?district=${districtCode}`);
+        const shown = new Set(processedData.map(item => item.month_year));
+        setQualityIssues(qualityResponse.data.issues.filter(issue => shown.has(issue.month_year)));
+      } catch (err) {
+        setQualityIssues([]);
+      }
+
+      try {
+        const forecastResponse = await cachedGet<ForecastResponse>(`${API_BASE_URL}/api/district/${districtCode}/forecast?strict=${strict}`);
+        setForecast(forecastResponse.data);
+      } catch (err) {
+        console.warn('Failed to fetch forecast');
+        setForecast(null);
+      }
+
+      try {
+        const worksResponse = await cachedGet<DistrictWorks>(`${API_BASE_URL}/api/works?district=${districtCode}&months=12&strict=${strict}`);
+        setWorks(worksResponse.data);
+      } catch (err) {
+        console.warn('Failed to fetch works progress');
+        setWorks(null);
+      }
+
+      try {
+        const stateWorksResponse = await cachedGet<StateWorks>(`${API_BASE_URL}/api/works?strict=${strict}`);
+        setStateWorks(stateWorksResponse.data);
+      } catch (err) {
+        console.warn('Failed to fetch statewide works');
+        setStateWorks(null);
+      }
     } catch (err: any) {
       console.error('Error fetching historical data:', err);
-      setError(err.response?.data?.message || err.message || 'Failed to fetch historical data');
+      setError('failedToLoadHistory');
     } finally {
       setLoading(false);
       // Restore scroll position after loading
@@ -130,12 +222,42 @@ export const HistoricalPerformanceSection: React.FC = () => {
         window.scrollTo(0, scrollPosition);
       }, 100);
     }
-  };
+  }, [realDataOnly, scrollPosition]);
 
   useEffect(() => {
     fetchDistricts();
   }, []);
 
+  useRefreshOnReconnect(() => {
+    if (selectedDistrict) {
+      fetchHistoricalData(selectedDistrict.district_code);
+    }
+  });
+
+  // Open the district from a shared link
+  useEffect(() => {
+    if (!linkedDistrict || linkHandled.current || districts.length === 0) return;
+    linkHandled.current = true;
+    const district = districts.find(d => d.district_code === linkedDistrict);
+    if (district) {
+      setSelectedDistrict(district);
+      fetchHistoricalData(district.district_code);
+    }
+  }, [districts, linkedDistrict, fetchHistoricalData]);
+
+  // Keep the URL in step with the view so it can be refreshed or shared.
+  // Waits for a linked district to be resolved; an unknown one is dropped.
+  useEffect(() => {
+    if (linkedDistrict && !linkHandled.current) return;
+    setSearchParams(viewQuery({
+      d: selectedDistrict?.district_code,
+      metric: historicalMetric !== 'all' ? historicalMetric : null,
+      chart: chartType !== 'line' ? chartType : null,
+      view: trendView !== 'monthly' ? trendView : null,
+      strict: realDataOnly
+    }), { replace: true });
+  }, [districts, selectedDistrict, historicalMetric, chartType, trendView, realDataOnly, linkedDistrict, setSearchParams]);
+
   // Close dropdowns when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -143,6 +265,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
       if (!target.closest('.month-selector-container')) {
         setShowMetricSelector(false);
         setShowChartTypeSelector(false);
+        setShowViewSelector(false);
       }
     };
 
@@ -157,66 +280,46 @@ export const HistoricalPerformanceSection: React.FC = () => {
     fetchHistoricalData(district.district_code);
   };
 
-  const handleMetricChange = (metricValue: string) => {
-    setHistoricalMetric(metricValue as any);
-    setShowMetricSelector(false);
+  const handleRealDataOnlyToggle = () => {
+    const strict = !realDataOnly;
+    setRealDataOnly(strict);
+    if (selectedDistrict) {
+      fetchHistoricalData(selectedDistrict.district_code, strict);
+    }
   };
 
-  const handleChartTypeChange = (chartTypeValue: string) => {
-    setChartType(chartTypeValue as any);
-    setShowChartTypeSelector(false);
+  const handleMetricChange = (metricValue: HistoricalMetric) => {
+    setHistoricalMetric(metricValue);
+    setShowMetricSelector(false);
   };
 
-  const formatNumber = (num: number) => {
-    // Handle null, undefined, or invalid numbers
-    if (num === null || num === undefined || isNaN(num)) {
-      return '0';
-    }
-    
-    if (num >= 10000000) {
-      return (num / 10000000).toFixed(1) + ' Cr';
-    } else if (num >= 100000) {
-      return (num / 100000).toFixed(1) + ' L';
-    } else if (num >= 1000) {
-      return (num / 1000).toFixed(1) + ' K';
-    }
-    return num.toString();
+  const handleChartTypeChange = (chartTypeValue: ChartType) => {
+    setChartType(chartTypeValue);
+    setShowChartTypeSelector(false);
   };
 
-  const formatCurrency = (amount: number) => {
-    // Handle null, undefined, or invalid numbers
-    if (amount === null || amount === undefined || isNaN(amount)) {
-      return '₹0';
-    }
-    
-    // Handle amounts that are already in crores (from real API data)
-      if (amount < 1000000 && amount > 100) {
-      return '₹' + amount.toFixed(1) + ' Cr';
-    }
-    
-    // Handle amounts in full format (from mock data)
-    if (amount >= 10000000) {
-      return '₹' + (amount / 10000000).toFixed(1) + ' Cr';
-    } else if (amount >= 100000) {
-      return '₹' + (amount / 100000).toFixed(1) + ' L';
-    } else if (amount >= 1000) {
-      return '₹' + (amount / 1000).toFixed(1) + ' K';
-    }
-    return '₹' + amount.toString();
+  const handleTrendViewChange = (view: TrendView) => {
+    setTrendView(view);
+    setShowViewSelector(false);
   };
 
-  // Process historical data to handle missing values and ensure data integrity
+  // Process historical data to handle missing values and ensure data integrity.
+  // Months the server reports as missing keep null metrics so charts show a gap.
   const processHistoricalData = (data: any[]) => {
-    return data.map(item => ({
-      ...item,
-      total_households: Number(item.total_households) || 0,
-      total_person_days: Number(item.total_person_days) || 0,
-      total_amount_spent: Number(item.total_amount_spent) || 0,
-      avg_days_per_household: Number(item.avg_days_per_household) || 0,
-      avg_amount_per_household: Number(item.avg_amount_per_household) || 0,
-      // Ensure month_year is properly formatted
-      month_year: item.month_year || moment().format('YYYY-MM')
-    }));
+    const toMetric = (value: any, missing: boolean) => (missing ? null : Number(value) || 0);
+    return data.map(item => {
+      const missing = isMissingSource(item.data_source);
+      return {
+        ...item,
+        total_households: toMetric(item.total_households, missing),
+        total_person_days: toMetric(item.total_person_days, missing),
+        total_amount_spent: toMetric(item.total_amount_spent, missing),
+        avg_days_per_household: toMetric(item.avg_days_per_household, missing),
+        avg_amount_per_household: toMetric(item.avg_amount_per_household, missing),
+        // Ensure month_year is properly formatted
+        month_year: item.month_year || moment().format('YYYY-MM')
+      };
+    });
   };
 
   // Memoize processed historical data to prevent unnecessary re-renders
@@ -224,70 +327,85 @@ export const HistoricalPerformanceSection: React.FC = () => {
     return processHistoricalData(historicalData);
   }, [historicalData]);
 
-  const calculateTrendAnalysis = (data: any[]) => {
-    if (data.length < 2) return null;
-    
-    const latest = data[data.length - 1];
-    const previous = data[data.length - 2];
-    
-    const trends = {
-      households: {
-        current: latest.total_households || 0,
-        previous: previous.total_households || 0,
-        change: ((latest.total_households || 0) - (previous.total_households || 0)),
-        percentage: previous.total_households ? 
-          (((latest.total_households || 0) - (previous.total_households || 0)) / previous.total_households) * 100 : 0
-      },
-      personDays: {
-        current: latest.total_person_days || 0,
-        previous: previous.total_person_days || 0,
-        change: ((latest.total_person_days || 0) - (previous.total_person_days || 0)),
-        percentage: previous.total_person_days ? 
-          (((latest.total_person_days || 0) - (previous.total_person_days || 0)) / previous.total_person_days) * 100 : 0
-      },
-      amountSpent: {
-        current: latest.total_amount_spent || 0,
-        previous: previous.total_amount_spent || 0,
-        change: ((latest.total_amount_spent || 0) - (previous.total_amount_spent || 0)),
-        percentage: previous.total_amount_spent ? 
-          (((latest.total_amount_spent || 0) - (previous.total_amount_spent || 0)) / previous.total_amount_spent) * 100 : 0
-      }
-    };
-    
-    return trends;
+  // Monthly values, or the chosen trend view when the server's trends loaded
+  const chartData = useMemo(() => {
+    if (trendView === 'monthly' || !trends) return processedHistoricalData;
+    return trendChartRows(trends.series, trendView, CHART_METRICS);
+  }, [trendView, trends, processedHistoricalData]);
+
+  const latestTrend = trends && trends.series.length > 0 ? trends.series[trends.series.length - 1] : null;
+
+  // The projection carries the running total of person-days or spend on to
+  // the end of the financial year
+  const metricForecast = forecast && (FORECAST_METRICS as readonly string[]).includes(historicalMetric)
+    ? forecast.metrics[historicalMetric]
+    : null;
+  const showForecast = chartType === 'line' && trendView === 'monthly' && metricForecast !== null && metricForecast.forecast.length > 0;
+  const lineChartData = useMemo(
+    () => (showForecast && metricForecast ? withForecastRows(chartData, metricForecast, historicalMetric) : chartData),
+    [showForecast, metricForecast, chartData, historicalMetric]
+  );
+  const formatMetricValue = (value: number) => (historicalMetric === 'total_amount_spent' ? formatCurrency(value) : formatNumber(value));
+
+  // Months whose numbers are not official data.gov.in figures
+  const flaggedMonths = useMemo(() => {
+    return processedHistoricalData
+      .filter(d => !isOfficialSource(d.data_source))
+      .map(d => ({ month_year: d.month_year, missing: isMissingSource(d.data_source) }));
+  }, [processedHistoricalData]);
+
+  const renderSourceMarkers = () => flaggedMonths.map(({ month_year, missing }) => (
+    <ReferenceLine
+      key={month_year}
+      x={month_year}
+      stroke={missing ? '#EF4444' : '#9CA3AF'}
+      strokeDasharray="4 4"
+      strokeWidth={2}
+    />
+  ));
+
+  // Months with data quality issues, marked on every chart
+  const renderQualityMarkers = () => Array.from(new Set(qualityIssues.map(issue => issue.month_year))).map(monthYear => (
+    <ReferenceLine
+      key={`quality-${monthYear}`}
+      x={monthYear}
+      stroke="#F59E0B"
+      strokeWidth={2}
+      label={{ value: '⚠', position: 'top', fill: '#B45309' }}
+    />
+  ));
+
+  const formatPeriodLabel = (label: any) => {
+    const entry = processedHistoricalData.find(d => d.month_year === label);
+    const flag = entry
+      ? (!isOfficialSource(entry.data_source) ? ` (${t(sourceLabelKey(entry.data_source))})` : '')
+      : (showForecast ? ` (${t('forecast')})` : '');
+    return `${t('periodLabel', { month: formatMonth(label) })}${flag}`;
   };
 
-  const exportHistoricalData = () => {
-    if (processedHistoricalData.length === 0) return;
-    
-    const csvContent = [
-      ['Month/Year', 'Total Households', 'Total Person Days', 'Total Amount Spent', 'Avg Days per Household', 'Avg Amount per Household'],
-      ...processedHistoricalData.map(d => [
-        d.month_year,
-        d.total_households || 0,
-        d.total_person_days || 0,
-        d.total_amount_spent || 0,
-        d.avg_days_per_household || 0,
-        d.avg_amount_per_household || 0
-      ])
-    ].map(row => row.join(',')).join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${selectedDistrict?.district_name || 'district'}_historical_data.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+  const formatChange = (percent: number) => `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+
+  // Tooltip values by series: changes as percentages, spend as currency,
+  // everything else as a count
+  const formatSeriesValue = (value: any, name: any, item: any) => {
+    if (isChangeView(trendView) && trends) return [formatChange(Number(value)), name];
+    if (item?.dataKey === 'forecast_band') return [`${formatMetricValue(value[0])} – ${formatMetricValue(value[1])}`, name];
+    if (item?.dataKey === 'forecast') return [formatMetricValue(Number(value)), name];
+    return [
+      item?.dataKey === 'total_amount_spent' ? formatCurrency(Number(value)) : formatNumber(Number(value)),
+      name
+    ];
   };
 
+  const formatMonthTick = (monthYear: string) => formatMonth(monthYear, 'short');
+
   return (
     <div className="historical-section page">
       <div className="container">
         <div className="section-header text-center">
           <h1 className="section-title text-xl md:text-2xl lg:text-3xl font-medium text-gray-800 mb-1">
             <BarChart3 className="section-icon inline-block mr-3" />
-            Historical Performance Analysis
+            {t('historicalTitle')}
           </h1>
         </div>
 
@@ -295,86 +413,88 @@ export const HistoricalPerformanceSection: React.FC = () => {
         <div className="toolbar glass-card mb-2">
           <div className="historical-controls flex flex-wrap gap-6 justify-center items-center p-4">
             <div className="control-group flex flex-col items-center">
-              <label className="text-sm font-medium text-gray-700 mb-2">Metric</label>
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('metric')}</label>
               <div className="month-selector-container">
                 <button 
                   className="month-selector-btn"
                   onClick={() => {
                     setShowMetricSelector(!showMetricSelector);
-                    setShowChartTypeSelector(false); // Close other dropdown
+                    setShowChartTypeSelector(false); // Close other dropdowns
+                    setShowViewSelector(false);
                   }}
                 >
-                  {historicalMetric === 'all' ? 'All Metrics' : 
-                   historicalMetric === 'total_households' ? 'Households' : 
-                   historicalMetric === 'total_person_days' ? 'Person Days' : 
-                   'Amount Spent'}
+                  {t(METRIC_LABELS[historicalMetric])}
                   {showMetricSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                 </button>
                 {showMetricSelector && (
                   <div className="month-dropdown">
-                    <button
-                      className={`month-option ${historicalMetric === 'all' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('all')}
-                    >
-                      All Metrics
-                    </button>
-                    <button
-                      className={`month-option ${historicalMetric === 'total_households' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('total_households')}
-                    >
-                      Households
-                    </button>
-                    <button
-                      className={`month-option ${historicalMetric === 'total_person_days' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('total_person_days')}
-                    >
-                      Person Days
-                    </button>
-                    <button
-                      className={`month-option ${historicalMetric === 'total_amount_spent' ? 'selected' : ''}`}
-                      onClick={() => handleMetricChange('total_amount_spent')}
-                    >
-                      Amount Spent
-                    </button>
+                    {HISTORICAL_METRICS.map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${historicalMetric === option ? 'selected' : ''}`}
+                        onClick={() => handleMetricChange(option)}
+                      >
+                        {t(METRIC_LABELS[option])}
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
             </div>
             <div className="control-group flex flex-col items-center">
-              <label className="text-sm font-medium text-gray-700 mb-2">Chart Type</label>
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('chartType')}</label>
               <div className="month-selector-container">
                 <button 
                   className="month-selector-btn"
                   onClick={() => {
                     setShowChartTypeSelector(!showChartTypeSelector);
-                    setShowMetricSelector(false); // Close other dropdown
+                    setShowMetricSelector(false); // Close other dropdowns
+                    setShowViewSelector(false);
                   }}
                 >
-                  {chartType === 'line' ? 'Line Chart' : 
-                   chartType === 'bar' ? 'Bar Chart' : 
-                   'Area Chart'}
+                  {t(CHART_TYPE_LABELS[chartType])}
                   {showChartTypeSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                 </button>
                 {showChartTypeSelector && (
                   <div className="month-dropdown">
-                    <button
-                      className={`month-option ${chartType === 'line' ? 'selected' : ''}`}
-                      onClick={() => handleChartTypeChange('line')}
-                    >
-                      Line Chart
-                    </button>
-                    <button
-                      className={`month-option ${chartType === 'bar' ? 'selected' : ''}`}
-                      onClick={() => handleChartTypeChange('bar')}
-                    >
-                      Bar Chart
-                    </button>
-                    <button
-                      className={`month-option ${chartType === 'area' ? 'selected' : ''}`}
-                      onClick={() => handleChartTypeChange('area')}
-                    >
-                      Area Chart
-                    </button>
+                    {CHART_TYPES.map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${chartType === option ? 'selected' : ''}`}
+                        onClick={() => handleChartTypeChange(option)}
+                      >
+                        {t(CHART_TYPE_LABELS[option])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('trendView')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowViewSelector(!showViewSelector);
+                    setShowMetricSelector(false);
+                    setShowChartTypeSelector(false);
+                  }}
+                >
+                  {t(TREND_VIEW_LABELS[trendView])}
+                  {showViewSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showViewSelector && (
+                  <div className="month-dropdown">
+                    {TREND_VIEWS.map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${trendView === option ? 'selected' : ''}`}
+                        onClick={() => handleTrendViewChange(option)}
+                      >
+                        {t(TREND_VIEW_LABELS[option])}
+                      </button>
+                    ))}
                   </div>
                 )}
               </div>
@@ -383,7 +503,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
         </div>
 
         <div className="district-selector glass-card" style={{padding:'1rem'}}>
-          <h2>Select District for Historical Analysis</h2>
+          <h2>{t('selectDistrictForHistory')}</h2>
           <div className="district-grid">
             {districts.map((district) => (
               <button
@@ -401,15 +521,15 @@ export const HistoricalPerformanceSection: React.FC = () => {
         {loading && (
           <div className="loading">
             <div className="spinner"></div>
-            <p>Loading historical data...</p>
+            <p>{t('loadingHistoricalData')}</p>
           </div>
         )}
 
         {error && (
           <div className="error">
-            <p>{error}</p>
+            <p>{t(error)}</p>
             <button onClick={() => selectedDistrict && fetchHistoricalData(selectedDistrict.district_code)}>
-              Try Again
+              {t('tryAgain')}
             </button>
           </div>
         )}
@@ -417,64 +537,70 @@ export const HistoricalPerformanceSection: React.FC = () => {
         {processedHistoricalData.length > 0 && selectedDistrict && (
           <div className="historical-charts">
             <div className="historical-header">
-              <h3>Historical Performance Trends - {selectedDistrict.district_name}</h3>
+              <h3>{t('historicalTrends', { district: selectedDistrict.district_name })}</h3>
               <div className="historical-controls">
                 <div className="control-group">
                   <button 
                     className={`action-btn ${showTrendAnalysis ? 'active' : ''}`}
                     onClick={() => setShowTrendAnalysis(!showTrendAnalysis)}
-                    title={showTrendAnalysis ? 'Hide trend analysis' : 'Show trend analysis'}
                   >
                     <TrendingUp size={16} />
-                    <span>{showTrendAnalysis ? 'Hide' : 'Show'} Trend Analysis</span>
+                    <span>{showTrendAnalysis ? t('hideTrendAnalysis') : t('showTrendAnalysis')}</span>
                   </button>
                   <button 
-                    className="action-btn export"
-                    onClick={exportHistoricalData}
-                    title="Export historical data as CSV"
-                    disabled={processedHistoricalData.length === 0}
+                    className={`action-btn ${realDataOnly ? 'active' : ''}`}
+                    onClick={handleRealDataOnlyToggle}
+                    title={t('officialDataOnlyHint')}
                   >
-                    <Download size={16} />
-                    <span>Export Data</span>
+                    <ShieldCheck size={16} />
+                    <span>{t('officialDataOnly')}</span>
                   </button>
+                  <ExportButtons
+                    path={`/api/export/history/${selectedDistrict.district_code}`}
+                    params={{ months: 12, strict: realDataOnly }}
+                  />
                 </div>
               </div>
             </div>
 
-            {showTrendAnalysis && calculateTrendAnalysis(processedHistoricalData) && (
+            {showTrendAnalysis && latestTrend && (
               <div className="trend-analysis">
-                <h4>Month-over-Month Analysis</h4>
+                <h4>{t('trendsFor', { month: formatMonth(latestTrend.month_year) })}</h4>
                 <div className="trend-cards">
-                  <div className="trend-card">
-                    <div className="trend-title">Households</div>
-                    <div className="trend-value">
-                      {formatNumber(calculateTrendAnalysis(processedHistoricalData)!.households.current)}
-                      <span className={`trend-change ${calculateTrendAnalysis(processedHistoricalData)!.households.change >= 0 ? 'positive' : 'negative'}`}>
-                        {calculateTrendAnalysis(processedHistoricalData)!.households.change >= 0 ? '↗' : '↘'} 
-                        {Math.abs(calculateTrendAnalysis(processedHistoricalData)!.households.percentage).toFixed(1)}%
-                      </span>
-                    </div>
-                  </div>
-                  <div className="trend-card">
-                    <div className="trend-title">Person Days</div>
-                    <div className="trend-value">
-                      {formatNumber(calculateTrendAnalysis(processedHistoricalData)!.personDays.current)}
-                      <span className={`trend-change ${calculateTrendAnalysis(processedHistoricalData)!.personDays.change >= 0 ? 'positive' : 'negative'}`}>
-                        {calculateTrendAnalysis(processedHistoricalData)!.personDays.change >= 0 ? '↗' : '↘'} 
-                        {Math.abs(calculateTrendAnalysis(processedHistoricalData)!.personDays.percentage).toFixed(1)}%
-                      </span>
-                    </div>
-                  </div>
-                  <div className="trend-card">
-                    <div className="trend-title">Amount Spent</div>
-                    <div className="trend-value">
-                      {formatCurrency(calculateTrendAnalysis(processedHistoricalData)!.amountSpent.current)}
-                      <span className={`trend-change ${calculateTrendAnalysis(processedHistoricalData)!.amountSpent.change >= 0 ? 'positive' : 'negative'}`}>
-                        {calculateTrendAnalysis(processedHistoricalData)!.amountSpent.change >= 0 ? '↗' : '↘'} 
-                        {Math.abs(calculateTrendAnalysis(processedHistoricalData)!.amountSpent.percentage).toFixed(1)}%
-                      </span>
-                    </div>
-                  </div>
+                  {CHART_METRICS.map(metric => {
+                    const trend = latestTrend.metrics[metric];
+                    if (!trend) return null;
+                    const changes = [
+                      { label: 'previousMonth', percent: trend.mom_change_pct },
+                      { label: 'sameMonthLastYear', percent: trend.yoy_change_pct }
+                    ];
+                    return (
+                      <div className="trend-card" key={metric}>
+                        <div className="trend-title">{t(METRIC_LABELS[metric])}</div>
+                        <div className="trend-value">
+                          {trend.value === null ? '—' : metric === 'total_amount_spent' ? formatCurrency(trend.value) : formatNumber(trend.value)}
+                        </div>
+                        {changes.map(({ label, percent }) => (
+                          <div className="trend-comparison" key={label}>
+                            <span>{t(label)}</span>
+                            {percent === null ? (
+                              <span className="trend-change">—</span>
+                            ) : (
+                              <span className={`trend-change ${percent >= 0 ? 'positive' : 'negative'}`}>
+                                {percent >= 0 ? '↗' : '↘'} {formatChange(percent)}
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                        <div className="trend-comparison">
+                          <span>{t('financialYearToDate', { count: latestTrend.fy_to_date_months })}</span>
+                          <span>
+                            {trend.fy_to_date === null ? '—' : metric === 'total_amount_spent' ? formatCurrency(trend.fy_to_date) : formatNumber(trend.fy_to_date)}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -482,14 +608,15 @@ export const HistoricalPerformanceSection: React.FC = () => {
             <div className="chart-container relative">
               <ResponsiveContainer width="100%" height={chartHeight}>
                 {chartType === 'line' && (
-                <LineChart 
-                  data={processedHistoricalData}
+                <ComposedChart 
+                  data={lineChartData}
                   style={{ willChange: 'transform' }}
                   margin={{ top: 10, right: 10, left: 0, bottom: 40 }}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis 
                     dataKey="month_year" 
+                    tickFormatter={formatMonthTick}
                     tick={{ fontSize: window.innerWidth < 768 ? 10 : 12 }}
                     angle={window.innerWidth < 768 ? -60 : -45}
                     textAnchor="end"
@@ -501,18 +628,8 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     width={window.innerWidth < 768 ? 50 : 60}
                   />
                   <Tooltip 
-                    formatter={(value, name) => [
-                      name === 'total_households' ? formatNumber(Number(value)) : 
-                      name === 'total_person_days' ? formatNumber(Number(value)) :
-                      name === 'total_amount_spent' ? formatCurrency(Number(value)) : value,
-                      name === 'total_households' ? 'Households' :
-                      name === 'total_person_days' ? 'Person Days' :
-                      name === 'total_amount_spent' ? 'Amount Spent' : name
-                    ]}
-                    labelFormatter={(label) => {
-                      const formattedDate = moment(label, 'YYYY-MM').format('MMMM YYYY');
-                      return `Period: ${formattedDate}`;
-                    }}
+                    formatter={formatSeriesValue}
+                    labelFormatter={formatPeriodLabel}
                     contentStyle={{
                       backgroundColor: 'rgba(255, 255, 255, 0.98)',
                       border: '1px solid #e5e7eb',
@@ -526,6 +643,8 @@ export const HistoricalPerformanceSection: React.FC = () => {
                       wrapperStyle={{ fontSize: window.innerWidth < 768 ? '11px' : '14px' }}
                       iconSize={window.innerWidth < 768 ? 12 : 14}
                     />
+                    {renderSourceMarkers()}
+                    {renderQualityMarkers()}
                     {historicalMetric === 'all' && (
                       <>
                   <Line 
@@ -533,7 +652,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     dataKey="total_households" 
                     stroke="#10B981" 
                           strokeWidth={3}
-                    name="Households"
+                    name={t('households')}
                           dot={{ r: 4 }}
                   />
                   <Line 
@@ -541,7 +660,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     dataKey="total_person_days" 
                     stroke="#3B82F6" 
                           strokeWidth={3}
-                          name="Person Days"
+                          name={t('personDays')}
                           dot={{ r: 4 }}
                         />
                         <Line 
@@ -549,7 +668,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
                           dataKey="total_amount_spent" 
                           stroke="#F59E0B" 
                           strokeWidth={3}
-                          name="Amount Spent"
+                          name={t('amountSpent')}
                           dot={{ r: 4 }}
                         />
                       </>
@@ -560,22 +679,44 @@ export const HistoricalPerformanceSection: React.FC = () => {
                         dataKey={historicalMetric} 
                         stroke={historicalMetric === 'total_households' ? '#10B981' : historicalMetric === 'total_person_days' ? '#3B82F6' : '#F59E0B'} 
                         strokeWidth={3}
-                        name={historicalMetric === 'total_households' ? 'Households' : historicalMetric === 'total_person_days' ? 'Person Days' : 'Amount Spent'}
+                        name={t(METRIC_LABELS[historicalMetric])}
                         dot={{ r: 4 }}
                       />
                     )}
-                </LineChart>
+                    {showForecast && (
+                      <>
+                        <Area
+                          type="monotone"
+                          dataKey="forecast_band"
+                          stroke="none"
+                          fill={historicalMetric === 'total_person_days' ? '#3B82F6' : '#F59E0B'}
+                          fillOpacity={0.15}
+                          name={t('forecastRange', { confidence: Math.round((forecast?.confidence ?? 0.95) * 100) })}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="forecast"
+                          stroke={historicalMetric === 'total_person_days' ? '#3B82F6' : '#F59E0B'}
+                          strokeWidth={2}
+                          strokeDasharray="6 4"
+                          name={t('forecast')}
+                          dot={false}
+                        />
+                      </>
+                    )}
+                </ComposedChart>
               )}
 
               {chartType === 'bar' && (
                 <BarChart 
-                  data={processedHistoricalData}
+                  data={chartData}
                   style={{ willChange: 'transform' }}
                   margin={{ top: 10, right: 10, left: 0, bottom: 40 }}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis 
                     dataKey="month_year" 
+                    tickFormatter={formatMonthTick}
                     tick={{ fontSize: window.innerWidth < 768 ? 10 : 12 }}
                     angle={window.innerWidth < 768 ? -60 : -45}
                     textAnchor="end"
@@ -587,18 +728,8 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     width={window.innerWidth < 768 ? 50 : 60}
                   />
                   <Tooltip 
-                    formatter={(value, name) => [
-                      name === 'total_households' ? formatNumber(Number(value)) : 
-                      name === 'total_person_days' ? formatNumber(Number(value)) :
-                      name === 'total_amount_spent' ? formatCurrency(Number(value)) : value,
-                      name === 'total_households' ? 'Households' :
-                      name === 'total_person_days' ? 'Person Days' :
-                      name === 'total_amount_spent' ? 'Amount Spent' : name
-                    ]}
-                    labelFormatter={(label) => {
-                      const formattedDate = moment(label, 'YYYY-MM').format('MMMM YYYY');
-                      return `Period: ${formattedDate}`;
-                    }}
+                    formatter={formatSeriesValue}
+                    labelFormatter={formatPeriodLabel}
                     contentStyle={{
                       backgroundColor: 'rgba(255, 255, 255, 0.98)',
                       border: '1px solid #e5e7eb',
@@ -612,18 +743,20 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     wrapperStyle={{ fontSize: window.innerWidth < 768 ? '11px' : '14px' }}
                     iconSize={window.innerWidth < 768 ? 12 : 14}
                   />
+                  {renderSourceMarkers()}
+                  {renderQualityMarkers()}
                   {historicalMetric === 'all' && (
                     <>
-                      <Bar dataKey="total_households" fill="#10B981" name="Households" />
-                      <Bar dataKey="total_person_days" fill="#3B82F6" name="Person Days" />
-                      <Bar dataKey="total_amount_spent" fill="#F59E0B" name="Amount Spent" />
+                      <Bar dataKey="total_households" fill="#10B981" name={t('households')} />
+                      <Bar dataKey="total_person_days" fill="#3B82F6" name={t('personDays')} />
+                      <Bar dataKey="total_amount_spent" fill="#F59E0B" name={t('amountSpent')} />
                     </>
                   )}
                   {historicalMetric !== 'all' && (
                     <Bar 
                       dataKey={historicalMetric} 
                       fill={historicalMetric === 'total_households' ? '#10B981' : historicalMetric === 'total_person_days' ? '#3B82F6' : '#F59E0B'} 
-                      name={historicalMetric === 'total_households' ? 'Households' : historicalMetric === 'total_person_days' ? 'Person Days' : 'Amount Spent'}
+                      name={t(METRIC_LABELS[historicalMetric])}
                     />
                   )}
                 </BarChart>
@@ -631,13 +764,14 @@ export const HistoricalPerformanceSection: React.FC = () => {
 
               {chartType === 'area' && (
                 <AreaChart 
-                  data={processedHistoricalData}
+                  data={chartData}
                   style={{ willChange: 'transform' }}
                   margin={{ top: 10, right: 10, left: 0, bottom: 40 }}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis 
                     dataKey="month_year" 
+                    tickFormatter={formatMonthTick}
                     tick={{ fontSize: window.innerWidth < 768 ? 10 : 12 }}
                     angle={window.innerWidth < 768 ? -60 : -45}
                     textAnchor="end"
@@ -649,18 +783,8 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     width={window.innerWidth < 768 ? 50 : 60}
                   />
                   <Tooltip 
-                    formatter={(value, name) => [
-                      name === 'total_households' ? formatNumber(Number(value)) : 
-                      name === 'total_person_days' ? formatNumber(Number(value)) :
-                      name === 'total_amount_spent' ? formatCurrency(Number(value)) : value,
-                      name === 'total_households' ? 'Households' :
-                      name === 'total_person_days' ? 'Person Days' :
-                      name === 'total_amount_spent' ? 'Amount Spent' : name
-                    ]}
-                    labelFormatter={(label) => {
-                      const formattedDate = moment(label, 'YYYY-MM').format('MMMM YYYY');
-                      return `Period: ${formattedDate}`;
-                    }}
+                    formatter={formatSeriesValue}
+                    labelFormatter={formatPeriodLabel}
                     contentStyle={{
                       backgroundColor: 'rgba(255, 255, 255, 0.98)',
                       border: '1px solid #e5e7eb',
@@ -674,6 +798,8 @@ export const HistoricalPerformanceSection: React.FC = () => {
                     wrapperStyle={{ fontSize: window.innerWidth < 768 ? '11px' : '14px' }}
                     iconSize={window.innerWidth < 768 ? 12 : 14}
                   />
+                  {renderSourceMarkers()}
+                  {renderQualityMarkers()}
                   {historicalMetric === 'all' && (
                     <>
                       <Area 
@@ -683,7 +809,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
                         stroke="#10B981" 
                         fill="#10B981" 
                         fillOpacity={0.6}
-                        name="Households"
+                        name={t('households')}
                       />
                       <Area 
                         type="monotone" 
@@ -692,7 +818,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
                         stroke="#3B82F6" 
                         fill="#3B82F6" 
                         fillOpacity={0.6}
-                  name="Person Days"
+                  name={t('personDays')}
                 />
                       <Area 
                         type="monotone" 
@@ -701,7 +827,7 @@ export const HistoricalPerformanceSection: React.FC = () => {
                         stroke="#F59E0B" 
                         fill="#F59E0B" 
                         fillOpacity={0.6}
-                        name="Amount Spent"
+                        name={t('amountSpent')}
                       />
                     </>
                   )}
@@ -712,12 +838,39 @@ export const HistoricalPerformanceSection: React.FC = () => {
                       stroke={historicalMetric === 'total_households' ? '#10B981' : historicalMetric === 'total_person_days' ? '#3B82F6' : '#F59E0B'} 
                       fill={historicalMetric === 'total_households' ? '#10B981' : historicalMetric === 'total_person_days' ? '#3B82F6' : '#F59E0B'} 
                       fillOpacity={0.6}
-                      name={historicalMetric === 'total_households' ? 'Households' : historicalMetric === 'total_person_days' ? 'Person Days' : 'Amount Spent'}
+                      name={t(METRIC_LABELS[historicalMetric])}
                     />
                   )}
                 </AreaChart>
               )}
             </ResponsiveContainer>
+            {showForecast && metricForecast?.fy_projected_total && (
+              <p className="forecast-note">
+                {t('forecastTotal', {
+                  year: forecast!.financial_year,
+                  value: formatMetricValue(metricForecast.fy_projected_total.value),
+                  lower: formatMetricValue(metricForecast.fy_projected_total.lower),
+                  upper: formatMetricValue(metricForecast.fy_projected_total.upper)
+                })}
+              </p>
+            )}
+            <DataQualityWarnings issues={qualityIssues} showMonth />
+            {flaggedMonths.length > 0 && (
+              <div className="source-legend">
+                {flaggedMonths.some(m => !m.missing) && (
+                  <span className="source-legend-item">
+                    <span className="source-legend-swatch mock" />
+                    {t('mockMonths', { count: flaggedMonths.filter(m => !m.missing).length })}
+                  </span>
+                )}
+                {flaggedMonths.some(m => m.missing) && (
+                  <span className="source-legend-item">
+                    <span className="source-legend-swatch missing" />
+                    {t('missingMonths', { count: flaggedMonths.filter(m => m.missing).length })}
+                  </span>
+                )}
+              </div>
+            )}
             <BorderBeam 
               size={350} 
               duration={15} 
@@ -727,6 +880,9 @@ export const HistoricalPerformanceSection: React.FC = () => {
               borderWidth={2}
             />
           </div>
+          {works && works.district_code === selectedDistrict.district_code && (
+            <WorksProgress works={works} state={stateWorks} />
+          )}
         </div>
         )}
       </div>
@@ -1,9 +1,25 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import axios from 'axios';
-import { MapPin, Users, Calendar, DollarSign, TrendingUp, Globe, Languages, ChevronDown, ChevronUp } from 'lucide-react';
+import { MapPin, Globe, Languages, ChevronDown, ChevronUp, Info, Printer } from 'lucide-react';
 import { useLanguage } from '../../LanguageContext';
-import moment from 'moment';
 import { Footer } from '../Footer';
+import { MetricCards } from '../MetricCards';
+import { ExportButtons } from '../ExportButtons';
+import { LocationDrillDown } from '../LocationDrillDown';
+import { ListenSummary } from '../ListenSummary';
+import { DataQualityWarnings } from '../DataQualityWarnings';
+import { TimelinessCard } from '../TimelinessCard';
+import { PerformanceGauges } from '../PerformanceGauges';
+import { currentMonthYear, recentMonths, toFinYear } from '../../lib/fiscalCalendar';
+import { Provenance, isOfficialSource } from '../../lib/provenance';
+import { cachedGet } from '../../lib/offlineCache';
+import { useRefreshOnReconnect } from '../../lib/useOffline';
+import { parseDistrictCodes, parseMonthParam, viewQuery } from '../../lib/viewParams';
+import { spokenSummary } from '../../lib/spokenSummary';
+import { DataQualityIssue, DataQualityResponse } from '../../lib/dataQuality';
+import { DistrictTimeliness } from '../../lib/timeliness';
+import { TargetAchievement } from '../../lib/targets';
 
 interface District {
   id: number;
@@ -14,6 +30,16 @@ interface District {
   longitude: number;
 }
 
+interface ScoreComponent {
+  id: string;
+  label: string;
+  weight: number;
+  value: number | null;
+  available: boolean;
+  score: number | null;
+  points: number;
+}
+
 interface PerformanceData {
   district_code: string;
   district_name: string;
@@ -23,29 +49,47 @@ interface PerformanceData {
   total_amount_spent: number;
   avg_days_per_household: number;
   avg_amount_per_household: number;
+  payment_within_15_days?: number | null;
   performance_score?: number;
+  data_source?: string;
+  provenance?: Provenance;
+  score_breakdown?: ScoreComponent[];
 }
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
 
+// Languages the server can print report cards in; others get English
+const REPORT_LANGUAGES = ['en', 'te'];
+
 export const HomeSection: React.FC = () => {
-  const { language, setLanguage, t } = useLanguage();
+  const { language, languages, setLanguage, t, formatCurrency, formatMonth, formatDateTime } = useLanguage();
+  // Set when opened from a shared link or the map, e.g. /?d=AP001&m=2025-06
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [linkedDistrict] = useState(() => parseDistrictCodes(searchParams.get('d'))[0] || null);
+  const linkHandled = useRef(false);
   const [districts, setDistricts] = useState<District[]>([]);
   const [selectedDistrict, setSelectedDistrict] = useState<District | null>(null);
   const [performanceData, setPerformanceData] = useState<PerformanceData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [locationPermission, setLocationPermission] = useState<boolean | null>(null);
-  const [selectedMonth, setSelectedMonth] = useState<string>(moment().format('YYYY-MM'));
+  const [outsideState, setOutsideState] = useState(false);
+  // Detected from the nearest headquarters, without boundaries to confirm it
+  const [approximateLocation, setApproximateLocation] = useState(false);
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => parseMonthParam(searchParams.get('m')));
   const [showMonthSelector, setShowMonthSelector] = useState(false);
   const [dataSource, setDataSource] = useState<any>(null);
+  const [showScoreBreakdown, setShowScoreBreakdown] = useState(false);
+  const [qualityIssues, setQualityIssues] = useState<DataQualityIssue[]>([]);
+  const [timeliness, setTimeliness] = useState<DistrictTimeliness | null>(null);
+  const [targets, setTargets] = useState<TargetAchievement | null>(null);
 
   const fetchDistricts = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/api/districts`);
+      const response = await cachedGet<District[]>(`${API_BASE_URL}/api/districts`);
       setDistricts(response.data);
     } catch (err) {
-      setError('Failed to load districts');
+      setError('failedToLoadDistricts');
     }
   };
 
@@ -63,29 +107,48 @@ export const HomeSection: React.FC = () => {
     setError(null);
     try {
       const month = monthYear || selectedMonth;
-      const response = await axios.get(`${API_BASE_URL}/api/district/${districtCode}/performance?month=${month}`);
+      const response = await cachedGet<PerformanceData>(`${API_BASE_URL}/api/district/${districtCode}/performance?month=${month}`);
       setPerformanceData(response.data);
     } catch (err) {
-      setError('Failed to load performance data');
+      setError('failedToLoadPerformance');
     } finally {
       setLoading(false);
     }
+
+    try {
+      const month = monthYear || selectedMonth;
+      const response = await cachedGet<DataQualityResponse>(`${API_BASE_URL}/api/data-quality?district=${districtCode}&month=${month}`);
+      setQualityIssues(response.data.issues);
+    } catch (err) {
+      setQualityIssues([]);
+    }
+
+    try {
+      const month = monthYear || selectedMonth;
+      const response = await cachedGet<DistrictTimeliness>(`${API_BASE_URL}/api/timeliness?district=${districtCode}&month=${month}&months=6`);
+      setTimeliness(response.data);
+    } catch (err) {
+      console.warn('Wage payment timeliness unavailable:', err);
+      setTimeliness(null);
+    }
+
+    try {
+      const month = monthYear || selectedMonth;
+      const response = await cachedGet<TargetAchievement>(`${API_BASE_URL}/api/district/${districtCode}/targets?month=${month}`);
+      setTargets(response.data);
+    } catch (err) {
+      console.warn('Labour budget targets unavailable:', err);
+      setTargets(null);
+    }
   }, [selectedMonth]);
 
   const generateMonthOptions = () => {
-    const options = [];
-    const currentDate = moment();
-    
-    // Generate last 24 months
-    for (let i = 0; i < 24; i++) {
-      const date = currentDate.clone().subtract(i, 'months');
-      options.push({
-        value: date.format('YYYY-MM'),
-        label: date.format('MMMM YYYY'),
-        telugu: date.format('MMMM YYYY') // You can add Telugu month names here
-      });
-    }
-    return options;
+    // Last 24 months, tagged with the financial year each belongs to
+    return recentMonths(24).map(monthYear => ({
+      value: monthYear,
+      label: formatMonth(monthYear),
+      finYear: toFinYear(monthYear)
+    }));
   };
 
   const detectLocation = useCallback(() => {
@@ -97,7 +160,13 @@ export const HomeSection: React.FC = () => {
               latitude: position.coords.latitude,
               longitude: position.coords.longitude
             });
+            if (response.data && response.data.inside_state === false) {
+              setOutsideState(true);
+              setLocationPermission(false);
+              return;
+            }
             if (response.data) {
+              setApproximateLocation(response.data.inside_state === null);
               setSelectedDistrict(response.data);
               fetchPerformanceData(response.data.district_code);
             }
@@ -117,9 +186,40 @@ export const HomeSection: React.FC = () => {
 
   useEffect(() => {
     fetchDistricts();
-    detectLocation();
+    if (!linkedDistrict) {
+      detectLocation();
+    }
     fetchDataSource();
-  }, [detectLocation]);
+  }, [detectLocation, linkedDistrict]);
+
+  useEffect(() => {
+    if (!linkedDistrict || linkHandled.current || districts.length === 0) return;
+    linkHandled.current = true;
+    const district = districts.find(d => d.district_code === linkedDistrict);
+    if (district) {
+      setLocationPermission(true);
+      setSelectedDistrict(district);
+      fetchPerformanceData(district.district_code);
+    } else {
+      setLocationPermission(false);
+    }
+  }, [districts, linkedDistrict, fetchPerformanceData]);
+
+  // Keep the URL in step with the view so it can be refreshed or shared.
+  // Waits for a linked district to be resolved; an unknown one is dropped.
+  useEffect(() => {
+    if (linkedDistrict && !linkHandled.current) return;
+    setSearchParams(viewQuery({
+      d: selectedDistrict?.district_code,
+      m: selectedMonth !== currentMonthYear() ? selectedMonth : null
+    }), { replace: true });
+  }, [districts, selectedDistrict, selectedMonth, linkedDistrict, setSearchParams]);
+
+  useRefreshOnReconnect(() => {
+    if (selectedDistrict) {
+      fetchPerformanceData(selectedDistrict.district_code);
+    }
+  });
 
   const handleMonthChange = (monthValue: string) => {
     setSelectedMonth(monthValue);
@@ -129,53 +229,30 @@ export const HomeSection: React.FC = () => {
     }
   };
 
+  const handleSelectState = () => {
+    setSelectedDistrict(null);
+    setPerformanceData(null);
+  };
+
   const handleDistrictSelect = (district: District) => {
+    setApproximateLocation(false);
     setSelectedDistrict(district);
     fetchPerformanceData(district.district_code);
   };
 
-  const formatNumber = (num: number) => {
-    if (num === null || num === undefined || isNaN(num)) {
-      return '0';
-    }
-    
-    if (num >= 10000000) {
-      return (num / 10000000).toFixed(1) + ' Cr';
-    } else if (num >= 100000) {
-      return (num / 100000).toFixed(1) + ' L';
-    } else if (num >= 1000) {
-      return (num / 1000).toFixed(1) + ' K';
-    }
-    return num.toString();
-  };
-
-  const formatCurrency = (amount: number) => {
-    if (amount === null || amount === undefined || isNaN(amount)) {
-      return '₹0';
-    }
-    
-    // Handle amounts that are already in crores (from real API data)
-    if (amount < 1000000 && amount > 100) {
-      return '₹' + amount.toFixed(1) + ' Cr';
-    }
-    
-    // Handle amounts in full format (from mock data)
-    if (amount >= 10000000) {
-      return '₹' + (amount / 10000000).toFixed(1) + ' Cr';
-    } else if (amount >= 100000) {
-      return '₹' + (amount / 100000).toFixed(1) + ' L';
-    } else if (amount >= 1000) {
-      return '₹' + (amount / 1000).toFixed(1) + ' K';
-    }
-    return '₹' + amount.toString();
-  };
-
   const getPerformanceColor = (score: number) => {
     if (score >= 80) return '#10B981'; // Green
     if (score >= 60) return '#F59E0B'; // Yellow
     return '#EF4444'; // Red
   };
 
+  // Server labels are English; prefer a translated label when one exists
+  const scoreComponentLabel = (component: ScoreComponent) => {
+    const key = `score_${component.id}`;
+    const translated = t(key);
+    return translated === key ? component.label : translated;
+  };
+
   return (
     <div className="home-section page">
       <header className="header">
@@ -192,19 +269,19 @@ export const HomeSection: React.FC = () => {
               </h1>
               <p className="subtitle">{t('subtitle')}</p>
             </div>
-            <div className="language-toggle">
-              <button 
-                className={`lang-btn ${language === 'en' ? 'active' : ''}`}
-                onClick={() => setLanguage('en')}
-              >
-                English
-              </button>
-              <button 
-                className={`lang-btn ${language === 'te' ? 'active' : ''}`}
-                onClick={() => setLanguage('te')}
-              >
-                తెలుగు
-              </button>
+            <div className="language-toggle" role="group">
+              {languages.map(pack => (
+                <button
+                  key={pack.code}
+                  lang={pack.code}
+                  dir={pack.dir}
+                  className={`lang-btn ${language === pack.code ? 'active' : ''}`}
+                  onClick={() => setLanguage(pack.code)}
+                  aria-pressed={language === pack.code}
+                >
+                  {pack.name}
+                </button>
+              ))}
               <Languages className="lang-icon" />
             </div>
           </div>
@@ -223,7 +300,14 @@ export const HomeSection: React.FC = () => {
           {locationPermission === false && (
             <div className="location-fallback">
               <MapPin className="location-icon" />
-              <p>{t('selectDistrictManually')}</p>
+              <p>{outsideState ? t('outsideState') : t('selectDistrictManually')}</p>
+            </div>
+          )}
+
+          {approximateLocation && selectedDistrict && (
+            <div className="location-fallback">
+              <MapPin className="location-icon" />
+              <p>{t('nearestDistrictDetected', { district: selectedDistrict.district_name })}</p>
             </div>
           )}
 
@@ -252,7 +336,7 @@ export const HomeSection: React.FC = () => {
 
           {error && (
             <div className="error">
-              <p>{error}</p>
+              <p>{t(error)}</p>
               <button onClick={() => selectedDistrict && fetchPerformanceData(selectedDistrict.district_code)}>
                 {t('tryAgain')}
               </button>
@@ -262,13 +346,19 @@ export const HomeSection: React.FC = () => {
           {performanceData && (
             <div className="performance-dashboard">
               <div className="dashboard-header">
-                <h2>{performanceData.district_name} District Performance</h2>
+                <h2>{t('districtPerformance', { district: performanceData.district_name })}</h2>
+                {performanceData.provenance && !isOfficialSource(performanceData.provenance.source) && (
+                  <span className="provenance-badge" title={t('unofficialDataHint')}>
+                    {t('unofficialData')}
+                  </span>
+                )}
+                <DataQualityWarnings issues={qualityIssues} />
                 <div className="month-selector-container">
                   <button 
                     className="month-selector-btn"
                     onClick={() => setShowMonthSelector(!showMonthSelector)}
                   >
-                    {moment(selectedMonth).format('MMMM YYYY')}
+                    {formatMonth(selectedMonth)}
                     {showMonthSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                   </button>
                   {showMonthSelector && (
@@ -278,8 +368,9 @@ export const HomeSection: React.FC = () => {
                           key={option.value}
                           className={`month-option ${selectedMonth === option.value ? 'selected' : ''}`}
                           onClick={() => handleMonthChange(option.value)}
+                          title={t('financialYear', { year: option.finYear })}
                         >
-                          {language === 'te' ? option.telugu : option.label}
+                          {option.label}
                         </button>
                       ))}
                     </div>
@@ -287,52 +378,45 @@ export const HomeSection: React.FC = () => {
                 </div>
               </div>
 
-              <div className="metrics-grid">
-                <div className="metric-card">
-                  <div className="metric-icon">
-                    <Users />
-                  </div>
-                  <div className="metric-content">
-                    <div className="metric-value">{formatNumber(performanceData.total_households)}</div>
-                    <div className="metric-label">{t('totalHouseholds')}</div>
-                    <div className="metric-description">{t('familiesBenefited')}</div>
-                  </div>
-                </div>
+              <ListenSummary text={spokenSummary(performanceData, { lang: language, t, formatMonth })} />
 
-                <div className="metric-card">
-                  <div className="metric-icon">
-                    <Calendar />
-                  </div>
-                  <div className="metric-content">
-                    <div className="metric-value">{formatNumber(performanceData.total_person_days)}</div>
-                    <div className="metric-label">{t('personDays')}</div>
-                    <div className="metric-description">{t('workDaysCreated')}</div>
-                  </div>
-                </div>
+              {timeliness && timeliness.district_code === performanceData.district_code && (
+                <TimelinessCard timeliness={timeliness} />
+              )}
 
-                <div className="metric-card">
-                  <div className="metric-icon">
-                    <DollarSign />
-                  </div>
-                  <div className="metric-content">
-                    <div className="metric-value">{formatCurrency(performanceData.total_amount_spent)}</div>
-                    <div className="metric-label">{t('amountSpent')}</div>
-                    <div className="metric-description">{t('totalExpenditure')}</div>
-                  </div>
-                </div>
+              <MetricCards data={performanceData} />
 
-                <div className="metric-card">
-                  <div className="metric-icon">
-                    <TrendingUp />
-                  </div>
-                  <div className="metric-content">
-                    <div className="metric-value">{performanceData.avg_days_per_household}</div>
-                    <div className="metric-label">{t('avgDaysPerHousehold')}</div>
-                    <div className="metric-description">{t('workDaysPerFamily')}</div>
-                  </div>
-                </div>
+              <PerformanceGauges
+                achievement={targets && targets.district_code === performanceData.district_code ? targets : null}
+                performanceScore={performanceData.performance_score ?? null}
+              />
+
+              <div className="export-buttons-row">
+                <a
+                  className="action-btn export report-card-link"
+                  href={`${API_BASE_URL}/api/district/${performanceData.district_code}/report?month=${selectedMonth}&lang=${REPORT_LANGUAGES.includes(language) ? language : 'en'}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Printer size={16} />
+                  {t('printReport')}
+                </a>
+                <ExportButtons
+                  path="/api/export/comparison"
+                  params={{ districts: performanceData.district_code, month: selectedMonth }}
+                  label={t('download')}
+                />
               </div>
 
+              {selectedDistrict && (
+                <LocationDrillDown
+                  districtCode={selectedDistrict.district_code}
+                  districtName={performanceData.district_name}
+                  month={selectedMonth}
+                  onSelectState={handleSelectState}
+                />
+              )}
+
               <div className="performance-summary">
                 <h3>{t('performanceSummary')}</h3>
                 <div className="summary-cards">
@@ -351,6 +435,49 @@ export const HomeSection: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                {performanceData.score_breakdown && performanceData.score_breakdown.length > 0 && (
+                  <div className="score-breakdown">
+                    <button
+                      className="score-breakdown-toggle"
+                      onClick={() => setShowScoreBreakdown(!showScoreBreakdown)}
+                      aria-expanded={showScoreBreakdown}
+                    >
+                      <Info size={16} />
+                      {t('whyThisScore')}
+                      {showScoreBreakdown ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    </button>
+                    {showScoreBreakdown && (
+                      <ul className="score-breakdown-list">
+                        {performanceData.score_breakdown.map(component => (
+                          <li
+                            key={component.id}
+                            className={`score-component ${component.available ? '' : 'unavailable'}`}
+                          >
+                            <div className="score-component-header">
+                              <span>{scoreComponentLabel(component)}</span>
+                              <span className="score-component-points">
+                                {component.available ? `+${component.points}` : t('notAvailable')}
+                              </span>
+                            </div>
+                            <div className="score-component-bar">
+                              <div
+                                className="score-component-fill"
+                                style={{
+                                  width: `${component.score ?? 0}%`,
+                                  background: getPerformanceColor(component.score ?? 0)
+                                }}
+                              />
+                            </div>
+                            <div className="score-component-meta">
+                              {t('weight')}: {component.weight} · {t('componentScore')}: {component.available ? `${component.score}/100` : '—'}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
 
               {dataSource && (
@@ -365,7 +492,7 @@ export const HomeSection: React.FC = () => {
                       <p><strong>{t('ministry')}:</strong> {dataSource.ministry}</p>
                       <p><strong>{t('department')}:</strong> {dataSource.department}</p>
                       <p><strong>{t('description')}:</strong> {dataSource.description}</p>
-                      <p><strong>{t('lastUpdated')}:</strong> {new Date(dataSource.last_updated).toLocaleString()}</p>
+                      <p><strong>{t('lastUpdated')}:</strong> {formatDateTime(dataSource.last_updated)}</p>
                     </div>
                   </div>
                 </div>
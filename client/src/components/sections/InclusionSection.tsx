@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Users, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { useLanguage } from '../../LanguageContext';
+import { Footer } from '../Footer';
+import { ExportButtons } from '../ExportButtons';
+import { cachedGet } from '../../lib/offlineCache';
+import { recentMonths, toFinYear } from '../../lib/fiscalCalendar';
+import { isOfficialSource, isMissingSource, sourceLabelKey } from '../../lib/provenance';
+import { parseChoiceParam, parseDistrictCodes, parseMonthParam, viewQuery } from '../../lib/viewParams';
+import { GROUP_LABELS, INCLUSION_GROUPS, InclusionGroup, InclusionResponse, inclusionChartRows } from '../../lib/inclusion';
+
+const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
+
+const HISTORY_MONTHS = 12;
+
+export const InclusionSection: React.FC = () => {
+  const { t, formatMonth } = useLanguage();
+  // View state restored from the URL, e.g. /inclusion?m=2025-06&group=women&d=AP004
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => parseMonthParam(searchParams.get('m')));
+  const [group, setGroup] = useState<InclusionGroup>(() => parseChoiceParam(searchParams.get('group'), INCLUSION_GROUPS, 'women'));
+  const [districtCode, setDistrictCode] = useState<string | null>(() => parseDistrictCodes(searchParams.get('d'))[0] || null);
+  const [state, setState] = useState<InclusionResponse | null>(null);
+  const [district, setDistrict] = useState<InclusionResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showMonthSelector, setShowMonthSelector] = useState(false);
+  const [showGroupSelector, setShowGroupSelector] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    cachedGet<InclusionResponse>(`${API_BASE_URL}/api/inclusion?month=${selectedMonth}&months=${HISTORY_MONTHS}`)
+      .then(response => {
+        setState(response.data);
+        setError(null);
+      })
+      .catch(() => setError('failedToLoadInclusion'))
+      .finally(() => setLoading(false));
+  }, [selectedMonth]);
+
+  // The chosen district's own series, drawn against the state's
+  useEffect(() => {
+    if (!districtCode) {
+      setDistrict(null);
+      return;
+    }
+    cachedGet<InclusionResponse>(`${API_BASE_URL}/api/inclusion?month=${selectedMonth}&months=${HISTORY_MONTHS}&district=${districtCode}`)
+      .then(response => setDistrict(response.data))
+      .catch(err => {
+        console.warn('District inclusion figures unavailable:', err);
+        setDistrict(null);
+      });
+  }, [selectedMonth, districtCode]);
+
+  // Keep the view in the URL so it can be refreshed or shared
+  useEffect(() => {
+    setSearchParams(viewQuery({
+      m: selectedMonth,
+      group: group === 'women' ? null : group,
+      d: districtCode
+    }), { replace: true });
+  }, [selectedMonth, group, districtCode, setSearchParams]);
+
+  // Close dropdowns when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (!target.closest('.month-selector-container')) {
+        setShowMonthSelector(false);
+        setShowGroupSelector(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const generateMonthOptions = () => {
+    // Last 24 months, tagged with the financial year each belongs to
+    return recentMonths(24).map(monthYear => ({
+      value: monthYear,
+      label: formatMonth(monthYear),
+      finYear: toFinYear(monthYear)
+    }));
+  };
+
+  const formatShare = (share: number | null) => (share === null ? '—' : `${share.toFixed(1)}%`);
+  const norm = state ? state.norms[group] : null;
+  const districtName = state?.districts?.find(row => row.district_code === districtCode)?.district_name;
+  const chartRows = state ? inclusionChartRows(state.series, group, district ? district.series : []) : [];
+
+  return (
+    <div className="inclusion-section page">
+      <div className="container">
+        <div className="section-header text-center">
+          <h1 className="section-title text-xl md:text-2xl lg:text-3xl font-medium text-gray-800 mb-1">
+            <Users className="section-icon inline-block mr-3" />
+            {t('inclusionTitle')}
+          </h1>
+        </div>
+
+        <div className="toolbar glass-card mb-2">
+          <div className="comparison-controls flex flex-wrap gap-6 justify-center items-center p-4">
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('selectMonth')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowMonthSelector(!showMonthSelector);
+                    setShowGroupSelector(false);
+                  }}
+                >
+                  {formatMonth(selectedMonth)}
+                  {showMonthSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showMonthSelector && (
+                  <div className="month-dropdown">
+                    {generateMonthOptions().map(option => (
+                      <button
+                        key={option.value}
+                        className={`month-option ${selectedMonth === option.value ? 'selected' : ''}`}
+                        onClick={() => {
+                          setSelectedMonth(option.value);
+                          setShowMonthSelector(false);
+                        }}
+                        title={t('financialYear', { year: option.finYear })}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('inclusionGroup')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowGroupSelector(!showGroupSelector);
+                    setShowMonthSelector(false);
+                  }}
+                >
+                  {t(GROUP_LABELS[group])}
+                  {showGroupSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showGroupSelector && (
+                  <div className="month-dropdown">
+                    {INCLUSION_GROUPS.map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${group === option ? 'selected' : ''}`}
+                        onClick={() => {
+                          setGroup(option);
+                          setShowGroupSelector(false);
+                        }}
+                      >
+                        {t(GROUP_LABELS[option])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {loading && (
+          <div className="loading">
+            <div className="spinner"></div>
+            <p>{t('loadingInclusion')}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="error">
+            <p>{t(error)}</p>
+          </div>
+        )}
+
+        <div className="export-buttons-row">
+          <ExportButtons path="/api/export/inclusion" params={{ month: selectedMonth }} label={t('exportAllDistricts')} />
+        </div>
+
+        {state && norm && !loading && (
+          <>
+            <div className="chart-container inclusion-chart glass-card">
+              <h3>{t(GROUP_LABELS[group])}</h3>
+              <p className="inclusion-norm" title={norm.basis}>
+                {t(group === 'differently_abled' ? 'shareOfWorkers' : 'shareOfPersonDays')} · {t('inclusionNorm', { norm: norm.norm })}
+              </p>
+              <ResponsiveContainer width="100%" height={320}>
+                <LineChart data={chartRows} margin={{ top: 10, right: 10, left: 0, bottom: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="month_year"
+                    tickFormatter={(monthYear: string) => formatMonth(monthYear, 'short')}
+                    tick={{ fontSize: 12 }}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis tick={{ fontSize: 12 }} width={50} unit="%" />
+                  <Tooltip
+                    formatter={(value: any) => formatShare(typeof value === 'number' ? value : null)}
+                    labelFormatter={(label: any) => formatMonth(label)}
+                  />
+                  <Legend />
+                  <ReferenceLine
+                    y={norm.norm}
+                    stroke="#EF4444"
+                    strokeDasharray="6 4"
+                    label={{ value: t('inclusionNorm', { norm: norm.norm }), position: 'insideTopRight', fill: '#B91C1C', fontSize: 12 }}
+                  />
+                  <Line type="monotone" dataKey="state" stroke="#3B82F6" strokeWidth={3} name={t('stateShare')} dot={{ r: 4 }} connectNulls />
+                  {districtCode && (
+                    <Line type="monotone" dataKey="district" stroke="#10B981" strokeWidth={3} name={districtName || districtCode} dot={{ r: 4 }} connectNulls />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+              <p className="inclusion-hint">{districtCode ? (
+                <button className="inclusion-clear" onClick={() => setDistrictCode(null)}>{t('clearSelection')}</button>
+              ) : t('inclusionSelectHint')}</p>
+            </div>
+
+            {state.districts && (
+              <div className="league-table inclusion-table glass-card">
+                <p className="league-table-summary">
+                  <AlertTriangle size={14} className="inline-block" />{' '}
+                  {t('districtsBelowNorm', { flagged: state.districts_flagged ?? 0, total: state.districts.length })}
+                </p>
+                <div className="league-table-scroll">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>{t('district')}</th>
+                        {INCLUSION_GROUPS.map(option => (
+                          <th key={option} title={state.norms[option].basis}>
+                            {t(GROUP_LABELS[option])}
+                            <span className="inclusion-norm-cell">{t('inclusionNorm', { norm: state.norms[option].norm })}</span>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {state.districts.map(row => (
+                        <tr
+                          key={row.district_code}
+                          className={`${row.district_code === districtCode ? 'selected' : ''} ${isMissingSource(row.data_source) ? 'unranked' : ''}`}
+                          onClick={() => setDistrictCode(row.district_code === districtCode ? null : row.district_code)}
+                        >
+                          <td>
+                            {row.district_name}
+                            {!isMissingSource(row.data_source) && !isOfficialSource(row.data_source) && (
+                              <span className="league-table-source" title={t(sourceLabelKey(row.data_source))}>*</span>
+                            )}
+                          </td>
+                          {INCLUSION_GROUPS.map(option => (
+                            <td key={option} className={row.groups[option].below_norm ? 'inclusion-below-norm' : ''}>
+                              {formatShare(row.groups[option].share)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="league-table-note">{t('belowNormHint')} · * {t('notOfficialFigures')}</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+};
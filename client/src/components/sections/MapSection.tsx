@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import axios from 'axios';
+import { useNavigate } from 'react-router-dom';
+import { Map as MapIcon, ChevronDown, ChevronUp } from 'lucide-react';
+import { useLanguage } from '../../LanguageContext';
+import { Footer } from '../Footer';
+import { ExportButtons } from '../ExportButtons';
+import { currentMonthYear, recentMonths, toFinYear } from '../../lib/fiscalCalendar';
+import { BoundaryCollection, projectBoundaries, choroplethBuckets, colorFor } from '../../lib/geo';
+import { cachedGet } from '../../lib/offlineCache';
+import { useRefreshOnReconnect } from '../../lib/useOffline';
+import { districtLink } from '../../lib/viewParams';
+
+type MapMetric = 'total_households' | 'total_person_days' | 'total_amount_spent' | 'performance_score';
+
+interface DistrictValue {
+  district_code: string;
+  district_name?: string;
+  total_households: number | null;
+  total_person_days: number | null;
+  total_amount_spent: number | null;
+  performance_score: number | null;
+  data_source: string;
+}
+
+const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
+
+const MAP_WIDTH = 600;
+const NO_DATA_COLOR = '#e8eaed';
+
+// Catalogue keys for each metric's label
+const METRIC_LABELS: Record<MapMetric, string> = {
+  total_households: 'totalHouseholds',
+  total_person_days: 'totalPersonDays',
+  total_amount_spent: 'totalAmountSpent',
+  performance_score: 'performanceScore'
+};
+
+export const MapSection: React.FC = () => {
+  const { t, formatNumber, formatCurrency, formatMonth } = useLanguage();
+  const navigate = useNavigate();
+  const [boundaries, setBoundaries] = useState<BoundaryCollection | null>(null);
+  const [values, setValues] = useState<DistrictValue[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<MapMetric>('total_households');
+  const [selectedMonth, setSelectedMonth] = useState<string>(currentMonthYear());
+  const [showMonthSelector, setShowMonthSelector] = useState(false);
+  const [showMetricSelector, setShowMetricSelector] = useState(false);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useRefreshOnReconnect(() => setRefreshCount(count => count + 1));
+
+  useEffect(() => {
+    axios.get(`${API_BASE_URL}/api/boundaries`)
+      .then(response => setBoundaries(response.data))
+      .catch(() => setError('boundariesUnavailable'));
+  }, []);
+
+  useEffect(() => {
+    if (!boundaries) return;
+    const codes = boundaries.features.map(feature => feature.properties.district_code);
+    setLoading(true);
+    cachedGet<DistrictValue[]>(`${API_BASE_URL}/api/comparison?districts=${codes.join(',')}&month=${selectedMonth}`)
+      .then(response => {
+        setValues(response.data);
+        setError(null);
+      })
+      .catch(() => setError('failedToLoadDistrictData'))
+      .finally(() => setLoading(false));
+  }, [boundaries, selectedMonth, refreshCount]);
+
+  // Close dropdowns when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (!target.closest('.month-selector-container')) {
+        setShowMonthSelector(false);
+        setShowMetricSelector(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const projected = useMemo(() => (boundaries ? projectBoundaries(boundaries, MAP_WIDTH) : null), [boundaries]);
+
+  const valueByCode = useMemo(() => {
+    const byCode = new Map<string, number | null>();
+    values.forEach(row => byCode.set(row.district_code, row[metric]));
+    return byCode;
+  }, [values, metric]);
+
+  const buckets = useMemo(
+    () => choroplethBuckets(Array.from(valueByCode.values()).filter((v): v is number => v !== null && v !== undefined)),
+    [valueByCode]
+  );
+
+  const generateMonthOptions = () => {
+    // Last 24 months, tagged with the financial year each belongs to
+    return recentMonths(24).map(monthYear => ({
+      value: monthYear,
+      label: formatMonth(monthYear),
+      finYear: toFinYear(monthYear)
+    }));
+  };
+
+  const handleMonthChange = (monthValue: string) => {
+    setSelectedMonth(monthValue);
+    setShowMonthSelector(false);
+  };
+
+  const handleMetricChange = (metricValue: MapMetric) => {
+    setMetric(metricValue);
+    setShowMetricSelector(false);
+  };
+
+  const formatMetric = (value: number | null | undefined) => {
+    if (value === null || value === undefined) return t('notAvailable');
+    if (metric === 'total_amount_spent') return formatCurrency(value);
+    if (metric === 'performance_score') return `${Math.round(value)}/100`;
+    return formatNumber(value);
+  };
+
+  const hoveredShape = projected?.shapes.find(shape => shape.code === hovered);
+  const markersOnly = projected !== null && projected.shapes.every(shape => shape.marker);
+
+  return (
+    <div className="map-section page">
+      <div className="container">
+        <div className="section-header text-center">
+          <h1 className="section-title text-xl md:text-2xl lg:text-3xl font-medium text-gray-800 mb-1">
+            <MapIcon className="section-icon inline-block mr-3" />
+            {t('mapTitle')}
+          </h1>
+        </div>
+
+        <div className="toolbar glass-card mb-2">
+          <div className="comparison-controls flex flex-wrap gap-6 justify-center items-center p-4">
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('selectMonth')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowMonthSelector(!showMonthSelector);
+                    setShowMetricSelector(false);
+                  }}
+                >
+                  {formatMonth(selectedMonth)}
+                  {showMonthSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showMonthSelector && (
+                  <div className="month-dropdown">
+                    {generateMonthOptions().map(option => (
+                      <button
+                        key={option.value}
+                        className={`month-option ${selectedMonth === option.value ? 'selected' : ''}`}
+                        onClick={() => handleMonthChange(option.value)}
+                        title={t('financialYear', { year: option.finYear })}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('mapMetric')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowMetricSelector(!showMetricSelector);
+                    setShowMonthSelector(false);
+                  }}
+                >
+                  {t(METRIC_LABELS[metric])}
+                  {showMetricSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showMetricSelector && (
+                  <div className="month-dropdown">
+                    {(Object.keys(METRIC_LABELS) as MapMetric[]).map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${metric === option ? 'selected' : ''}`}
+                        onClick={() => handleMetricChange(option)}
+                      >
+                        {t(METRIC_LABELS[option])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="error">
+            <p>{t(error)}</p>
+          </div>
+        )}
+
+        <div className="export-buttons-row">
+          <ExportButtons path="/api/export/snapshot" params={{ month: selectedMonth }} label={t('exportAllDistricts')} />
+        </div>
+
+        {projected && (
+          <div className="choropleth glass-card">
+            <div className="choropleth-status">
+              {loading
+                ? t('loadingDistrictData')
+                : hoveredShape
+                  ? `${hoveredShape.name}: ${formatMetric(valueByCode.get(hoveredShape.code))}`
+                  : t('mapHint')}
+            </div>
+            <svg
+              className="choropleth-map"
+              viewBox={`0 0 ${projected.width} ${projected.height}`}
+              role="img"
+              aria-label={t('mapDescription', { metric: t(METRIC_LABELS[metric]), month: formatMonth(selectedMonth) })}
+            >
+              {projected.shapes.map(shape => (
+                <path
+                  key={shape.code}
+                  d={shape.path}
+                  className={`choropleth-district ${shape.marker ? 'marker' : ''} ${hovered === shape.code ? 'hovered' : ''}`}
+                  fill={colorFor(valueByCode.get(shape.code), buckets) || NO_DATA_COLOR}
+                  onMouseEnter={() => setHovered(shape.code)}
+                  onMouseLeave={() => setHovered(null)}
+                  onClick={() => navigate(districtLink(shape.code, selectedMonth))}
+                >
+                  <title>{`${shape.name}: ${formatMetric(valueByCode.get(shape.code))}`}</title>
+                </path>
+              ))}
+            </svg>
+
+            <div className="choropleth-legend">
+              {buckets.map(bucket => (
+                <div key={bucket.color} className="choropleth-legend-item">
+                  <span className="choropleth-swatch" style={{ background: bucket.color }} />
+                  {formatMetric(bucket.from)} – {formatMetric(bucket.to)}
+                </div>
+              ))}
+              <div className="choropleth-legend-item">
+                <span className="choropleth-swatch" style={{ background: NO_DATA_COLOR }} />
+                {t('notAvailable')}
+              </div>
+            </div>
+            {markersOnly && <p className="choropleth-note">{t('mapHeadquartersOnly')}</p>}
+          </div>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+};
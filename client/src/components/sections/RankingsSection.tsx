@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import axios from 'axios';
+import { useNavigate } from 'react-router-dom';
+import { Trophy, ChevronDown, ChevronUp, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { useLanguage } from '../../LanguageContext';
+import { Footer } from '../Footer';
+import { ExportButtons } from '../ExportButtons';
+import { currentMonthYear, recentMonths, toFinYear } from '../../lib/fiscalCalendar';
+import { isOfficialSource, sourceLabelKey } from '../../lib/provenance';
+import { districtLink } from '../../lib/viewParams';
+
+type RankingMetric =
+  | 'performance_score'
+  | 'total_households'
+  | 'total_person_days'
+  | 'total_amount_spent'
+  | 'avg_days_per_household'
+  | 'payment_within_15_days';
+
+interface RankingRow {
+  rank: number | null;
+  district_code: string;
+  district_name: string;
+  value: number | null;
+  percentile: number | null;
+  previous_rank: number | null;
+  rank_change: number | null;
+  data_source: string;
+}
+
+interface RankingsResponse {
+  month_year: string;
+  metric: RankingMetric;
+  state_average: number | null;
+  districts_ranked: number;
+  rankings: RankingRow[];
+}
+
+type SortKey = 'rank' | 'district_name' | 'value' | 'percentile' | 'rank_change';
+
+const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3000';
+
+// Catalogue keys for each metric's label
+const METRIC_LABELS: Record<RankingMetric, string> = {
+  performance_score: 'performanceScore',
+  total_households: 'totalHouseholds',
+  total_person_days: 'totalPersonDays',
+  total_amount_spent: 'totalAmountSpent',
+  avg_days_per_household: 'avgDaysPerHousehold',
+  payment_within_15_days: 'paymentWithin15Days'
+};
+
+// Unranked rows always sort last, whichever direction is chosen
+const compareRows = (a: RankingRow, b: RankingRow, key: SortKey, ascending: boolean) => {
+  const left = a[key];
+  const right = b[key];
+  if (left === null && right === null) return a.district_name.localeCompare(b.district_name);
+  if (left === null) return 1;
+  if (right === null) return -1;
+  const order = typeof left === 'string'
+    ? left.localeCompare(right as string)
+    : (left as number) - (right as number);
+  return ascending ? order : -order;
+};
+
+export const RankingsSection: React.FC = () => {
+  const { t, formatNumber, formatCurrency, formatMonth } = useLanguage();
+  const navigate = useNavigate();
+  const [data, setData] = useState<RankingsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<RankingMetric>('performance_score');
+  const [selectedMonth, setSelectedMonth] = useState<string>(currentMonthYear());
+  const [showMonthSelector, setShowMonthSelector] = useState(false);
+  const [showMetricSelector, setShowMetricSelector] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('rank');
+  const [ascending, setAscending] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    axios.get(`${API_BASE_URL}/api/rankings?month=${selectedMonth}&metric=${metric}`)
+      .then(response => {
+        setData(response.data);
+        setError(null);
+      })
+      .catch(() => setError('failedToLoadRankings'))
+      .finally(() => setLoading(false));
+  }, [selectedMonth, metric]);
+
+  // Close dropdowns when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (!target.closest('.month-selector-container')) {
+        setShowMonthSelector(false);
+        setShowMetricSelector(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const sortedRows = useMemo(
+    () => (data ? [...data.rankings].sort((a, b) => compareRows(a, b, sortKey, ascending)) : []),
+    [data, sortKey, ascending]
+  );
+
+  const generateMonthOptions = () => {
+    // Last 24 months, tagged with the financial year each belongs to
+    return recentMonths(24).map(monthYear => ({
+      value: monthYear,
+      label: formatMonth(monthYear),
+      finYear: toFinYear(monthYear)
+    }));
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      // Rank and name read naturally ascending; values are more useful largest first
+      setAscending(key === 'rank' || key === 'district_name');
+    }
+  };
+
+  const formatMetric = (value: number | null) => {
+    if (value === null) return '—';
+    if (metric === 'total_amount_spent') return formatCurrency(value);
+    if (metric === 'performance_score') return `${Math.round(value)}/100`;
+    if (metric === 'payment_within_15_days') return `${value.toFixed(1)}%`;
+    if (metric === 'avg_days_per_household') return value.toFixed(1);
+    return formatNumber(value);
+  };
+
+  const sortIndicator = (key: SortKey) =>
+    sortKey === key ? (ascending ? <ChevronUp size={14} /> : <ChevronDown size={14} />) : null;
+
+  const renderRankChange = (change: number | null) => {
+    if (change === null) return <span className="rank-change none">—</span>;
+    if (change > 0) return <span className="rank-change up"><ArrowUp size={14} />{change}</span>;
+    if (change < 0) return <span className="rank-change down"><ArrowDown size={14} />{-change}</span>;
+    return <span className="rank-change same"><Minus size={14} /></span>;
+  };
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: 'rank', label: t('rank') },
+    { key: 'district_name', label: t('district') },
+    { key: 'value', label: t(METRIC_LABELS[metric]) },
+    { key: 'percentile', label: t('percentile') },
+    { key: 'rank_change', label: t('change') }
+  ];
+
+  return (
+    <div className="rankings-section page">
+      <div className="container">
+        <div className="section-header text-center">
+          <h1 className="section-title text-xl md:text-2xl lg:text-3xl font-medium text-gray-800 mb-1">
+            <Trophy className="section-icon inline-block mr-3" />
+            {t('rankingsTitle')}
+          </h1>
+        </div>
+
+        <div className="toolbar glass-card mb-2">
+          <div className="comparison-controls flex flex-wrap gap-6 justify-center items-center p-4">
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('selectMonth')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowMonthSelector(!showMonthSelector);
+                    setShowMetricSelector(false);
+                  }}
+                >
+                  {formatMonth(selectedMonth)}
+                  {showMonthSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showMonthSelector && (
+                  <div className="month-dropdown">
+                    {generateMonthOptions().map(option => (
+                      <button
+                        key={option.value}
+                        className={`month-option ${selectedMonth === option.value ? 'selected' : ''}`}
+                        onClick={() => {
+                          setSelectedMonth(option.value);
+                          setShowMonthSelector(false);
+                        }}
+                        title={t('financialYear', { year: option.finYear })}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="control-group flex flex-col items-center">
+              <label className="text-sm font-medium text-gray-700 mb-2">{t('rankingMetric')}</label>
+              <div className="month-selector-container">
+                <button
+                  className="month-selector-btn"
+                  onClick={() => {
+                    setShowMetricSelector(!showMetricSelector);
+                    setShowMonthSelector(false);
+                  }}
+                >
+                  {t(METRIC_LABELS[metric])}
+                  {showMetricSelector ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                {showMetricSelector && (
+                  <div className="month-dropdown">
+                    {(Object.keys(METRIC_LABELS) as RankingMetric[]).map(option => (
+                      <button
+                        key={option}
+                        className={`month-option ${metric === option ? 'selected' : ''}`}
+                        onClick={() => {
+                          setMetric(option);
+                          setShowMetricSelector(false);
+                        }}
+                      >
+                        {t(METRIC_LABELS[option])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {loading && (
+          <div className="loading">
+            <div className="spinner"></div>
+            <p>{t('loadingRankings')}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="error">
+            <p>{t(error)}</p>
+          </div>
+        )}
+
+        <div className="export-buttons-row">
+          <ExportButtons path="/api/export/snapshot" params={{ month: selectedMonth }} label={t('exportAllDistricts')} />
+        </div>
+
+        {data && !loading && (
+          <div className="league-table glass-card">
+            <p className="league-table-summary">
+              {t('districtsRanked', { ranked: data.districts_ranked, total: data.rankings.length })} · {t('stateAverage')}:{' '}
+              <strong>{formatMetric(data.state_average)}</strong>
+            </p>
+            <div className="league-table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    {columns.map(column => (
+                      <th key={column.key} aria-sort={sortKey === column.key ? (ascending ? 'ascending' : 'descending') : 'none'}>
+                        <button onClick={() => handleSort(column.key)}>
+                          {column.label}
+                          {sortIndicator(column.key)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.map(row => (
+                    <tr
+                      key={row.district_code}
+                      className={row.rank === null ? 'unranked' : ''}
+                      onClick={() => navigate(districtLink(row.district_code, selectedMonth))}
+                    >
+                      <td>{row.rank ?? '—'}</td>
+                      <td>
+                        {row.district_name}
+                        {row.rank !== null && !isOfficialSource(row.data_source) && (
+                          <span className="league-table-source" title={t(sourceLabelKey(row.data_source))}>*</span>
+                        )}
+                      </td>
+                      <td>{formatMetric(row.value)}</td>
+                      <td>{row.percentile === null ? '—' : `${Math.round(row.percentile)}`}</td>
+                      <td>{renderRankChange(row.rank_change)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="league-table-note">* {t('notOfficialFigures')}</p>
+          </div>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+};
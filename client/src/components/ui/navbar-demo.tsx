@@ -1,11 +1,16 @@
-import { Home, BarChart3, GitCompare } from 'lucide-react'
+import { Home, BarChart3, GitCompare, Map, Trophy, Users } from 'lucide-react'
 import { NavBar } from "./tubelight-navbar"
+import { useLanguage } from "../../LanguageContext"
 
 export function NavBarDemo() {
+  const { t } = useLanguage()
   const navItems = [
-    { name: 'Home', url: '/', icon: Home },
-    { name: 'Historical Performance', url: '/historical', icon: BarChart3 },
-    { name: 'Compare', url: '/compare', icon: GitCompare }
+    { name: t('navHome'), url: '/', icon: Home },
+    { name: t('navHistorical'), url: '/historical', icon: BarChart3 },
+    { name: t('navCompare'), url: '/compare', icon: GitCompare },
+    { name: t('navMap'), url: '/map', icon: Map },
+    { name: t('navRankings'), url: '/rankings', icon: Trophy },
+    { name: t('navInclusion'), url: '/inclusion', icon: Users }
   ]
 
   return <NavBar items={navItems} />
@@ -2,7 +2,7 @@
 
 import React, { useEffect, useState } from "react"
 import { motion } from "framer-motion"
-import { Link } from "react-router-dom"
+import { Link, useLocation } from "react-router-dom"
 import { LucideIcon } from "lucide-react"
 import { cn } from "../../lib/utils"
 
@@ -20,6 +20,13 @@ interface NavBarProps {
 export function NavBar({ items, className }: NavBarProps) {
   const [activeTab, setActiveTab] = useState(items[0].name)
   const [isMobile, setIsMobile] = useState(false)
+  const location = useLocation()
+
+  // Keep the highlight in step with navigation that doesn't go through the bar
+  useEffect(() => {
+    const current = items.find((item) => item.url === location.pathname)
+    if (current) setActiveTab(current.name)
+  }, [location.pathname, items])
 
   useEffect(() => {
     const handleResize = () => {
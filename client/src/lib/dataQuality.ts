@@ -0,0 +1,34 @@
+// Issues found by the server's ingestion checks (/api/data-quality)
+
+export interface DataQualityIssue {
+  district_code: string;
+  month_year: string;
+  rule: string;
+  metric: string;
+  severity: 'error' | 'warning';
+  value: number | null;
+  expected: number | null;
+  message: string;
+  detected_at: string;
+}
+
+export interface DataQualityResponse {
+  total: number;
+  counts: Record<string, number>;
+  issues: DataQualityIssue[];
+}
+
+// Catalogue keys for the metrics the checks look at
+export const QUALITY_METRIC_LABELS: Record<string, string> = {
+  total_households: 'households',
+  total_person_days: 'personDays',
+  total_amount_spent: 'amountSpent',
+  avg_days_per_household: 'avgDaysPerHousehold',
+  average_wage_rate: 'averageWageRate'
+};
+
+// Catalogue key for an issue; rules the client doesn't know use the server's message
+export const issueMessageKey = (issue: DataQualityIssue) => `dq_${issue.rule}`;
+
+export const issuesForMonth = (issues: DataQualityIssue[], monthYear: string) =>
+  issues.filter(issue => issue.month_year === monthYear);
@@ -0,0 +1,44 @@
+import {
+  toFinYear,
+  toMonthName,
+  fromUpstream,
+  fyStart,
+  fyEnd,
+  addMonths,
+  fyMonthsToDate,
+  recentMonths,
+  isValidMonthYear
+} from './fiscalCalendar';
+
+test('January to March belong to the previous financial year', () => {
+  expect(toFinYear('2025-01')).toBe('2024-2025');
+  expect(toFinYear('2025-03')).toBe('2024-2025');
+  expect(toFinYear('2025-04')).toBe('2025-2026');
+  expect(toFinYear('2024-12')).toBe('2024-2025');
+});
+
+test('round-trips upstream fin_year/month names', () => {
+  ['2024-03', '2024-04', '2024-12', '2025-01'].forEach(monthYear => {
+    expect(fromUpstream(toFinYear(monthYear), toMonthName(monthYear))).toBe(monthYear);
+  });
+});
+
+test('financial year bounds and year-to-date months', () => {
+  expect(fyStart('2024-2025')).toBe('2024-04');
+  expect(fyEnd('2024-2025')).toBe('2025-03');
+  expect(fyMonthsToDate('2025-01')).toEqual([
+    '2024-04', '2024-05', '2024-06', '2024-07', '2024-08', '2024-09',
+    '2024-10', '2024-11', '2024-12', '2025-01'
+  ]);
+});
+
+test('month arithmetic and pickers cross calendar years', () => {
+  expect(addMonths('2024-12', 1)).toBe('2025-01');
+  expect(recentMonths(3, '2025-02')).toEqual(['2025-02', '2025-01', '2024-12']);
+});
+
+test('validates month strings', () => {
+  expect(isValidMonthYear('2025-06')).toBe(true);
+  expect(isValidMonthYear('2025-13')).toBe(false);
+  expect(isValidMonthYear('June')).toBe(false);
+});
@@ -0,0 +1,79 @@
+// Indian financial year calendar (April to March), mirroring lib/fiscalCalendar.js
+// on the server. Months are "YYYY-MM" strings; financial years are "2024-2025".
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const FY_START_MONTH = 4;
+
+export const parseMonthYear = (monthYear: string): { year: number; month: number } => {
+  const match = /^(\d{4})-(\d{2})$/.exec(monthYear || '');
+  const year = match ? parseInt(match[1], 10) : NaN;
+  const month = match ? parseInt(match[2], 10) : NaN;
+  if (!match || month < 1 || month > 12) {
+    throw new Error(`Invalid month: ${monthYear}`);
+  }
+  return { year, month };
+};
+
+export const isValidMonthYear = (monthYear: string): boolean => {
+  try {
+    parseMonthYear(monthYear);
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+const formatMonthYear = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+
+export const toFinYear = (monthYear: string): string => {
+  const { year, month } = parseMonthYear(monthYear);
+  const startYear = month >= FY_START_MONTH ? year : year - 1;
+  return `${startYear}-${startYear + 1}`;
+};
+
+export const toMonthName = (monthYear: string): string => MONTH_NAMES[parseMonthYear(monthYear).month - 1];
+
+const parseFinYear = (finYear: string): number => {
+  const match = /^(\d{4})-(\d{2}|\d{4})$/.exec(finYear || '');
+  if (!match) {
+    throw new Error(`Invalid financial year: ${finYear}`);
+  }
+  return parseInt(match[1], 10);
+};
+
+export const fromUpstream = (finYear: string, monthName: string): string => {
+  const startYear = parseFinYear(finYear);
+  const index = MONTH_NAMES.findIndex(name => name.toLowerCase() === monthName.slice(0, 3).toLowerCase());
+  if (index === -1) {
+    throw new Error(`Invalid month name: ${monthName}`);
+  }
+  const month = index + 1;
+  return formatMonthYear(month >= FY_START_MONTH ? startYear : startYear + 1, month);
+};
+
+export const fyStart = (finYear: string): string => formatMonthYear(parseFinYear(finYear), FY_START_MONTH);
+
+export const fyEnd = (finYear: string): string => formatMonthYear(parseFinYear(finYear) + 1, FY_START_MONTH - 1);
+
+export const addMonths = (monthYear: string, count: number): string => {
+  const { year, month } = parseMonthYear(monthYear);
+  const total = year * 12 + (month - 1) + count;
+  return formatMonthYear(Math.floor(total / 12), (total % 12) + 1);
+};
+
+export const fyMonthsToDate = (monthYear: string): string[] => {
+  const months: string[] = [];
+  let current = fyStart(toFinYear(monthYear));
+  while (current <= monthYear) {
+    months.push(current);
+    current = addMonths(current, 1);
+  }
+  return months;
+};
+
+export const currentMonthYear = (date: Date = new Date()): string =>
+  formatMonthYear(date.getFullYear(), date.getMonth() + 1);
+
+// The last `count` months ending at `from`, newest first (for month pickers)
+export const recentMonths = (count: number, from: string = currentMonthYear()): string[] =>
+  Array.from({ length: count }, (_, i) => addMonths(from, -i));
@@ -0,0 +1,30 @@
+import { MetricForecast, withForecastRows } from './forecast';
+
+const forecast: MetricForecast = {
+  method: 'seasonal',
+  relative_error: 0.1,
+  actual: [],
+  forecast: [
+    { month_year: '2025-07', value: 460000, lower: 450000, upper: 470000 },
+    { month_year: '2025-08', value: 510000, lower: 488000, upper: 532000 }
+  ],
+  fy_to_date: { value: 400000, months_reported: 3, months_elapsed: 3 },
+  fy_projected_total: { value: 510000, lower: 488000, upper: 532000 }
+};
+
+test('projected months follow the actual ones, joined at the last actual month', () => {
+  const rows = withForecastRows([
+    { month_year: '2025-05', total_person_days: 300000 },
+    { month_year: '2025-06', total_person_days: 400000 }
+  ], forecast, 'total_person_days');
+
+  expect(rows.map(row => row.month_year)).toEqual(['2025-05', '2025-06', '2025-07', '2025-08']);
+  expect(rows[0]).toEqual({ month_year: '2025-05', total_person_days: 300000 });
+  expect(rows[1]).toMatchObject({ forecast: 400000, forecast_band: [400000, 400000] });
+  expect(rows[3]).toEqual({ month_year: '2025-08', forecast: 510000, forecast_band: [488000, 532000] });
+});
+
+test('nothing is added once the financial year is over', () => {
+  const rows = [{ month_year: '2026-03', total_person_days: 1 }];
+  expect(withForecastRows(rows, { ...forecast, forecast: [] }, 'total_person_days')).toBe(rows);
+});
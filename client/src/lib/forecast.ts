@@ -0,0 +1,43 @@
+// Shapes of /api/district/:code/forecast and the chart rows built from it
+
+export interface ForecastPoint {
+  month_year: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface MetricForecast {
+  method: 'seasonal' | 'level';
+  relative_error: number;
+  actual: { month_year: string; value: number }[];
+  forecast: ForecastPoint[];
+  fy_to_date: { value: number; months_reported: number; months_elapsed: number };
+  fy_projected_total: { value: number; lower: number; upper: number } | null;
+}
+
+export interface ForecastResponse {
+  district_code: string;
+  month_year: string;
+  financial_year: string;
+  confidence: number;
+  metrics: Record<string, MetricForecast>;
+}
+
+export const FORECAST_METRICS = ['total_person_days', 'total_amount_spent'] as const;
+
+// Monthly chart rows followed by the projected months. The last actual month
+// starts the dashed line so it joins the actual series; `forecast_band` is
+// the [lower, upper] range for a shaded area.
+export const withForecastRows = <T extends { month_year: string }>(rows: T[], forecast: MetricForecast, metric: string) => {
+  if (forecast.forecast.length === 0) return rows;
+  const lastActual = rows.length > 0 ? rows[rows.length - 1] : null;
+  const lastValue = lastActual ? (lastActual as Record<string, any>)[metric] : null;
+  const joined = rows.map(row => (row === lastActual && typeof lastValue === 'number'
+    ? { ...row, forecast: lastValue, forecast_band: [lastValue, lastValue] }
+    : row));
+  return [
+    ...joined,
+    ...forecast.forecast.map(point => ({ month_year: point.month_year, forecast: point.value, forecast_band: [point.lower, point.upper] }))
+  ];
+};
@@ -0,0 +1,14 @@
+import { formatNumber, formatCurrency } from './format';
+
+test('counts use K / L / Cr suffixes', () => {
+  expect(formatNumber(950)).toBe('950');
+  expect(formatNumber(25000)).toBe('25.0 K');
+  expect(formatNumber(420000)).toBe('4.2 L');
+  expect(formatNumber(null)).toBe('0');
+});
+
+test('spend stored in crores is shown in crores or lakhs', () => {
+  expect(formatCurrency(9.36)).toBe('₹9.4 Cr');
+  expect(formatCurrency(0.02)).toBe('₹2.0 L');
+  expect(formatCurrency(250000000)).toBe('₹25.0 Cr');
+});
@@ -0,0 +1,47 @@
+// Compact Indian-style formatting for metric cards (K / L / Cr). The unit
+// words and digit grouping follow the chosen language; see useLanguage().
+
+import { Language, formatDecimal, formatInteger } from './i18n';
+
+export interface NumberLocale {
+  lang: Language;
+  thousand: string;
+  lakh: string;
+  crore: string;
+}
+
+export const DEFAULT_NUMBER_LOCALE: NumberLocale = { lang: 'en', thousand: 'K', lakh: 'L', crore: 'Cr' };
+
+export const formatNumber = (num: number | null | undefined, locale: NumberLocale = DEFAULT_NUMBER_LOCALE) => {
+  if (num === null || num === undefined || isNaN(num)) {
+    return '0';
+  }
+
+  if (num >= 10000000) {
+    return `${formatDecimal(num / 10000000, locale.lang)} ${locale.crore}`;
+  } else if (num >= 100000) {
+    return `${formatDecimal(num / 100000, locale.lang)} ${locale.lakh}`;
+  } else if (num >= 1000) {
+    return `${formatDecimal(num / 1000, locale.lang)} ${locale.thousand}`;
+  }
+  return Number.isInteger(num) ? formatInteger(num, locale.lang) : formatDecimal(num, locale.lang);
+};
+
+export const formatCurrency = (amount: number | null | undefined, locale: NumberLocale = DEFAULT_NUMBER_LOCALE) => {
+  if (amount === null || amount === undefined || isNaN(amount)) {
+    return '₹0';
+  }
+
+  // Handle amounts that are already in crores (from real API data)
+  if (amount < 1000000 && amount >= 1) {
+    return `₹${formatDecimal(amount, locale.lang)} ${locale.crore}`;
+  }
+
+  // Fractions of a crore (mandal and panchayat spend)
+  if (amount > 0 && amount < 1) {
+    return `₹${formatDecimal(amount * 100, locale.lang)} ${locale.lakh}`;
+  }
+
+  // Handle amounts in full format (from mock data)
+  return '₹' + formatNumber(amount, locale);
+};
@@ -0,0 +1,38 @@
+import { projectBoundaries, choroplethBuckets, colorFor, CHOROPLETH_COLORS, BoundaryCollection } from './geo';
+
+const square: BoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [{
+    type: 'Feature',
+    properties: { district_code: 'AP001', district_name: 'Test' },
+    geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] }
+  }]
+};
+
+test('projects boundaries into an SVG path of the requested width', () => {
+  const { shapes, width, height } = projectBoundaries(square, 100);
+  expect(width).toBe(100);
+  expect(height).toBe(100);
+  expect(shapes[0].code).toBe('AP001');
+  expect(shapes[0].path).toBe('M0.0,100.0L100.0,100.0L100.0,0.0L0.0,0.0L0.0,100.0Z');
+});
+
+test('headquarters points become circles inside the map', () => {
+  const { shapes, width, height } = projectBoundaries({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: { district_code: 'AP001', district_name: 'West' }, geometry: { type: 'Point', coordinates: [0, 0] } },
+      { type: 'Feature', properties: { district_code: 'AP002', district_name: 'East' }, geometry: { type: 'Point', coordinates: [1, 1] } }
+    ]
+  }, 100);
+  expect([width, height]).toEqual([100, 100]);
+  expect(shapes.map(shape => shape.marker)).toEqual([true, true]);
+  expect(shapes[0].path).toBe('M0.0,86.0a14,14 0 1,0 28,0a14,14 0 1,0 -28,0Z');
+});
+
+test('values map to light-to-dark buckets', () => {
+  const buckets = choroplethBuckets([0, 50, 100]);
+  expect(colorFor(0, buckets)).toBe(CHOROPLETH_COLORS[0]);
+  expect(colorFor(100, buckets)).toBe(CHOROPLETH_COLORS[CHOROPLETH_COLORS.length - 1]);
+  expect(colorFor(null, buckets)).toBeNull();
+});
@@ -0,0 +1,94 @@
+// Minimal GeoJSON → SVG rendering for the district map; no tile server needed
+
+type Position = number[];
+
+export interface BoundaryFeature {
+  type: 'Feature';
+  properties: { district_code: string; district_name: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: Position[][] }
+    | { type: 'MultiPolygon'; coordinates: Position[][][] }
+    // The district headquarters, sent when no boundaries are configured
+    | { type: 'Point'; coordinates: Position };
+}
+
+export interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+export interface DistrictShape {
+  code: string;
+  name: string;
+  path: string;
+  marker: boolean;
+}
+
+// Radius of a headquarters marker, in the same units as `width`
+export const MARKER_RADIUS = 14;
+
+const polygonsOf = (feature: BoundaryFeature): Position[][][] => {
+  if (feature.geometry.type === 'Point') return [[[feature.geometry.coordinates]]];
+  return feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+};
+
+// Equirectangular projection scaled to `width`, with longitude shrunk by
+// cos(latitude) so the state keeps its shape. Points are drawn as circles,
+// with a margin so those at the edge aren't cut off.
+export const projectBoundaries = (collection: BoundaryCollection, width: number) => {
+  const hasMarkers = collection.features.some(feature => feature.geometry.type === 'Point');
+  const margin = hasMarkers ? MARKER_RADIUS : 0;
+  const points = collection.features.flatMap(feature => polygonsOf(feature).flat(2));
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+
+  const kx = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const scale = (width - 2 * margin) / ((maxLng - minLng) * kx || 1);
+  const height = Math.round((maxLat - minLat) * scale) + 2 * margin;
+
+  const x = (lng: number) => margin + (lng - minLng) * kx * scale;
+  const y = (lat: number) => margin + (maxLat - lat) * scale;
+  const project = ([lng, lat]: Position) => `${x(lng).toFixed(1)},${y(lat).toFixed(1)}`;
+  const circle = ([lng, lat]: Position) =>
+    `M${(x(lng) - MARKER_RADIUS).toFixed(1)},${y(lat).toFixed(1)}` +
+    `a${MARKER_RADIUS},${MARKER_RADIUS} 0 1,0 ${2 * MARKER_RADIUS},0a${MARKER_RADIUS},${MARKER_RADIUS} 0 1,0 ${-2 * MARKER_RADIUS},0Z`;
+
+  const shapes: DistrictShape[] = collection.features.map(feature => ({
+    code: feature.properties.district_code,
+    name: feature.properties.district_name,
+    path: feature.geometry.type === 'Point'
+      ? circle(feature.geometry.coordinates)
+      : polygonsOf(feature)
+        .flatMap(rings => rings.map(ring => `M${ring.map(project).join('L')}Z`))
+        .join(''),
+    marker: feature.geometry.type === 'Point'
+  }));
+
+  return { shapes, width, height };
+};
+
+// Light-to-dark shades; index 0 is the lowest bucket
+export const CHOROPLETH_COLORS = ['#e0f2f1', '#a7d8d0', '#5fb8a8', '#2a8c7d', '#0f5e53'];
+
+// Equal-interval buckets between the smallest and largest value
+export const choroplethBuckets = (values: number[], buckets = CHOROPLETH_COLORS.length) => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = (max - min) / buckets;
+  return Array.from({ length: buckets }, (_, i) => ({
+    from: min + step * i,
+    to: i === buckets - 1 ? max : min + step * (i + 1),
+    color: CHOROPLETH_COLORS[i]
+  }));
+};
+
+export const colorFor = (value: number | null | undefined, buckets: ReturnType<typeof choroplethBuckets>) => {
+  if (value === null || value === undefined || buckets.length === 0) return null;
+  const bucket = buckets.find(b => value <= b.to) || buckets[buckets.length - 1];
+  return bucket.color;
+};
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import '../locales';
+import en from '../locales/en.json';
+import te from '../locales/te.json';
+import {
+  formatInteger,
+  formatMessage,
+  formatMonth,
+  isLanguage,
+  loadCatalogue,
+  localePacks,
+  messageArguments,
+  registerLocalePack
+} from './i18n';
+import { formatCurrency, formatNumber } from './format';
+
+const languages = localePacks().map(pack => pack.code);
+
+// Every t('key') literal in the app, plus error keys that are rendered through t()
+const usedKeys = (dir: string): string[] => fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+  const file = path.join(dir, entry.name);
+  if (entry.isDirectory()) return usedKeys(file);
+  if (!/\.tsx?$/.test(entry.name) || /\.test\.tsx?$/.test(entry.name)) return [];
+  return Array.from(fs.readFileSync(file, 'utf8').matchAll(/\b(?:t|setError)\('(\w+)'/g), match => match[1]);
+});
+
+test('built-in packs are registered, with Urdu right to left', () => {
+  expect(languages).toEqual(['en', 'te', 'hi', 'ur']);
+  expect(localePacks().filter(pack => pack.dir === 'rtl').map(pack => pack.code)).toEqual(['ur']);
+});
+
+test.each(languages)('%s catalogue has every key and no extras', async lang => {
+  const keys = Object.keys(await loadCatalogue(lang));
+  expect(Object.keys(en).filter(key => !keys.includes(key))).toEqual([]);
+  expect(keys.filter(key => !(key in en))).toEqual([]);
+});
+
+test.each(languages)('%s messages parse and take the same arguments as English', async lang => {
+  Object.entries(await loadCatalogue(lang)).forEach(([key, message]) => {
+    expect(() => formatMessage(message, { count: 2 }, lang)).not.toThrow();
+    expect([key, messageArguments(message)]).toEqual([key, messageArguments(en[key as keyof typeof en])]);
+  });
+});
+
+test('every key used in the app is in the catalogues', () => {
+  const missing = Array.from(new Set(usedKeys(path.join(__dirname, '..')))).filter(key => !(key in en));
+  expect(missing).toEqual([]);
+});
+
+test('plural messages pick a branch by count', () => {
+  const message = '{count, plural, =0 {No districts} one {# district} other {# districts}} of {max}';
+  expect(formatMessage(message, { count: 0, max: 6 })).toBe('No districts of 6');
+  expect(formatMessage(message, { count: 1, max: 6 })).toBe('1 district of 6');
+  expect(formatMessage(message, { count: 4, max: 6 })).toBe('4 districts of 6');
+  expect(formatMessage(te.mockMonths, { count: 1 }, 'te')).toBe('నమూనా లేదా ధృవీకరించని డేటా (1 నెల)');
+  expect(formatMessage(te.mockMonths, { count: 3 }, 'te')).toBe('నమూనా లేదా ధృవీకరించని డేటా (3 నెలలు)');
+});
+
+test('figures use Indian digit grouping and the language\'s unit words', () => {
+  expect(formatInteger(1234567)).toBe('12,34,567');
+  expect(formatInteger(1234567, 'te')).toBe('12,34,567');
+
+  const telugu = { lang: 'te' as const, thousand: te.unitThousand, lakh: te.unitLakh, crore: te.unitCrore };
+  expect(formatNumber(420000, telugu)).toBe('4.2 లక్షలు');
+  expect(formatCurrency(9.36, telugu)).toBe('₹9.4 కోట్లు');
+});
+
+test('month names come from the catalogue', () => {
+  expect(formatMonth('2025-06', en)).toBe('June 2025');
+  expect(formatMonth('2025-06', te)).toBe('జూన్ 2025');
+  expect(formatMonth('2025-01', te, 'short')).toBe('జన 2025');
+  expect(formatMonth('not-a-month', te)).toBe('not-a-month');
+});
+
+test('packs can be registered at runtime and load once', async () => {
+  const load = jest.fn(() => Promise.resolve({ ...en, title: 'Tracker' }));
+  registerLocalePack({ code: 'xx', name: 'Test', dir: 'ltr', load });
+  expect(isLanguage('xx')).toBe(true);
+  await loadCatalogue('xx');
+  expect((await loadCatalogue('xx')).title).toBe('Tracker');
+  expect(load).toHaveBeenCalledTimes(1);
+  await expect(loadCatalogue('zz')).rejects.toThrow('No locale pack registered for "zz"');
+});
@@ -0,0 +1,161 @@
+// Message catalogues live in src/locales/<lang>.json and are registered as
+// locale packs (src/locales/index.ts) that load on first use. Messages use the
+// parts of ICU MessageFormat the catalogues need: {name} arguments and
+// {count, plural, =0 {...} one {...} other {...}} with # standing for the count.
+
+// A registered pack's language code, e.g. 'te'
+export type Language = string;
+export type Catalogue = Record<string, string>;
+export type MessageValues = Record<string, string | number>;
+
+export interface LocalePack {
+  code: Language;
+  // Shown in the language picker, written in the language itself
+  name: string;
+  dir: 'ltr' | 'rtl';
+  load: () => Promise<Catalogue>;
+}
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+export const LANGUAGE_STORAGE_KEY = 'mgnrega.language';
+
+const packs = new Map<Language, LocalePack>();
+const loadedCatalogues = new Map<Language, Promise<Catalogue>>();
+
+export const registerLocalePack = (pack: LocalePack) => {
+  packs.set(pack.code, pack);
+  loadedCatalogues.delete(pack.code);
+};
+
+// In registration order, which is the order of the language picker
+export const localePacks = (): LocalePack[] => Array.from(packs.values());
+
+export const getLocalePack = (code: Language): LocalePack | undefined => packs.get(code);
+
+export const isLanguage = (value: unknown): value is Language => typeof value === 'string' && packs.has(value);
+
+// Loads a pack's catalogue once; a failed load is retried on the next call
+export const loadCatalogue = (code: Language): Promise<Catalogue> => {
+  const pack = packs.get(code);
+  if (!pack) {
+    return Promise.reject(new Error(`No locale pack registered for "${code}"`));
+  }
+  if (!loadedCatalogues.has(code)) {
+    loadedCatalogues.set(code, pack.load().catch(err => {
+      loadedCatalogues.delete(code);
+      throw err;
+    }));
+  }
+  return loadedCatalogues.get(code)!;
+};
+
+// Indian locales group digits in lakhs and crores (12,34,567)
+const intlLocale = (lang: Language) => `${lang}-IN`;
+
+export const formatInteger = (value: number, lang: Language = DEFAULT_LANGUAGE): string =>
+  new Intl.NumberFormat(intlLocale(lang), { maximumFractionDigits: 0 }).format(value);
+
+export const formatDecimal = (value: number, lang: Language = DEFAULT_LANGUAGE, digits: number = 1): string =>
+  new Intl.NumberFormat(intlLocale(lang), { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+export const formatDateTime = (value: string | Date, lang: Language = DEFAULT_LANGUAGE): string =>
+  new Intl.DateTimeFormat(intlLocale(lang), {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  }).format(new Date(value));
+
+// "2025-06" → "June 2025" / "జూన్ 2025"; month names come from the catalogue
+export const formatMonth = (monthYear: string, catalogue: Catalogue, style: 'long' | 'short' = 'long'): string => {
+  const match = /^(\d{4})-(\d{2})$/.exec(monthYear || '');
+  if (!match) return monthYear;
+  const name = catalogue[`${style === 'long' ? 'month' : 'monthShort'}_${match[2]}`];
+  return name ? `${name} ${match[1]}` : monthYear;
+};
+
+const matchingBrace = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message: ${text}`);
+};
+
+// "=0 {none} one {# item} other {# items}" → { '=0': 'none', one: '# item', other: '# items' }
+const pluralBranches = (options: string): Record<string, string> => {
+  const branches: Record<string, string> = {};
+  let position = 0;
+  let open = options.indexOf('{', position);
+  while (open !== -1) {
+    const close = matchingBrace(options, open);
+    branches[options.slice(position, open).trim()] = options.slice(open + 1, close);
+    position = close + 1;
+    open = options.indexOf('{', position);
+  }
+  if (!branches.other) {
+    throw new Error(`Plural message needs an "other" branch: ${options}`);
+  }
+  return branches;
+};
+
+const formatArgument = (argument: string, values: MessageValues, lang: Language): string => {
+  const match = /^\s*(\w+)\s*(?:,\s*plural\s*,([\s\S]*))?$/.exec(argument);
+  if (!match) {
+    throw new Error(`Unsupported message argument: {${argument}}`);
+  }
+  const [, name, options] = match;
+  const value = values[name];
+  if (options === undefined) {
+    return value === undefined ? `{${name}}` : String(value);
+  }
+
+  const branches = pluralBranches(options);
+  const count = Number(value);
+  const branch = branches[`=${count}`] ?? branches[new Intl.PluralRules(intlLocale(lang)).select(count)] ?? branches.other;
+  return formatMessage(branch.replace(/#/g, formatInteger(count, lang)), values, lang);
+};
+
+export const formatMessage = (message: string, values: MessageValues = {}, lang: Language = DEFAULT_LANGUAGE): string => {
+  let result = '';
+  let position = 0;
+  let open = message.indexOf('{', position);
+  while (open !== -1) {
+    const close = matchingBrace(message, open);
+    result += message.slice(position, open) + formatArgument(message.slice(open + 1, close), values, lang);
+    position = close + 1;
+    open = message.indexOf('{', position);
+  }
+  return result + message.slice(position);
+};
+
+// Argument names a message expects, e.g. ['count', 'max'], for catalogue checks
+export const messageArguments = (message: string): string[] => {
+  const names = new Set<string>();
+  const pattern = /\{\s*(\w+)\s*[,}]/g;
+  let match = pattern.exec(message);
+  while (match) {
+    names.add(match[1]);
+    match = pattern.exec(message);
+  }
+  return Array.from(names).sort();
+};
+
+export const loadLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+  } catch (err) {
+    return DEFAULT_LANGUAGE;
+  }
+};
+
+export const saveLanguage = (lang: Language) => {
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
+  } catch (err) {
+    // Private browsing or storage disabled: the choice lasts for this visit only
+  }
+};
@@ -0,0 +1,27 @@
+import { InclusionPoint, inclusionChartRows } from './inclusion';
+
+const point = (monthYear: string, women: number | null): InclusionPoint => ({
+  month_year: monthYear,
+  groups: {
+    women: { share: women, norm: 33.33, below_norm: women !== null && women < 33.33 },
+    sc: { share: 18, norm: 17.08, below_norm: false },
+    st: { share: 6, norm: 5.53, below_norm: false },
+    differently_abled: { share: null, norm: 5, below_norm: false }
+  },
+  below_norm: women !== null && women < 33.33 ? ['women'] : []
+});
+
+test('chart rows pair the state share with the chosen district', () => {
+  const state = [point('2025-05', 41.2), point('2025-06', 39.8)];
+  expect(inclusionChartRows(state, 'women', [point('2025-06', 30.5)])).toEqual([
+    { month_year: '2025-05', state: 41.2, district: null },
+    { month_year: '2025-06', state: 39.8, district: 30.5 }
+  ]);
+  expect(inclusionChartRows(state, 'sc').map(row => row.state)).toEqual([18, 18]);
+});
+
+test('months without figures stay empty', () => {
+  expect(inclusionChartRows([point('2025-06', null)], 'differently_abled')).toEqual([
+    { month_year: '2025-06', state: null, district: null }
+  ]);
+});
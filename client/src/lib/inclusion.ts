@@ -0,0 +1,62 @@
+// Shapes of /api/inclusion and the chart rows built from it
+
+export const INCLUSION_GROUPS = ['women', 'sc', 'st', 'differently_abled'] as const;
+export type InclusionGroup = typeof INCLUSION_GROUPS[number];
+
+// Catalogue keys for each group's label
+export const GROUP_LABELS: Record<InclusionGroup, string> = {
+  women: 'groupWomen',
+  sc: 'groupSc',
+  st: 'groupSt',
+  differently_abled: 'groupDifferentlyAbled'
+};
+
+export interface GroupShare {
+  share: number | null;
+  norm: number;
+  below_norm: boolean;
+}
+
+export interface GroupNorm {
+  numerator: string;
+  denominator: string;
+  norm: number;
+  basis: string;
+}
+
+export interface InclusionPoint {
+  month_year: string;
+  data_source?: string;
+  districts_reporting?: number;
+  groups: Record<InclusionGroup, GroupShare>;
+  below_norm: InclusionGroup[];
+}
+
+export interface InclusionDistrict {
+  district_code: string;
+  district_name: string;
+  data_source: string;
+  groups: Record<InclusionGroup, GroupShare>;
+  below_norm: InclusionGroup[];
+}
+
+export interface InclusionResponse {
+  scope: 'state' | 'district';
+  district_code?: string;
+  month_year: string;
+  norms: Record<InclusionGroup, GroupNorm>;
+  series: InclusionPoint[];
+  districts?: InclusionDistrict[];
+  districts_flagged?: number;
+}
+
+// One row per month with the statewide share and, when a district is
+// chosen, the district's share for the same month
+export const inclusionChartRows = (state: InclusionPoint[], group: InclusionGroup, district: InclusionPoint[] = []) => {
+  const districtShares = new Map(district.map(point => [point.month_year, point.groups[group]?.share ?? null]));
+  return state.map(point => ({
+    month_year: point.month_year,
+    state: point.groups[group]?.share ?? null,
+    district: districtShares.get(point.month_year) ?? null
+  }));
+};
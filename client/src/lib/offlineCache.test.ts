@@ -0,0 +1,77 @@
+import axios from 'axios';
+import {
+  cachedGet,
+  flushRefreshQueue,
+  getOfflineState,
+  resetOfflineCache,
+  startOfflineSync,
+  subscribeRefresh
+} from './offlineCache';
+
+jest.mock('axios', () => ({ __esModule: true, default: { get: jest.fn() } }));
+
+const mockGet = axios.get as jest.Mock;
+const URL = '/api/district/AP001/performance?month=2025-06';
+const networkError = () => Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK' });
+
+beforeEach(() => {
+  mockGet.mockReset();
+  resetOfflineCache();
+});
+
+test('returns the saved response with its date when the network is down', async () => {
+  mockGet.mockResolvedValueOnce({ data: { total_households: 100 } });
+  const live = await cachedGet(URL);
+  expect(live.fromCache).toBe(false);
+
+  mockGet.mockRejectedValueOnce(networkError());
+  const offline = await cachedGet(URL);
+  expect(offline).toEqual({ data: { total_households: 100 }, fromCache: true, cachedAt: live.cachedAt });
+  expect(getOfflineState()).toMatchObject({ online: false, dataAsOf: live.cachedAt, pendingRefreshes: 1 });
+});
+
+test('rethrows when nothing is saved or the server answered with an error', async () => {
+  mockGet.mockRejectedValueOnce(networkError());
+  await expect(cachedGet(URL)).rejects.toThrow('Network Error');
+
+  mockGet.mockResolvedValueOnce({ data: { total_households: 100 } });
+  await cachedGet(URL);
+  mockGet.mockRejectedValueOnce(Object.assign(new Error('Not found'), { response: { status: 404 } }));
+  await expect(cachedGet(URL)).rejects.toThrow('Not found');
+});
+
+test('queued requests refresh once connectivity returns', async () => {
+  const stop = startOfflineSync();
+  const refreshed = jest.fn();
+  const unsubscribe = subscribeRefresh(refreshed);
+
+  mockGet.mockResolvedValueOnce({ data: { total_households: 100 } });
+  await cachedGet(URL);
+  mockGet.mockRejectedValueOnce(networkError());
+  await cachedGet(URL);
+
+  mockGet.mockResolvedValueOnce({ data: { total_households: 150 } });
+  window.dispatchEvent(new Event('online'));
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  expect(refreshed).toHaveBeenCalledWith([URL]);
+  expect(getOfflineState()).toMatchObject({ online: true, dataAsOf: null, pendingRefreshes: 0 });
+
+  // The refreshed copy is what a later offline read returns
+  mockGet.mockRejectedValueOnce(networkError());
+  expect((await cachedGet(URL)).data).toEqual({ total_households: 150 });
+
+  unsubscribe();
+  stop();
+});
+
+test('requests that still fail stay queued', async () => {
+  mockGet.mockResolvedValueOnce({ data: {} });
+  await cachedGet(URL);
+  mockGet.mockRejectedValueOnce(networkError());
+  await cachedGet(URL);
+
+  mockGet.mockRejectedValueOnce(networkError());
+  expect(await flushRefreshQueue()).toEqual([]);
+  expect(getOfflineState().pendingRefreshes).toBe(1);
+});
@@ -0,0 +1,174 @@
+import axios from 'axios';
+
+// Last-seen API responses kept in localStorage so dashboards still open
+// without connectivity. The service worker caches only the app shell; API
+// data lives here because only the app knows when it is showing stale numbers.
+
+const RESPONSES_KEY = 'mgnrega.offline.responses';
+const QUEUE_KEY = 'mgnrega.offline.refreshQueue';
+const MAX_ENTRIES = 30;
+
+interface CachedEntry {
+  data: unknown;
+  cachedAt: string;
+}
+
+export interface OfflineState {
+  online: boolean;
+  // When set, the screen is showing cached data saved at this time
+  dataAsOf: string | null;
+  pendingRefreshes: number;
+}
+
+export interface CachedResponse<T> {
+  data: T;
+  fromCache: boolean;
+  cachedAt: string;
+}
+
+type StateListener = (state: OfflineState) => void;
+type RefreshListener = (urls: string[]) => void;
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Storage full or disabled; offline support degrades to network-only
+  }
+};
+
+const readEntries = () => readJson<Record<string, CachedEntry>>(RESPONSES_KEY, {});
+const readQueue = () => readJson<string[]>(QUEUE_KEY, []);
+
+const writeEntry = (url: string, data: unknown, cachedAt: string) => {
+  const entries = { ...readEntries(), [url]: { data, cachedAt } };
+  // Keep only the most recently saved responses
+  const kept = Object.entries(entries)
+    .sort(([, a], [, b]) => b.cachedAt.localeCompare(a.cachedAt))
+    .slice(0, MAX_ENTRIES);
+  writeJson(RESPONSES_KEY, Object.fromEntries(kept));
+};
+
+let state: OfflineState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  dataAsOf: null,
+  pendingRefreshes: readQueue().length
+};
+const stateListeners = new Set<StateListener>();
+const refreshListeners = new Set<RefreshListener>();
+
+const setState = (changes: Partial<OfflineState>) => {
+  state = { ...state, ...changes };
+  stateListeners.forEach(listener => listener(state));
+};
+
+const enqueue = (url: string) => {
+  const queue = readQueue();
+  if (!queue.includes(url)) {
+    writeJson(QUEUE_KEY, [...queue, url]);
+  }
+  setState({ pendingRefreshes: readQueue().length });
+};
+
+// An error with a response means the server answered; only network failures fall back
+const isNetworkError = (error: unknown) =>
+  !(typeof error === 'object' && error !== null && 'response' in error && (error as { response?: unknown }).response);
+
+export const getOfflineState = () => state;
+
+export const subscribeOfflineState = (listener: StateListener) => {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+};
+
+// Called with the refreshed URLs once queued requests succeed after reconnecting
+export const subscribeRefresh = (listener: RefreshListener) => {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+};
+
+// GET that saves successful responses and falls back to the saved copy when
+// the network is unreachable, queueing the URL to refresh later
+export const cachedGet = async <T,>(url: string): Promise<CachedResponse<T>> => {
+  try {
+    const response = await axios.get<T>(url);
+    const cachedAt = new Date().toISOString();
+    writeEntry(url, response.data, cachedAt);
+    if (!state.online || state.dataAsOf) {
+      setState({ online: true, dataAsOf: null });
+    }
+    return { data: response.data, fromCache: false, cachedAt };
+  } catch (error) {
+    const entry = readEntries()[url];
+    if (!isNetworkError(error) || !entry) {
+      throw error;
+    }
+    enqueue(url);
+    setState({ online: false, dataAsOf: entry.cachedAt });
+    return { data: entry.data as T, fromCache: true, cachedAt: entry.cachedAt };
+  }
+};
+
+// Replays queued requests; URLs that still fail stay queued
+export const flushRefreshQueue = async () => {
+  const queue = readQueue();
+  if (queue.length === 0) return [];
+
+  const refreshed: string[] = [];
+  for (const url of queue) {
+    try {
+      const response = await axios.get(url);
+      writeEntry(url, response.data, new Date().toISOString());
+      refreshed.push(url);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      // The server rejected it; retrying will not help
+      refreshed.push(url);
+    }
+  }
+
+  const remaining = readQueue().filter(url => !refreshed.includes(url));
+  writeJson(QUEUE_KEY, remaining);
+  setState({ pendingRefreshes: remaining.length, ...(remaining.length === 0 ? { dataAsOf: null } : {}) });
+
+  if (refreshed.length > 0) {
+    refreshListeners.forEach(listener => listener(refreshed));
+  }
+  return refreshed;
+};
+
+// Tracks connectivity and flushes the queue when it returns
+export const startOfflineSync = () => {
+  const handleOnline = () => {
+    setState({ online: true });
+    flushRefreshQueue();
+  };
+  const handleOffline = () => setState({ online: false });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
+
+// For tests
+export const resetOfflineCache = () => {
+  window.localStorage.removeItem(RESPONSES_KEY);
+  window.localStorage.removeItem(QUEUE_KEY);
+  state = { online: true, dataAsOf: null, pendingRefreshes: 0 };
+};
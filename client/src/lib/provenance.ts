@@ -0,0 +1,21 @@
+// Provenance attached by the server to every performance record
+
+export interface Provenance {
+  source: string;
+  fetched_at: string | null;
+  record_id: string | null;
+}
+
+export const OFFICIAL_SOURCE = 'data.gov.in';
+
+export const isOfficialSource = (source?: string | null) => source === OFFICIAL_SOURCE;
+
+export const isMissingSource = (source?: string | null) => source === 'missing';
+
+// Catalogue key describing a source, for t()
+export const sourceLabelKey = (source?: string | null) => {
+  if (isOfficialSource(source)) return 'sourceOfficial';
+  if (isMissingSource(source)) return 'sourceMissing';
+  if (source === 'legacy') return 'sourceLegacy';
+  return 'sourceMock';
+};
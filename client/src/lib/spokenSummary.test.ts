@@ -0,0 +1,51 @@
+import en from '../locales/en.json';
+import te from '../locales/te.json';
+import { Catalogue, Language, formatMessage, formatMonth } from './i18n';
+import { SpokenLocale, spokenNumber, spokenSummary } from './spokenSummary';
+
+const localeFor = (catalogue: Catalogue, lang: Language): SpokenLocale => ({
+  lang,
+  t: (key, values) => formatMessage(catalogue[key], values, lang),
+  formatMonth: monthYear => formatMonth(monthYear, catalogue)
+});
+
+const english = localeFor(en, 'en');
+const telugu = localeFor(te, 'te');
+
+const guntur = {
+  district_name: 'Guntur',
+  month_year: '2025-06',
+  total_households: 230400,
+  total_amount_spent: 45.1,
+  avg_days_per_household: 21.7,
+  performance_score: 78.4,
+  provenance: { source: 'data.gov.in' }
+};
+
+test('figures are read as lakhs and thousands, not abbreviations', () => {
+  expect(spokenNumber(230400, english)).toBe('2 lakh 30 thousand');
+  expect(spokenNumber(451000000, english)).toBe('45 crore 10 lakh');
+  expect(spokenNumber(12000, english)).toBe('12 thousand');
+  expect(spokenNumber(640, english)).toBe('640');
+  expect(spokenNumber(230400, telugu)).toBe('2 లక్షల 30 వేల');
+});
+
+test('English summary', () => {
+  expect(spokenSummary(guntur, english)).toBe(
+    'In Guntur in June 2025, 2 lakh 30 thousand families got work, on average 22 days each. ' +
+    '45 crore 10 lakh rupees was spent. The district scores 78 out of 100.'
+  );
+});
+
+test('Telugu summary', () => {
+  expect(spokenSummary(guntur, telugu)).toBe(
+    'జూన్ 2025లో Guntur జిల్లాలో 2 లక్షల 30 వేల కుటుంబాలకు పని దొరికింది, ఒక్కో కుటుంబానికి సగటున 22 రోజులు. ' +
+    '45 కోట్ల 10 లక్షల రూపాయలు ఖర్చు చేశారు. జిల్లా స్కోరు 100కి 78.'
+  );
+});
+
+test('mock data is flagged and an empty month says so', () => {
+  expect(spokenSummary({ ...guntur, avg_days_per_household: 1, provenance: { source: 'mock' } }, english))
+    .toContain('on average 1 day each. 45 crore 10 lakh rupees was spent. The district scores 78 out of 100. These are not official government figures.');
+  expect(spokenSummary({ ...guntur, total_households: 0 }, english)).toBe('In Guntur in June 2025, no families got work.');
+});
@@ -0,0 +1,84 @@
+// Plain-language summary of a district's month, written to be read aloud:
+// "In Guntur in June 2025, 2 lakh 30 thousand families got work, on average
+// 22 days each." Kept apart from the speech API so it can be tested alone.
+
+import { Language, MessageValues, formatInteger } from './i18n';
+import { isOfficialSource } from './provenance';
+
+export interface SummaryData {
+  district_name: string;
+  month_year: string;
+  total_households: number | null;
+  total_amount_spent: number | null;
+  avg_days_per_household: number | null;
+  performance_score?: number;
+  provenance?: { source: string };
+}
+
+// The parts of useLanguage() the summary needs
+export interface SpokenLocale {
+  lang: Language;
+  t: (key: string, values?: MessageValues) => string;
+  formatMonth: (monthYear: string) => string;
+}
+
+const CRORE = 10000000;
+const LAKH = 100000;
+const THOUSAND = 1000;
+
+// 230000 → "2 lakh 30 thousand". Rounded to the nearest thousand, since
+// listeners need the size of a figure rather than every digit.
+export const spokenNumber = (value: number, { lang, t }: SpokenLocale): string => {
+  if (Math.abs(value) < THOUSAND) {
+    return formatInteger(value, lang);
+  }
+
+  let remaining = Math.round(value / THOUSAND) * THOUSAND;
+  const parts: string[] = [];
+  [
+    { size: CRORE, word: t('spokenCrore') },
+    { size: LAKH, word: t('spokenLakh') },
+    { size: THOUSAND, word: t('spokenThousand') }
+  ].forEach(({ size, word }) => {
+    const count = Math.floor(remaining / size);
+    if (count > 0) {
+      parts.push(`${formatInteger(count, lang)} ${word}`);
+      remaining -= count * size;
+    }
+  });
+  return parts.join(' ');
+};
+
+// The API reports spend in crores for official and mock records alike
+export const amountInRupees = (amount: number): number => amount * CRORE;
+
+export const spokenSummary = (data: SummaryData, locale: SpokenLocale): string => {
+  const { t } = locale;
+  const district = data.district_name;
+  const month = locale.formatMonth(data.month_year);
+
+  if (!data.total_households) {
+    return t('listenNoWork', { district, month });
+  }
+
+  const sentences = [
+    t('listenWork', {
+      district,
+      month,
+      households: spokenNumber(data.total_households, locale),
+      days: Math.round(data.avg_days_per_household ?? 0)
+    })
+  ];
+
+  if (data.total_amount_spent) {
+    sentences.push(t('listenSpent', { amount: spokenNumber(amountInRupees(data.total_amount_spent), locale) }));
+  }
+  if (data.performance_score !== undefined && data.performance_score !== null) {
+    sentences.push(t('listenScore', { score: Math.round(data.performance_score) }));
+  }
+  if (data.provenance && !isOfficialSource(data.provenance.source)) {
+    sentences.push(t('listenUnofficial'));
+  }
+
+  return sentences.join(' ');
+};
@@ -0,0 +1,14 @@
+import { gaugeDash, gaugeFraction } from './targets';
+
+test('gauges fill in proportion and stop at full', () => {
+  expect(gaugeFraction(45)).toBe(0.45);
+  expect(gaugeFraction(130)).toBe(1);
+  expect(gaugeFraction(-5)).toBe(0);
+  expect(gaugeFraction(null)).toBe(0);
+});
+
+test('the dash covers the filled share of the half circle', () => {
+  const [filled, total] = gaugeDash(0.5, 40).split(' ').map(Number);
+  expect(total).toBeCloseTo(Math.PI * 40);
+  expect(filled).toBeCloseTo(total / 2);
+});
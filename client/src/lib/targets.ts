@@ -0,0 +1,42 @@
+// Shapes of /api/district/:code/targets and the gauge geometry that draws them
+
+export interface TargetCurvePoint {
+  month_year: string;
+  target_cumulative: number | null;
+  actual_cumulative: number | null;
+}
+
+export interface TargetAchievement {
+  district_code: string;
+  month_year: string;
+  financial_year: string;
+  months_reported: number;
+  target: {
+    person_days: number;
+    households: number | null;
+    phased: boolean;
+    source: string | null;
+    uploaded_at: string;
+  } | null;
+  person_days: {
+    actual_to_date: number | null;
+    achievement_pct: number | null;
+    expected_to_date: number | null;
+    pace_pct: number | null;
+  };
+  households: {
+    reached: number | null;
+    coverage_pct: number | null;
+  };
+  curve: TargetCurvePoint[];
+}
+
+// Share of the gauge's half circle to fill; past 100% the gauge stays full
+export const gaugeFraction = (percent: number | null) =>
+  percent === null || !Number.isFinite(percent) ? 0 : Math.min(Math.max(percent / 100, 0), 1);
+
+// stroke-dasharray that fills a half circle of this radius to `fraction`
+export const gaugeDash = (fraction: number, radius: number) => {
+  const length = Math.PI * radius;
+  return `${fraction * length} ${length}`;
+};
@@ -0,0 +1,52 @@
+// Shapes of /api/timeliness: the share of wages paid within 15 days
+
+export type TimelinessTrend = 'improving' | 'worsening' | 'steady';
+
+export interface TimelinessPoint {
+  month_year: string;
+  value: number | null;
+  data_source: string;
+  below_threshold: boolean;
+}
+
+export interface DistrictTimeliness {
+  scope: 'district';
+  district_code: string;
+  month_year: string;
+  threshold: number;
+  value: number | null;
+  below_threshold: boolean;
+  previous_month: string | null;
+  change: number | null;
+  trend: TimelinessTrend | null;
+  series: TimelinessPoint[];
+}
+
+export interface TimelinessDistrict {
+  district_code: string;
+  district_name: string;
+  value: number;
+  change: number | null;
+  trend: TimelinessTrend | null;
+  below_threshold: boolean;
+  data_source: string;
+}
+
+export interface StateTimeliness {
+  scope: 'state';
+  month_year: string;
+  threshold: number;
+  districts_reporting: number;
+  districts_below_threshold: number;
+  state_average: number | null;
+  state_median: number | null;
+  distribution: { from: number | null; to: number | null; count: number }[];
+  worst: TimelinessDistrict[];
+}
+
+// Catalogue keys describing each trend direction
+export const TREND_MESSAGES: Record<TimelinessTrend, string> = {
+  improving: 'timelinessImproving',
+  worsening: 'timelinessWorsening',
+  steady: 'timelinessSteady'
+};
@@ -0,0 +1,33 @@
+import { TrendMonth, isChangeView, trendChartRows } from './trends';
+
+const june: TrendMonth = {
+  month_year: '2025-06',
+  financial_year: '2025-2026',
+  fy_to_date_months: 3,
+  data_source: 'data.gov.in',
+  metrics: {
+    total_households: {
+      value: 120,
+      mom_change: 20,
+      mom_change_pct: 20,
+      yoy_change: 40,
+      yoy_change_pct: 50,
+      fy_to_date: 330,
+      rolling_3m: 110
+    }
+  }
+};
+
+test('chart rows carry the figure for the chosen view', () => {
+  const metrics = ['total_households', 'total_person_days'];
+  expect(trendChartRows([june], 'monthly', metrics)).toEqual([
+    { month_year: '2025-06', data_source: 'data.gov.in', total_households: 120, total_person_days: null }
+  ]);
+  expect(trendChartRows([june], 'yoy', metrics)[0].total_households).toBe(50);
+  expect(trendChartRows([june], 'fytd', metrics)[0].total_households).toBe(330);
+  expect(trendChartRows([june], 'rolling', metrics)[0].total_households).toBe(110);
+});
+
+test('only month and year comparisons are percentages', () => {
+  expect(['monthly', 'mom', 'yoy', 'fytd', 'rolling'].filter(view => isChangeView(view as any))).toEqual(['mom', 'yoy']);
+});
@@ -0,0 +1,52 @@
+// Shapes of /api/district/:code/trends and the chart views built from it
+
+export interface MetricTrend {
+  value: number | null;
+  mom_change: number | null;
+  mom_change_pct: number | null;
+  yoy_change: number | null;
+  yoy_change_pct: number | null;
+  fy_to_date: number | null;
+  rolling_3m: number | null;
+}
+
+export interface TrendMonth {
+  month_year: string;
+  financial_year: string;
+  fy_to_date_months: number;
+  data_source: string;
+  metrics: Record<string, MetricTrend>;
+}
+
+export interface TrendsResponse {
+  district_code: string;
+  month_year: string;
+  months: number;
+  aggregations: Record<string, 'running' | 'mean' | 'latest'>;
+  series: TrendMonth[];
+}
+
+export const TREND_VIEWS = ['monthly', 'mom', 'yoy', 'fytd', 'rolling'] as const;
+export type TrendView = typeof TREND_VIEWS[number];
+
+const VIEW_FIELDS: Record<TrendView, keyof MetricTrend> = {
+  monthly: 'value',
+  mom: 'mom_change_pct',
+  yoy: 'yoy_change_pct',
+  fytd: 'fy_to_date',
+  rolling: 'rolling_3m'
+};
+
+// Views that chart a percentage change rather than an amount
+export const isChangeView = (view: TrendView) => view === 'mom' || view === 'yoy';
+
+// One chart row per month with each metric's figure for the view, e.g.
+// { month_year: '2025-06', data_source, total_households: 12.5 } for 'mom'
+export const trendChartRows = (series: TrendMonth[], view: TrendView, metrics: readonly string[]) =>
+  series.map(month => {
+    const row: Record<string, string | number | null> = { month_year: month.month_year, data_source: month.data_source };
+    metrics.forEach(metric => {
+      row[metric] = month.metrics[metric]?.[VIEW_FIELDS[view]] ?? null;
+    });
+    return row;
+  });
@@ -0,0 +1,19 @@
+import { useEffect, useRef, useState } from 'react';
+import { OfflineState, getOfflineState, subscribeOfflineState, subscribeRefresh } from './offlineCache';
+
+export const useOfflineStatus = (): OfflineState => {
+  const [state, setState] = useState<OfflineState>(getOfflineState());
+
+  useEffect(() => subscribeOfflineState(setState), []);
+
+  return state;
+};
+
+// Runs the callback once queued requests have been refreshed after
+// reconnecting, so a section can reload what it is showing
+export const useRefreshOnReconnect = (callback: () => void) => {
+  const latest = useRef(callback);
+  latest.current = callback;
+
+  useEffect(() => subscribeRefresh(() => latest.current()), []);
+};
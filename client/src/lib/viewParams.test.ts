@@ -0,0 +1,46 @@
+import {
+  districtLink,
+  parseChoiceParam,
+  parseDistrictCodes,
+  parseFlagParam,
+  parseMonthParam,
+  viewQuery,
+  MAX_LINKED_DISTRICTS
+} from './viewParams';
+
+test('months must be well formed and not in the future', () => {
+  expect(parseMonthParam('2025-06', '2025-01')).toBe('2025-06');
+  expect(parseMonthParam('2025-13', '2025-01')).toBe('2025-01');
+  expect(parseMonthParam('June', '2025-01')).toBe('2025-01');
+  expect(parseMonthParam('2999-01', '2025-01')).toBe('2025-01');
+  expect(parseMonthParam(null, '2025-01')).toBe('2025-01');
+});
+
+test('choices outside the allowed list fall back to the default', () => {
+  const metrics = ['total_households', 'total_person_days'] as const;
+  expect(parseChoiceParam('total_person_days', metrics, 'total_households')).toBe('total_person_days');
+  expect(parseChoiceParam('drop table', metrics, 'total_households')).toBe('total_households');
+  expect(parseChoiceParam(null, metrics, 'total_households')).toBe('total_households');
+});
+
+test('district lists are normalised, de-duplicated and capped', () => {
+  expect(parseDistrictCodes('ap001, AP004,AP001,bogus,,AP1')).toEqual(['AP001', 'AP004']);
+  expect(parseDistrictCodes(null)).toEqual([]);
+
+  const many = Array.from({ length: 30 }, (_, i) => `AP${String(i + 1).padStart(3, '0')}`).join(',');
+  expect(parseDistrictCodes(many)).toHaveLength(MAX_LINKED_DISTRICTS);
+});
+
+test('flags accept 1 or true', () => {
+  expect(parseFlagParam('1')).toBe(true);
+  expect(parseFlagParam('true')).toBe(true);
+  expect(parseFlagParam('yes')).toBe(false);
+  expect(parseFlagParam(null)).toBe(false);
+});
+
+test('empty values are left out of the URL', () => {
+  expect(viewQuery({ d: ['AP001', 'AP004'], m: '2025-06', metric: null, strict: false, chart: undefined }))
+    .toBe('d=AP001,AP004&m=2025-06');
+  expect(viewQuery({ strict: true })).toBe('strict=1');
+  expect(districtLink('AP001', '2025-06')).toBe('/?d=AP001&m=2025-06');
+});
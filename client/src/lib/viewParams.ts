@@ -0,0 +1,49 @@
+// View state kept in the URL so a refreshed or shared link reopens the same
+// screen, e.g. /compare?d=AP001,AP004&m=2025-06&metric=total_person_days.
+// Parsers never throw: a bad value falls back to the default and is dropped
+// from the URL the next time the view writes its state back.
+
+import { currentMonthYear, isValidMonthYear } from './fiscalCalendar';
+
+const DISTRICT_CODE = /^[A-Z]{2}\d{3}$/;
+export const MAX_LINKED_DISTRICTS = 10;
+
+// Months that are well formed and not in the future
+export const parseMonthParam = (value: string | null, fallback: string = currentMonthYear()): string =>
+  value && isValidMonthYear(value) && value <= currentMonthYear() ? value : fallback;
+
+export const parseChoiceParam = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+// Comma-separated district codes, normalised, de-duplicated and capped
+export const parseDistrictCodes = (value: string | null): string[] => {
+  const codes = (value || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(code => DISTRICT_CODE.test(code));
+  return Array.from(new Set(codes)).slice(0, MAX_LINKED_DISTRICTS);
+};
+
+export const parseFlagParam = (value: string | null): boolean => value === '1' || value === 'true';
+
+type ParamValue = string | string[] | boolean | null | undefined;
+
+// Builds a query string, leaving out empty values so default views keep a
+// clean URL. Commas stay readable: ?d=AP001,AP004 rather than %2C.
+export const viewQuery = (values: Record<string, ParamValue>): string => {
+  const params = new URLSearchParams();
+  Object.entries(values).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else if (value === true) {
+      params.set(key, '1');
+    } else if (typeof value === 'string' && value !== '') {
+      params.set(key, value);
+    }
+  });
+  return params.toString().replace(/%2C/g, ',');
+};
+
+// Link to a district dashboard, e.g. from the map or league table
+export const districtLink = (districtCode: string, monthYear?: string) =>
+  `/?${viewQuery({ d: districtCode, m: monthYear })}`;
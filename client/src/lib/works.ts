@@ -0,0 +1,40 @@
+// Shapes of /api/works: completed and ongoing works
+
+export interface WorksFigures {
+  completed_works: number | null;
+  ongoing_works: number | null;
+  works_taken_up: number | null;
+  completion_ratio: number | null;
+  completed_in_month: number | null;
+  new_works_started: number | null;
+}
+
+export interface WorksMonth extends WorksFigures {
+  month_year: string;
+  data_source: string;
+}
+
+export interface DistrictWorks {
+  scope: 'district';
+  district_code: string;
+  month_year: string;
+  series: WorksMonth[];
+}
+
+export interface StateWorksDistrict extends WorksFigures {
+  district_code: string;
+  district_name: string;
+  data_source: string;
+}
+
+export interface StateWorks {
+  scope: 'state';
+  month_year: string;
+  districts_reporting: number;
+  state: WorksFigures;
+  districts: StateWorksDistrict[];
+}
+
+// Districts with a completion ratio, for the statewide bar chart
+export const comparableDistricts = (works: StateWorks) =>
+  works.districts.filter((district): district is StateWorksDistrict & { completion_ratio: number } => district.completion_ratio !== null);
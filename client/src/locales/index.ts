@@ -0,0 +1,8 @@
+import { registerLocalePack } from '../lib/i18n';
+
+// Built-in languages. A new language is a <code>.json catalogue with every key
+// in en.json plus one entry here; each catalogue is its own lazily loaded chunk.
+registerLocalePack({ code: 'en', name: 'English', dir: 'ltr', load: () => import('./en.json').then(module => module.default) });
+registerLocalePack({ code: 'te', name: 'తెలుగు', dir: 'ltr', load: () => import('./te.json').then(module => module.default) });
+registerLocalePack({ code: 'hi', name: 'हिन्दी', dir: 'ltr', load: () => import('./hi.json').then(module => module.default) });
+registerLocalePack({ code: 'ur', name: 'اردو', dir: 'rtl', load: () => import('./ur.json').then(module => module.default) });
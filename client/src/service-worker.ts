@@ -0,0 +1,53 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Caches the app shell so the tracker opens without connectivity. API
+// responses are deliberately not cached here: lib/offlineCache keeps the
+// last-seen district data so the app can tell the user it is stale.
+
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst, StaleWhileRevalidate } from 'workbox-strategies';
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+// Build output injected by InjectManifest at build time
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve index.html for client-side routes such as /compare or /map
+const fileExtensionRegexp = new RegExp('/[^/?]+\\.[^/]+$');
+registerRoute(
+  ({ request, url }: { request: Request; url: URL }) => {
+    if (request.mode !== 'navigate') return false;
+    if (url.pathname.startsWith('/_') || url.pathname.startsWith('/api/')) return false;
+    if (url.pathname.match(fileExtensionRegexp)) return false;
+    return true;
+  },
+  createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html')
+);
+
+// Icons and other static files from public/
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && /\.(png|ico|svg|webmanifest)$/.test(url.pathname),
+  new CacheFirst({
+    cacheName: 'static-assets',
+    plugins: [new ExpirationPlugin({ maxEntries: 30 })]
+  })
+);
+
+// District boundaries change rarely and the map needs them to draw at all
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && url.pathname === '/api/boundaries',
+  new StaleWhileRevalidate({ cacheName: 'boundaries' })
+);
+
+// Lets the page activate a new version without waiting for every tab to close
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
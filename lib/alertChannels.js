@@ -0,0 +1,117 @@
+const fs = require('fs');
+const axios = require('axios');
+
+// Notification channels for fired alerts. A channel checks a rule's
+// recipient when the rule is saved (`validate` returns a reason or null) and
+// delivers an alert to it (`send` rejects if delivery failed).
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Email through an SMTP server. `transport` is anything with nodemailer's
+// sendMail(); fromEnv() builds one from the SMTP_* settings.
+class EmailChannel {
+  constructor({ transport, from }) {
+    this.transport = transport;
+    this.from = from;
+  }
+
+  static fromEnv(env = process.env) {
+    if (!env.SMTP_HOST) return null;
+    // Loaded here so installs that never send email don't need it
+    const nodemailer = require('nodemailer');
+    const transport = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT, 10) || 587,
+      secure: env.SMTP_SECURE === '1',
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined
+    });
+    return new EmailChannel({ transport, from: env.ALERT_EMAIL_FROM || env.SMTP_USER });
+  }
+
+  validate(recipient) {
+    const addresses = String(recipient || '').split(',').map(address => address.trim());
+    return addresses.every(address => EMAIL_PATTERN.test(address))
+      ? null
+      : 'recipient must be an email address (or several, comma-separated)';
+  }
+
+  async send(alert, recipient) {
+    await this.transport.sendMail({
+      from: this.from,
+      to: recipient,
+      subject: `MGNREGA alert: ${alert.district_name} ${alert.month_year}`,
+      text: alert.message
+    });
+  }
+}
+
+// JSON POST of the alert to an http(s) URL on one of `allowedHosts`, so
+// rules can't make the server call arbitrary addresses. Redirects aren't
+// followed, as they could lead off the list.
+class WebhookChannel {
+  constructor({ http = axios, timeout = 10000, allowedHosts = [] } = {}) {
+    this.http = http;
+    this.timeout = timeout;
+    this.allowedHosts = allowedHosts.map(host => host.toLowerCase());
+  }
+
+  validate(recipient) {
+    let url;
+    try {
+      url = new URL(recipient);
+    } catch (error) {
+      return 'recipient must be an http(s) URL';
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) return 'recipient must be an http(s) URL';
+    return this.allowedHosts.includes(url.hostname.toLowerCase())
+      ? null
+      : `recipient must be a URL on an allowed webhook host: ${this.allowedHosts.join(', ')}`;
+  }
+
+  // Checked again on sending, as the allowed hosts may have changed since
+  // the rule was saved
+  async send(alert, recipient) {
+    const error = this.validate(recipient);
+    if (error) throw new Error(error);
+    await this.http.post(recipient, alert, { timeout: this.timeout, maxRedirects: 0 });
+  }
+}
+
+// One JSON line per alert appended to a file, or logged to the console
+// without one; for local testing. Rules need no recipient.
+class FileChannel {
+  constructor({ filePath = null } = {}) {
+    this.filePath = filePath;
+  }
+
+  validate() {
+    return null;
+  }
+
+  async send(alert) {
+    const line = JSON.stringify({ ...alert, sent_at: new Date().toISOString() });
+    if (!this.filePath) {
+      console.log(`Alert: ${line}`);
+      return;
+    }
+    await fs.promises.appendFile(this.filePath, `${line}\n`);
+  }
+}
+
+// Channels available to rules, keyed by the name rules store. Email is only
+// offered when an SMTP server is configured, and webhooks when
+// ALERT_WEBHOOK_HOSTS lists the hosts they may call.
+function createChannels(env = process.env) {
+  const channels = {
+    file: new FileChannel({ filePath: env.ALERT_LOG_FILE || null })
+  };
+  const allowedHosts = String(env.ALERT_WEBHOOK_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean);
+  if (allowedHosts.length > 0) {
+    channels.webhook = new WebhookChannel({ timeout: parseInt(env.ALERT_WEBHOOK_TIMEOUT, 10) || undefined, allowedHosts });
+  }
+  const email = EmailChannel.fromEnv(env);
+  if (email) channels.email = email;
+  return channels;
+}
+
+module.exports = { EmailChannel, WebhookChannel, FileChannel, createChannels };
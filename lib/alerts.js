@@ -0,0 +1,285 @@
+const { run, get, all } = require('./database');
+const { addMonths } = require('./fiscalCalendar');
+const { RANKABLE_METRICS } = require('./rankings');
+const { isNumber, round } = require('./figures');
+const { isFyStart, isRunning, monthFigure } = require('./runningTotals');
+
+// below/above compare the month's value with the threshold; drop_pct fires
+// when the month's figure fell by at least `threshold` percent on the
+// previous month
+const COMPARATORS = ['below', 'above', 'drop_pct'];
+
+const METRIC_NAMES = {
+  performance_score: 'Performance score',
+  total_households: 'Households',
+  total_person_days: 'Person-days',
+  total_amount_spent: 'Amount spent',
+  avg_days_per_household: 'Average days per household',
+  average_wage_rate: 'Average wage rate',
+  households_100_days: 'Households with 100 days',
+  payment_within_15_days: 'Wages paid within 15 days (%)'
+};
+
+const RULE_FIELDS = ['name', 'metric', 'district_code', 'comparator', 'threshold', 'channel', 'recipient', 'active'];
+
+const toRule = (row) => (row ? { ...row, active: row.active === 1 } : null);
+
+// JSON booleans, or "true"/"false" (and 1/0) from forms and query strings;
+// null for anything else
+function parseFlag(value) {
+  if ([true, 1, 'true', '1'].includes(value)) return true;
+  if ([false, 0, 'false', '0'].includes(value)) return false;
+  return null;
+}
+
+// Recipients are personal (email addresses) or secret (webhook URLs often
+// carry a token), so listings show only the email domain or the URL's origin
+function redactRecipient(recipient) {
+  if (!recipient) return recipient;
+  return String(recipient).split(',').map(part => {
+    const value = part.trim();
+    if (!value.includes('://') && value.includes('@')) return `***${value.slice(value.lastIndexOf('@'))}`;
+    try {
+      return `${new URL(value).origin}/***`;
+    } catch (error) {
+      return '***';
+    }
+  }).join(', ');
+}
+
+const redactRule = (rule) => (rule ? { ...rule, recipient: redactRecipient(rule.recipient) } : rule);
+
+// The month's figure that drop_pct compares. Running totals compare each
+// month's rise, as the totals themselves only fall at the April reset.
+const recordFigure = (record, previous, metric) =>
+  (record ? monthFigure(metric, record.month_year, record[metric], previous ? previous[metric] : null) : null);
+
+// Fall on the previous month in percent, or null if it can't be worked out.
+// April isn't compared with March, as upstream figures restart each year.
+// `beforePrevious` is the month before `previous`, for running totals.
+function dropPercent(record, previous, metric, beforePrevious = null) {
+  if (isFyStart(record.month_year) || !previous) return null;
+  const before = recordFigure(previous, beforePrevious, metric);
+  const value = recordFigure(record, previous, metric);
+  if (before === null || value === null || before <= 0) return null;
+  return round(((before - value) / before) * 100);
+}
+
+// Whether a rule fires for a district month; `previous` and `beforePrevious`
+// are the two months before
+function isTriggered(rule, record, previous, beforePrevious = null) {
+  const value = record[rule.metric];
+  if (!isNumber(value)) return false;
+  if (rule.comparator === 'below') return value < rule.threshold;
+  if (rule.comparator === 'above') return value > rule.threshold;
+  const drop = dropPercent(record, previous, rule.metric, beforePrevious);
+  return drop !== null && drop >= rule.threshold;
+}
+
+function alertMessage(rule, districtName, record, previous, beforePrevious) {
+  const metric = METRIC_NAMES[rule.metric];
+  const value = round(record[rule.metric]);
+  if (rule.comparator === 'drop_pct') {
+    const drop = dropPercent(record, previous, rule.metric, beforePrevious);
+    const running = isRunning(rule.metric);
+    return `${districtName}, ${record.month_year}: ${metric}${running ? ' added in the month' : ''} fell ${drop}% ` +
+      `to ${round(recordFigure(record, previous, rule.metric))} from ${round(recordFigure(previous, beforePrevious, rule.metric))} ` +
+      `the month before (alert at a ${rule.threshold}% fall)`;
+  }
+  return `${districtName}, ${record.month_year}: ${metric} is ${value}, ` +
+    `${rule.comparator} the alert threshold of ${rule.threshold}`;
+}
+
+// Threshold alert rules on district figures, evaluated after each scheduled
+// fetch and delivered through the configured notification channels
+class AlertService {
+  constructor({ db, store, registry, channels = {} }) {
+    this.db = db;
+    this.store = store;
+    this.registry = registry;
+    this.channels = channels;
+  }
+
+  // Validates a rule from the API into its stored shape, or returns the
+  // reason it was rejected. A rule without a district covers every district.
+  parseRule(input) {
+    const metric = input.metric;
+    if (!RANKABLE_METRICS.includes(metric)) {
+      return { error: `metric must be one of: ${RANKABLE_METRICS.join(', ')}` };
+    }
+    const districtCode = input.district_code || null;
+    if (districtCode && !this.registry.get(districtCode)) {
+      return { error: `Unknown district code: ${districtCode}` };
+    }
+    if (!COMPARATORS.includes(input.comparator)) {
+      return { error: `comparator must be one of: ${COMPARATORS.join(', ')}` };
+    }
+    const threshold = input.threshold === '' || input.threshold === null ? NaN : Number(input.threshold);
+    if (!Number.isFinite(threshold)) {
+      return { error: 'threshold must be a number' };
+    }
+    const channel = this.channels[input.channel];
+    if (!channel) {
+      return { error: `channel must be one of: ${Object.keys(this.channels).join(', ')}` };
+    }
+    const recipientError = channel.validate(input.recipient);
+    if (recipientError) {
+      return { error: recipientError };
+    }
+    const active = input.active === undefined ? true : parseFlag(input.active);
+    if (active === null) {
+      return { error: 'active must be true or false' };
+    }
+
+    return {
+      rule: {
+        name: input.name ? String(input.name).trim() : null,
+        metric,
+        district_code: districtCode,
+        comparator: input.comparator,
+        threshold,
+        channel: input.channel,
+        recipient: input.recipient ? String(input.recipient).trim() : null,
+        active
+      }
+    };
+  }
+
+  async listRules() {
+    return (await all(this.db, 'SELECT * FROM alert_rules ORDER BY id')).map(toRule);
+  }
+
+  async getRule(id) {
+    return toRule(await get(this.db, 'SELECT * FROM alert_rules WHERE id = ?', [id]));
+  }
+
+  async createRule(input) {
+    const { rule, error } = this.parseRule(input);
+    if (error) return { error };
+
+    const { lastID } = await run(this.db,
+      `INSERT INTO alert_rules (name, metric, district_code, comparator, threshold, channel, recipient, active)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [rule.name, rule.metric, rule.district_code, rule.comparator, rule.threshold, rule.channel, rule.recipient, rule.active ? 1 : 0]
+    );
+    return { rule: await this.getRule(lastID) };
+  }
+
+  // Changes the given fields, keeping the rest; null if there is no such rule
+  async updateRule(id, input) {
+    const existing = await this.getRule(id);
+    if (!existing) return null;
+
+    const changes = Object.fromEntries(RULE_FIELDS.filter(field => input[field] !== undefined).map(field => [field, input[field]]));
+    const { rule, error } = this.parseRule({ ...existing, ...changes });
+    if (error) return { error };
+
+    await run(this.db,
+      `UPDATE alert_rules SET name = ?, metric = ?, district_code = ?, comparator = ?, threshold = ?,
+         channel = ?, recipient = ?, active = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [rule.name, rule.metric, rule.district_code, rule.comparator, rule.threshold, rule.channel, rule.recipient, rule.active ? 1 : 0, id]
+    );
+    return { rule: await this.getRule(id) };
+  }
+
+  // Fired alerts are kept after their rule is deleted
+  async deleteRule(id) {
+    const { changes } = await run(this.db, 'DELETE FROM alert_rules WHERE id = ?', [id]);
+    return changes > 0;
+  }
+
+  async history({ ruleId = null, district = null, limit = 100 } = {}) {
+    const filters = [];
+    const params = [];
+    if (ruleId) { filters.push('rule_id = ?'); params.push(ruleId); }
+    if (district) { filters.push('district_code = ?'); params.push(district); }
+
+    return all(this.db,
+      `SELECT * FROM alert_history
+       ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
+       ORDER BY fired_at DESC, id DESC LIMIT ?`,
+      [...params, limit]
+    );
+  }
+
+  // Checks every active rule against the month's official figures and sends
+  // the alerts that fire. Alerts already delivered for the month are skipped.
+  async evaluate(monthYear) {
+    const rules = (await this.listRules()).filter(rule => rule.active);
+    const summary = { month_year: monthYear, rules_evaluated: rules.length, alerts_sent: 0, alerts_failed: 0 };
+    if (rules.length === 0) return summary;
+
+    const official = async (month) => new Map((await this.store.getMonth(month, { officialOnly: true }))
+      .map(row => [row.district_code, row]));
+    const current = await official(monthYear);
+    const previous = await official(addMonths(monthYear, -1));
+    const beforePrevious = await official(addMonths(monthYear, -2));
+    const delivered = new Set((await all(this.db,
+      "SELECT rule_id, district_code FROM alert_history WHERE month_year = ? AND status = 'sent'",
+      [monthYear]
+    )).map(row => `${row.rule_id}:${row.district_code}`));
+
+    for (const rule of rules) {
+      const districts = rule.district_code
+        ? [this.registry.get(rule.district_code)].filter(Boolean)
+        : this.registry.activeIn(monthYear);
+
+      for (const district of districts) {
+        const record = current.get(district.code);
+        const before = previous.get(district.code) || null;
+        const twoBefore = beforePrevious.get(district.code) || null;
+        if (!record || delivered.has(`${rule.id}:${district.code}`) || !isTriggered(rule, record, before, twoBefore)) continue;
+
+        const alert = {
+          rule_id: rule.id,
+          rule_name: rule.name,
+          district_code: district.code,
+          district_name: district.name,
+          month_year: monthYear,
+          metric: rule.metric,
+          value: round(record[rule.metric]),
+          previous_value: before && isNumber(before[rule.metric]) ? round(before[rule.metric]) : null,
+          comparator: rule.comparator,
+          threshold: rule.threshold,
+          message: alertMessage(rule, district.name, record, before, twoBefore)
+        };
+
+        let error = null;
+        try {
+          const channel = this.channels[rule.channel];
+          if (!channel) throw new Error(`Channel ${rule.channel} is not configured`);
+          await channel.send(alert, rule.recipient);
+          summary.alerts_sent++;
+        } catch (sendError) {
+          error = sendError.message;
+          summary.alerts_failed++;
+          console.warn(`Alert ${rule.id} for ${district.code} ${monthYear} not delivered:`, error);
+        }
+
+        await run(this.db,
+          `INSERT INTO alert_history (rule_id, district_code, month_year, metric, value, previous_value,
+             comparator, threshold, message, channel, recipient, status, error)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(rule_id, district_code, month_year) DO UPDATE SET
+             value = excluded.value,
+             previous_value = excluded.previous_value,
+             threshold = excluded.threshold,
+             message = excluded.message,
+             channel = excluded.channel,
+             recipient = excluded.recipient,
+             status = excluded.status,
+             error = excluded.error,
+             fired_at = CURRENT_TIMESTAMP`,
+          [rule.id, district.code, monthYear, rule.metric, alert.value, alert.previous_value,
+            rule.comparator, rule.threshold, alert.message, rule.channel, rule.recipient,
+            error ? 'failed' : 'sent', error]
+        );
+      }
+    }
+
+    return summary;
+  }
+}
+
+module.exports = { AlertService, COMPARATORS, isTriggered, dropPercent, redactRule, redactRecipient };
@@ -0,0 +1,195 @@
+const fs = require('fs');
+const path = require('path');
+const { run, all } = require('./database');
+const { addMonths, toFinYear } = require('./fiscalCalendar');
+const { OFFICIAL_SOURCE, isNumber, round } = require('./figures');
+const { isFyStart, monthFigure } = require('./runningTotals');
+
+const DEFAULT_CONFIG_PATH = path.join(__dirname, '..', 'config', 'dataQuality.json');
+
+const SEVERITIES = ['error', 'warning'];
+
+// Upstream fields that normalizeRecord reads with `parseInt(...) || 0`, so a
+// missing or garbled value would otherwise pass as a real zero
+const UPSTREAM_FIELDS = {
+  Total_Households_Worked: 'total_households',
+  Persondays_of_Central_Liability_so_far: 'total_person_days',
+  Total_Exp: 'total_amount_spent',
+  Average_days_of_employment_provided_per_Household: 'avg_days_per_household',
+  Average_Wage_rate_per_day_per_person: 'average_wage_rate'
+};
+
+const METRIC_NAMES = {
+  total_households: 'Households',
+  total_person_days: 'Person-days',
+  total_amount_spent: 'Amount spent',
+  avg_days_per_household: 'Average days per household',
+  average_wage_rate: 'Average wage rate'
+};
+
+const metricName = (metric) => METRIC_NAMES[metric] || metric;
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const isUnreadable = (value) => value === undefined || value === null || String(value).trim() === '' || Number.isNaN(parseFloat(value));
+
+const issue = (record, rule, metric, severity, value, expected, message) => ({
+  district_code: record.district_code,
+  month_year: record.month_year,
+  rule,
+  metric,
+  severity,
+  value: isNumber(value) ? round(value) : null,
+  expected: isNumber(expected) ? round(expected) : null,
+  message
+});
+
+// Checks on the record alone (and the raw upstream row it came from)
+function ruleChecks(record, raw, config) {
+  const issues = [];
+  const unreadable = new Set();
+
+  if (raw) {
+    Object.entries(UPSTREAM_FIELDS).forEach(([field, metric]) => {
+      if (isUnreadable(raw[field])) {
+        unreadable.add(metric);
+        issues.push(issue(record, 'unreadable_field', metric, 'warning', null, null,
+          `${metricName(metric)} (${field}) was missing or not a number upstream`));
+      }
+    });
+  }
+
+  if (record.total_households === 0 && !unreadable.has('total_households')) {
+    issues.push(issue(record, 'zero_households', 'total_households', 'error', 0, null,
+      'No households reported as having worked'));
+  }
+
+  const notified = config.notified_wage_rates[toFinYear(record.month_year)];
+  const wage = record.average_wage_rate;
+  if (isNumber(notified) && isNumber(wage) && !unreadable.has('average_wage_rate')) {
+    const { below, above } = config.wage_rate_tolerance;
+    if (wage < notified * below || wage > notified * above) {
+      issues.push(issue(record, 'wage_out_of_range', 'average_wage_rate', 'warning', wage, notified,
+        `Average wage of Rs ${round(wage)} is outside the range for the notified rate of Rs ${notified}`));
+    }
+  }
+
+  const days = record.avg_days_per_household;
+  if (isNumber(days) && days > config.max_avg_days_per_household) {
+    issues.push(issue(record, 'days_over_limit', 'avg_days_per_household', 'error', days, config.max_avg_days_per_household,
+      `Average of ${round(days)} days per household is above the ${config.max_avg_days_per_household}-day limit`));
+  }
+
+  return issues;
+}
+
+// A row's own figure for the month, reading the month before from `byMonth`
+const rowFigure = (row, byMonth, metric) =>
+  monthFigure(metric, row.month_year, row[metric], byMonth.get(addMonths(row.month_year, -1))?.[metric]);
+
+// Checks against the district's own earlier official months: a sharp fall
+// from the month before, and robust (median/MAD) outliers. The history
+// metrics are running totals from April, so outliers are judged on each
+// month's rise rather than the totals, which restart every year.
+function historyChecks(record, history, config) {
+  const issues = [];
+  const byMonth = new Map(history.map(row => [row.month_year, row]));
+  const previous = byMonth.get(addMonths(record.month_year, -1));
+  // Upstream figures restart with each financial year, so April is not
+  // compared with March
+  const comparePrevious = previous && !isFyStart(record.month_year);
+  const windowStart = addMonths(record.month_year, -config.history_months);
+
+  config.history_metrics.forEach(metric => {
+    const value = record[metric];
+    if (!isNumber(value)) return;
+
+    const before = comparePrevious ? previous[metric] : null;
+    if (isNumber(before) && before > 0 && value <= before * (1 - config.sharp_drop_ratio)) {
+      issues.push(issue(record, 'sharp_drop', metric, 'warning', value, before,
+        `${metricName(metric)} fell ${Math.round((1 - value / before) * 100)}% from the previous month`));
+      return;
+    }
+
+    const rise = rowFigure(record, byMonth, metric);
+    const rises = history
+      .filter(row => row.month_year >= windowStart)
+      .map(row => rowFigure(row, byMonth, metric))
+      .filter(isNumber);
+    if (rise === null || rises.length < config.min_history_months) return;
+    const centre = median(rises);
+    const spread = median(rises.map(v => Math.abs(v - centre)));
+    if (spread === 0) return;
+    // 0.6745 scales the MAD to a standard deviation for normal data
+    const score = (0.6745 * (rise - centre)) / spread;
+    if (Math.abs(score) > config.outlier_threshold) {
+      issues.push(issue(record, 'outlier', metric, 'warning', rise, centre,
+        `${metricName(metric)} rose far ${score > 0 ? 'more' : 'less'} this month than this district's usual monthly rise`));
+    }
+  });
+
+  return issues;
+}
+
+// All issues for one ingested record. `history` holds the district's
+// earlier official months; `raw` is the upstream row, when there was one.
+function checkRecord(record, { raw = null, history = [], config }) {
+  return [...ruleChecks(record, raw, config), ...historyChecks(record, history, config)];
+}
+
+// Validation stage of ingestion, and the store of what it found
+class DataQualityService {
+  constructor({ db, store, config = DataQualityService.loadConfig() }) {
+    this.db = db;
+    this.store = store;
+    this.config = config;
+  }
+
+  static loadConfig(configPath = DEFAULT_CONFIG_PATH) {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  }
+
+  // Reads a month more than history_months, so the oldest month in the
+  // window has its rise too
+  async inspect(record, raw = null) {
+    const months = Array.from({ length: this.config.history_months + 1 }, (_, i) => addMonths(record.month_year, -(i + 1)));
+    const history = (await this.store.getSeries(record.district_code, months))
+      .filter(row => row.data_source === OFFICIAL_SOURCE);
+    return checkRecord(record, { raw, history, config: this.config });
+  }
+
+  // Replaces a district month's issues with the latest findings
+  async save(districtCode, monthYear, issues) {
+    await run(this.db, 'DELETE FROM data_quality_issues WHERE district_code = ? AND month_year = ?', [districtCode, monthYear]);
+    for (const found of issues) {
+      await run(this.db,
+        `INSERT INTO data_quality_issues
+         (district_code, month_year, rule, metric, severity, value, expected, message)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [districtCode, monthYear, found.rule, found.metric, found.severity, found.value, found.expected, found.message]
+      );
+    }
+  }
+
+  async list({ month = null, district = null, severity = null } = {}) {
+    const filters = [];
+    const params = [];
+    if (month) { filters.push('month_year = ?'); params.push(month); }
+    if (district) { filters.push('district_code = ?'); params.push(district); }
+    if (severity) { filters.push('severity = ?'); params.push(severity); }
+
+    return all(this.db,
+      `SELECT district_code, month_year, rule, metric, severity, value, expected, message, detected_at
+       FROM data_quality_issues
+       ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
+       ORDER BY month_year DESC, district_code, severity, rule`,
+      params
+    );
+  }
+}
+
+module.exports = { DataQualityService, checkRecord, SEVERITIES, UPSTREAM_FIELDS };
@@ -0,0 +1,68 @@
+const { AsyncLocalStorage } = require('async_hooks');
+
+// Promise wrappers around the sqlite3 callback API
+
+// The app shares one connection, and SQLite transactions belong to the
+// connection, not the caller. Transactions and writes outside them therefore
+// take turns per connection: a write can't land in another caller's open
+// transaction, and a second BEGIN waits for the first COMMIT.
+const queues = new WeakMap();
+const openTransaction = new AsyncLocalStorage();
+
+function exclusive(db, task) {
+  const result = (queues.get(db) || Promise.resolve()).then(task);
+  queues.set(db, result.catch(() => {}));
+  return result;
+}
+
+const inTransaction = (db) => openTransaction.getStore() === db;
+
+function execute(db, sql, params) {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+}
+
+function run(db, sql, params = []) {
+  return inTransaction(db) ? execute(db, sql, params) : exclusive(db, () => execute(db, sql, params));
+}
+
+function get(db, sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else resolve(row);
+    });
+  });
+}
+
+function all(db, sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+}
+
+// Runs `work` inside BEGIN/COMMIT, rolling back if it throws. Waits for any
+// other transaction on the connection; nested calls join the open one.
+function transaction(db, work) {
+  if (inTransaction(db)) return work();
+  return exclusive(db, () => openTransaction.run(db, async () => {
+    await execute(db, 'BEGIN TRANSACTION');
+    try {
+      const result = await work();
+      await execute(db, 'COMMIT');
+      return result;
+    } catch (error) {
+      await execute(db, 'ROLLBACK').catch(() => {});
+      throw error;
+    }
+  }));
+}
+
+module.exports = { run, get, all, transaction };
@@ -0,0 +1,191 @@
+const fs = require('fs');
+
+// Points this close outside every polygon still count as in-state; covers
+// GPS jitter at the coast and the state border
+const FALLBACK_RADIUS_KM = 10;
+
+// Without boundaries, points outside this box around the state, or further
+// than this from every district headquarters, are taken as outside it. The
+// furthest corners of the state (Ichchapuram, Kuppam) are within about 125 km
+// of a headquarters; Hyderabad and Bengaluru are over 130 km from any.
+const STATE_BOUNDS = { south: 12.6, north: 19.95, west: 76.7, east: 84.8 };
+const MAX_HEADQUARTERS_DISTANCE_KM = 130;
+
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+// GeoJSON Polygon and MultiPolygon as a list of polygons, each a list of rings
+const polygonsOf = (geometry) => {
+  if (!geometry) return [];
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
+
+// Ray casting; ring vertices are [lng, lat]
+function pointInRing(lng, lat, ring) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function pointInGeometry(lng, lat, geometry) {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    pointInRing(lng, lat, outer) && !holes.some(hole => pointInRing(lng, lat, hole))
+  );
+}
+
+// Distance in km from a point to the nearest edge of a geometry, on a local
+// equirectangular projection (accurate to well under 1% at district scale)
+function distanceToBoundaryKm(lng, lat, geometry) {
+  const kx = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((lat * Math.PI) / 180);
+  const ky = KM_PER_DEGREE_LAT;
+  let min = Infinity;
+
+  polygonsOf(geometry).forEach(rings => rings.forEach(ring => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const ax = (ring[i][0] - lng) * kx;
+      const ay = (ring[i][1] - lat) * ky;
+      const bx = (ring[i + 1][0] - lng) * kx;
+      const by = (ring[i + 1][1] - lat) * ky;
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+      min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+  }));
+
+  return min;
+}
+
+function haversineKm(lat1, lng1, lat2, lng2) {
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+const roundKm = (km) => (Number.isFinite(km) ? Math.round(km * 100) / 100 : null);
+
+// Maps coordinates to a district using official boundary polygons, falling
+// back to the nearest district headquarters when no polygon contains the
+// point. No boundaries are bundled: without them every lookup is the nearest
+// headquarters, points clearly away from the state are turned away, and for
+// the rest whether the point is in the state is unknown.
+class DistrictLocator {
+  constructor({ registry, boundaries }) {
+    this.registry = registry;
+    this.features = (boundaries?.features || []).filter(feature => feature.properties?.district_code);
+  }
+
+  static fromFile(registry, boundariesPath = null) {
+    let boundaries = null;
+    if (!boundariesPath) {
+      console.warn('No district boundaries configured (DISTRICT_BOUNDARIES); using nearest-centroid detection');
+      return new DistrictLocator({ registry, boundaries });
+    }
+    try {
+      boundaries = JSON.parse(fs.readFileSync(boundariesPath, 'utf8'));
+    } catch (error) {
+      console.warn(`District boundaries unavailable (${error.message}); using nearest-centroid detection`);
+    }
+    return new DistrictLocator({ registry, boundaries });
+  }
+
+  get hasBoundaries() {
+    return this.features.length > 0;
+  }
+
+  // The boundaries as a FeatureCollection, for drawing the state map; without
+  // boundaries each district is a point at its headquarters
+  toGeoJSON() {
+    if (this.hasBoundaries) {
+      return { type: 'FeatureCollection', features: this.features };
+    }
+    return {
+      type: 'FeatureCollection',
+      features: this.registry.list().map(district => ({
+        type: 'Feature',
+        properties: { district_code: district.code, district_name: district.name },
+        geometry: { type: 'Point', coordinates: [district.lng, district.lat] }
+      }))
+    };
+  }
+
+  nearestCentroid(lat, lng) {
+    return this.nearestHeadquarters(lat, lng).district;
+  }
+
+  nearestHeadquarters(lat, lng) {
+    let nearest = null;
+    let minDistance = Infinity;
+    this.registry.list().forEach(district => {
+      const distance = haversineKm(lat, lng, district.lat, district.lng);
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = district;
+      }
+    });
+    return { district: nearest, distanceKm: minDistance };
+  }
+
+  locate(lat, lng) {
+    if (!this.hasBoundaries) {
+      const { district, distanceKm } = this.nearestHeadquarters(lat, lng);
+      const inBounds = lat >= STATE_BOUNDS.south && lat <= STATE_BOUNDS.north &&
+        lng >= STATE_BOUNDS.west && lng <= STATE_BOUNDS.east;
+      if (!inBounds || distanceKm > MAX_HEADQUARTERS_DISTANCE_KM) {
+        return this.outside('nearest_centroid', null);
+      }
+      return this.result(district, 'nearest_centroid', null, null);
+    }
+
+    const containing = this.features.find(feature => pointInGeometry(lng, lat, feature.geometry));
+    if (containing) {
+      const district = this.registry.get(containing.properties.district_code);
+      if (district) {
+        return this.result(district, 'polygon', distanceToBoundaryKm(lng, lat, containing.geometry));
+      }
+    }
+
+    const distanceOutside = Math.min(...this.features.map(feature => distanceToBoundaryKm(lng, lat, feature.geometry)));
+    if (distanceOutside <= FALLBACK_RADIUS_KM) {
+      return this.result(this.nearestCentroid(lat, lng), 'nearest_centroid', distanceOutside);
+    }
+
+    return this.outside('polygon', distanceOutside);
+  }
+
+  outside(method, distanceKm) {
+    return {
+      inside_state: false,
+      method,
+      message: 'Location is outside Andhra Pradesh',
+      distance_to_boundary_km: roundKm(distanceKm)
+    };
+  }
+
+  result(district, method, distanceKm, insideState = true) {
+    return {
+      inside_state: insideState,
+      method,
+      district_code: district.code,
+      district_name: district.name,
+      lgd_code: district.lgd_code,
+      state_name: 'Andhra Pradesh',
+      latitude: district.lat,
+      longitude: district.lng,
+      distance_to_boundary_km: roundKm(distanceKm)
+    };
+  }
+}
+
+module.exports = { DistrictLocator, pointInGeometry, distanceToBoundaryKm, FALLBACK_RADIUS_KM, MAX_HEADQUARTERS_DISTANCE_KM };
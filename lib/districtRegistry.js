@@ -0,0 +1,169 @@
+const fs = require('fs');
+const path = require('path');
+const { run, all, transaction } = require('./database');
+
+const DEFAULT_SEED_PATH = path.join(__dirname, '..', 'config', 'districts.json');
+const STATE_NAME = 'Andhra Pradesh';
+
+// "Y.S.R. Kadapa" and "ysr kadapa" both become "ysrkadapa"
+const normalizeDistrictName = (name) => String(name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// District master data backed by SQLite, cached in memory after load()
+class DistrictRegistry {
+  constructor({ db }) {
+    this.db = db;
+    this.districts = [];
+    this.byCode = new Map();
+    this.aliases = new Map();
+    this.lineage = [];
+  }
+
+  static loadSeed(seedPath = DEFAULT_SEED_PATH) {
+    return JSON.parse(fs.readFileSync(seedPath, 'utf8'));
+  }
+
+  // Idempotent: refreshes seeded districts, keeps aliases added at runtime
+  async seed(seed) {
+    await transaction(this.db, async () => {
+      for (const district of seed.districts) {
+        await run(this.db,
+          `INSERT INTO districts
+           (district_code, district_name, state_name, latitude, longitude, lgd_code, formed_on)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(district_code) DO UPDATE SET
+             district_name = excluded.district_name,
+             latitude = excluded.latitude,
+             longitude = excluded.longitude,
+             lgd_code = excluded.lgd_code,
+             formed_on = excluded.formed_on`,
+          [district.code, district.name, STATE_NAME, district.lat, district.lng, district.lgd_code, district.formed_on || null]
+        );
+
+        for (const alias of [district.name, ...(district.aliases || [])]) {
+          await run(this.db,
+            'INSERT OR IGNORE INTO district_aliases (alias, district_code) VALUES (?, ?)',
+            [normalizeDistrictName(alias), district.code]
+          );
+        }
+
+        for (const parentCode of district.parents || []) {
+          await run(this.db,
+            'INSERT OR IGNORE INTO district_lineage (parent_code, child_code, effective_from) VALUES (?, ?, ?)',
+            [parentCode, district.code, district.formed_on || null]
+          );
+        }
+      }
+    });
+  }
+
+  async load() {
+    const rows = await all(this.db, 'SELECT * FROM districts ORDER BY district_code');
+    const aliasRows = await all(this.db, 'SELECT alias, district_code FROM district_aliases');
+    const lineageRows = await all(this.db, 'SELECT parent_code, child_code, effective_from FROM district_lineage');
+
+    this.setDistricts(rows.map(row => ({
+      code: row.district_code,
+      name: row.district_name,
+      lat: row.latitude,
+      lng: row.longitude,
+      lgd_code: row.lgd_code,
+      formed_on: row.formed_on
+    })));
+    this.aliases = new Map(aliasRows.map(row => [row.alias, row.district_code]));
+    this.lineage = lineageRows;
+  }
+
+  // For read-only databases that predate the registry tables
+  loadFromSeed(seed) {
+    this.setDistricts(seed.districts.map(({ aliases, parents, ...district }) => district));
+    this.aliases = new Map();
+    this.lineage = [];
+    seed.districts.forEach(district => {
+      [district.name, ...(district.aliases || [])].forEach(alias => {
+        this.aliases.set(normalizeDistrictName(alias), district.code);
+      });
+      (district.parents || []).forEach(parentCode => {
+        this.lineage.push({ parent_code: parentCode, child_code: district.code, effective_from: district.formed_on });
+      });
+    });
+  }
+
+  setDistricts(districts) {
+    this.districts = districts;
+    this.byCode = new Map(districts.map(district => [district.code, district]));
+  }
+
+  list() {
+    return this.districts;
+  }
+
+  get(code) {
+    return this.byCode.get(code) || null;
+  }
+
+  // Districts that existed in a month, so pre-2022 months don't list the new ones
+  activeIn(monthYear) {
+    return this.districts.filter(d => !d.formed_on || d.formed_on.slice(0, 7) <= monthYear);
+  }
+
+  // Exact alias lookup; returns null for names that need review
+  resolve(upstreamName) {
+    return this.aliases.get(normalizeDistrictName(upstreamName)) || null;
+  }
+
+  getLineage(code) {
+    return {
+      parents: this.lineage.filter(link => link.child_code === code).map(link => this.get(link.parent_code)).filter(Boolean),
+      children: this.lineage.filter(link => link.parent_code === code).map(link => this.get(link.child_code)).filter(Boolean)
+    };
+  }
+
+  async recordUnmatched(upstreamName, monthYear) {
+    await run(this.db,
+      `INSERT INTO district_name_reviews (upstream_name, normalized_name, last_month_year)
+       VALUES (?, ?, ?)
+       ON CONFLICT(upstream_name) DO UPDATE SET
+         occurrences = occurrences + 1,
+         last_month_year = excluded.last_month_year,
+         last_seen = CURRENT_TIMESTAMP`,
+      [upstreamName, normalizeDistrictName(upstreamName), monthYear]
+    );
+  }
+
+  async getUnmatched() {
+    return all(this.db,
+      'SELECT * FROM district_name_reviews ORDER BY resolved_code IS NOT NULL, last_seen DESC'
+    );
+  }
+
+  // Maps an upstream name to a district and closes any matching review entries.
+  // A name already mapped to another district (seeded names included) is only
+  // moved with `override`.
+  async addAlias(alias, districtCode, { override = false } = {}) {
+    if (!this.get(districtCode)) {
+      throw new Error(`Unknown district code: ${districtCode}`);
+    }
+    const normalized = normalizeDistrictName(alias);
+    if (!normalized) {
+      throw new Error('Alias must contain letters or digits');
+    }
+    const existing = this.aliases.get(normalized);
+    if (existing && existing !== districtCode && !override) {
+      throw new Error(`Alias ${normalized} already maps to ${existing}`);
+    }
+
+    await run(this.db,
+      'INSERT OR REPLACE INTO district_aliases (alias, district_code) VALUES (?, ?)',
+      [normalized, districtCode]
+    );
+    await run(this.db,
+      'UPDATE district_name_reviews SET resolved_code = ? WHERE normalized_name = ?',
+      [districtCode, normalized]
+    );
+    this.aliases.set(normalized, districtCode);
+
+    return { alias: normalized, district_code: districtCode };
+  }
+}
+
+module.exports = { DistrictRegistry, normalizeDistrictName };
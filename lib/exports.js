@@ -0,0 +1,210 @@
+const { toCsv } = require('./csv');
+const { toXlsx } = require('./xlsx');
+const { toFinYear } = require('./fiscalCalendar');
+const { provenanceOf } = require('./performanceStore');
+
+const EXPORT_FORMATS = ['csv', 'xlsx', 'json'];
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+const SOURCE = 'data.gov.in – Ministry of Rural Development, MGNREGA District-wise Data at a Glance';
+
+// Columns every export carries; amounts are in crores as stored
+const BASE_COLUMNS = [
+  { key: 'district_code', label: 'District Code' },
+  { key: 'district_name', label: 'District' },
+  { key: 'month_year', label: 'Month' },
+  { key: 'financial_year', label: 'Financial Year' },
+  { key: 'total_households', label: 'Households Worked' },
+  { key: 'total_person_days', label: 'Person Days' },
+  { key: 'total_amount_spent', label: 'Amount Spent (Rs crore)' },
+  { key: 'avg_days_per_household', label: 'Avg Days per Household' },
+  { key: 'performance_score', label: 'Performance Score' }
+];
+
+// Extra columns for statewide snapshots, which read full stored rows
+const DETAIL_COLUMNS = [
+  { key: 'average_wage_rate', label: 'Avg Wage Rate (Rs/day)' },
+  { key: 'women_persondays', label: 'Women Person Days' },
+  { key: 'sc_persondays', label: 'SC Person Days' },
+  { key: 'st_persondays', label: 'ST Person Days' },
+  { key: 'households_100_days', label: 'Households Completing 100 Days' },
+  { key: 'completed_works', label: 'Completed Works' },
+  { key: 'ongoing_works', label: 'Ongoing Works' },
+  { key: 'payment_within_15_days', label: 'Wages Paid within 15 Days (%)' }
+];
+
+// Column labels for the inclusion groups in config/inclusion.json; groups
+// added to the config without one use their key
+const INCLUSION_LABELS = {
+  women: 'Women',
+  sc: 'SC',
+  st: 'ST',
+  differently_abled: 'Differently Abled'
+};
+
+const PROVENANCE_COLUMNS = [
+  { key: 'data_source', label: 'Data Source' },
+  { key: 'fetched_at', label: 'Fetched At' },
+  { key: 'record_id', label: 'Upstream Record ID' }
+];
+
+// One export row per record, provenance flattened into columns
+function flatten(record, registry) {
+  const provenance = record.provenance || provenanceOf(record);
+  return {
+    ...record,
+    district_name: record.district_name || registry.get(record.district_code)?.name || null,
+    financial_year: record.financial_year || toFinYear(record.month_year),
+    data_source: provenance.source,
+    fetched_at: provenance.fetched_at,
+    record_id: provenance.record_id
+  };
+}
+
+// Counts rows by data source, e.g. "data.gov.in: 10; mock_data: 2"
+function provenanceSummary(rows) {
+  const counts = new Map();
+  rows.forEach(row => counts.set(row.data_source, (counts.get(row.data_source) || 0) + 1));
+  return [...counts.entries()].map(([source, count]) => `${source}: ${count}`).join('; ');
+}
+
+// Builds export tables for the history, comparison and statewide snapshot
+// views and renders them as CSV, XLSX or JSON with a metadata block on top
+class ExportService {
+  constructor({ data, store, service, registry, ingestion = null, inclusion = null }) {
+    this.data = data;
+    this.store = store;
+    this.service = service;
+    this.registry = registry;
+    this.ingestion = ingestion;
+    this.inclusion = inclusion;
+  }
+
+  table({ title, view, filters, columns, records, strict }) {
+    const rows = records.map(record => flatten(record, this.registry));
+    return {
+      metadata: {
+        title,
+        view,
+        ...filters,
+        strict,
+        source: SOURCE,
+        provenance: provenanceSummary(rows),
+        generated_at: new Date().toISOString()
+      },
+      columns: [...columns, ...PROVENANCE_COLUMNS],
+      rows
+    };
+  }
+
+  async history(districtCode, months, { strict = false } = {}) {
+    const district = this.registry.get(districtCode);
+    const records = await this.data.getDistrictHistory(districtCode, months, { strict });
+    return this.table({
+      title: `MGNREGA history – ${district ? district.name : districtCode}`,
+      view: 'history',
+      filters: { district_code: districtCode, months },
+      columns: BASE_COLUMNS,
+      records,
+      strict
+    });
+  }
+
+  async comparison(districtCodes, monthYear, { strict = false } = {}) {
+    const records = await this.data.getDistrictComparison(districtCodes, monthYear, { strict });
+    return this.table({
+      title: `MGNREGA district comparison – ${monthYear}`,
+      view: 'comparison',
+      filters: { districts: districtCodes.join(','), month_year: monthYear },
+      columns: BASE_COLUMNS,
+      records,
+      strict
+    });
+  }
+
+  // Every district active in the month, from stored rows; districts with no
+  // row (or no official row in strict mode) are listed as missing
+  async snapshot(monthYear, { strict = false } = {}) {
+    if (this.ingestion) await this.ingestion.refreshMonth(monthYear);
+
+    const stored = new Map((await this.store.getMonth(monthYear, { officialOnly: strict }))
+      .map(row => [row.district_code, row]));
+
+    const records = this.registry.activeIn(monthYear).map(district => {
+      const row = stored.get(district.code);
+      return row
+        ? { ...this.service.scoreRecord(row), district_name: district.name }
+        : { district_code: district.code, district_name: district.name, month_year: monthYear, data_source: 'missing' };
+    });
+
+    return this.table({
+      title: `MGNREGA statewide snapshot – ${monthYear}`,
+      view: 'snapshot',
+      filters: { month_year: monthYear },
+      columns: [...BASE_COLUMNS, ...DETAIL_COLUMNS],
+      records,
+      strict
+    });
+  }
+
+  // Every active district's inclusion shares for the month against the
+  // norms, as on the inclusion view
+  async inclusionShares(monthYear, { strict = false } = {}) {
+    const { norms, districts } = await this.inclusion.getState(monthYear, 1, { strict });
+    const groups = Object.keys(norms);
+
+    const records = districts.map(district => ({
+      district_code: district.district_code,
+      district_name: district.district_name,
+      month_year: monthYear,
+      data_source: district.data_source,
+      ...Object.fromEntries(groups.map(group => [`${group}_share`, district.groups[group].share])),
+      below_norm: district.below_norm.join(', ')
+    }));
+
+    return this.table({
+      title: `MGNREGA social inclusion – ${monthYear}`,
+      view: 'inclusion',
+      filters: {
+        month_year: monthYear,
+        norms: groups.map(group => `${INCLUSION_LABELS[group] || group}: ${norms[group].norm}%`).join('; ')
+      },
+      columns: [
+        ...BASE_COLUMNS.slice(0, 4),
+        ...groups.map(group => ({ key: `${group}_share`, label: `${INCLUSION_LABELS[group] || group} Share (%)` })),
+        { key: 'below_norm', label: 'Below Norm' }
+      ],
+      records,
+      strict
+    });
+  }
+
+  // Metadata rows, a blank row, then the header and data rows
+  static toRows(table) {
+    const metadata = Object.entries(table.metadata).map(([key, value]) => [key, value === null ? '' : String(value)]);
+    const header = table.columns.map(column => column.label);
+    const data = table.rows.map(row => table.columns.map(column => row[column.key] ?? null));
+    return { rows: [...metadata, [], header, ...data], headerIndex: metadata.length + 1 };
+  }
+
+  static render(table, format) {
+    if (format === 'json') {
+      const rows = table.rows.map(row => Object.fromEntries(table.columns.map(column => [column.key, row[column.key] ?? null])));
+      return Buffer.from(JSON.stringify({ metadata: table.metadata, columns: table.columns, rows }, null, 2));
+    }
+
+    const { rows, headerIndex } = ExportService.toRows(table);
+    if (format === 'xlsx') {
+      return toXlsx(rows, { name: table.metadata.view, boldRows: [headerIndex] });
+    }
+    // BOM so Excel opens the file as UTF-8 (district names may be in Telugu)
+    return Buffer.from(`\uFEFF${toCsv(rows)}`);
+  }
+}
+
+module.exports = { ExportService, EXPORT_FORMATS, CONTENT_TYPES };
@@ -0,0 +1,12 @@
+// Small helpers shared by the services that work on stored district figures
+
+// data_source of figures fetched from data.gov.in, as opposed to mock or
+// legacy rows
+const OFFICIAL_SOURCE = 'data.gov.in';
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Two decimal places, as every API figure is reported
+const round = (value) => Math.round(value * 100) / 100;
+
+module.exports = { OFFICIAL_SOURCE, isNumber, round };
@@ -0,0 +1,102 @@
+// Indian financial year calendar: April to March, written as "2024-2025"
+// the way data.gov.in reports fin_year. Months are "YYYY-MM" strings.
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const FY_START_MONTH = 4;
+
+function parseMonthYear(monthYear) {
+  const match = /^(\d{4})-(\d{2})$/.exec(monthYear || '');
+  const year = match && parseInt(match[1], 10);
+  const month = match && parseInt(match[2], 10);
+  if (!match || month < 1 || month > 12) {
+    throw new Error(`Invalid month: ${monthYear}`);
+  }
+  return { year, month };
+}
+
+function formatMonthYear(year, month) {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+// Calendar year in which the financial year containing this month starts
+function fyStartYear(monthYear) {
+  const { year, month } = parseMonthYear(monthYear);
+  return month >= FY_START_MONTH ? year : year - 1;
+}
+
+function toFinYear(monthYear) {
+  const startYear = fyStartYear(monthYear);
+  return `${startYear}-${startYear + 1}`;
+}
+
+function toMonthName(monthYear) {
+  return MONTH_NAMES[parseMonthYear(monthYear).month - 1];
+}
+
+// fin_year/month filter values for the upstream API
+function toUpstreamQuery(monthYear) {
+  return { finYear: toFinYear(monthYear), monthName: toMonthName(monthYear) };
+}
+
+function parseFinYear(finYear) {
+  const match = /^(\d{4})-(\d{2}|\d{4})$/.exec(finYear || '');
+  if (!match) {
+    throw new Error(`Invalid financial year: ${finYear}`);
+  }
+  return parseInt(match[1], 10);
+}
+
+// Inverse of toUpstreamQuery: ("2024-2025", "Jan") -> "2025-01"
+function fromUpstream(finYear, monthName) {
+  const startYear = parseFinYear(finYear);
+  const index = MONTH_NAMES.findIndex(name => name.toLowerCase() === String(monthName).slice(0, 3).toLowerCase());
+  if (index === -1) {
+    throw new Error(`Invalid month name: ${monthName}`);
+  }
+  const month = index + 1;
+  return formatMonthYear(month >= FY_START_MONTH ? startYear : startYear + 1, month);
+}
+
+function fyStart(finYear) {
+  return formatMonthYear(parseFinYear(finYear), FY_START_MONTH);
+}
+
+function fyEnd(finYear) {
+  return formatMonthYear(parseFinYear(finYear) + 1, FY_START_MONTH - 1);
+}
+
+function addMonths(monthYear, count) {
+  const { year, month } = parseMonthYear(monthYear);
+  const total = year * 12 + (month - 1) + count;
+  return formatMonthYear(Math.floor(total / 12), (total % 12) + 1);
+}
+
+// Every month from April of the month's financial year up to the month itself
+function fyMonthsToDate(monthYear) {
+  const months = [];
+  let current = fyStart(toFinYear(monthYear));
+  while (current <= monthYear) {
+    months.push(current);
+    current = addMonths(current, 1);
+  }
+  return months;
+}
+
+// All twelve months of a financial year, April first
+function fyMonths(finYear) {
+  return fyMonthsToDate(fyEnd(finYear));
+}
+
+module.exports = {
+  MONTH_NAMES,
+  parseMonthYear,
+  toFinYear,
+  toMonthName,
+  toUpstreamQuery,
+  fromUpstream,
+  fyStart,
+  fyEnd,
+  addMonths,
+  fyMonthsToDate,
+  fyMonths
+};
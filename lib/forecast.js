@@ -0,0 +1,156 @@
+const { addMonths, fyEnd, fyMonthsToDate, fyStart, parseMonthYear, toFinYear } = require('./fiscalCalendar');
+const { isNumber, round } = require('./figures');
+const { monthFigure } = require('./runningTotals');
+
+const FORECAST_METRICS = ['total_person_days', 'total_amount_spent'];
+
+// Months of history read: three years gives each calendar month up to three
+// observations for its seasonal index
+const HISTORY_MONTHS = 36;
+// Below a year of data there is no seasonal pattern to use
+const MIN_SEASONAL_MONTHS = 12;
+// Recent months averaged for the current (deseasonalised) level
+const LEVEL_WINDOW = 3;
+// Relative error assumed when there are too few months to measure one
+const DEFAULT_RELATIVE_ERROR = 0.25;
+const MIN_RESIDUALS = 3;
+// Two-sided 95% interval
+const CONFIDENCE = 0.95;
+const Z_SCORE = 1.96;
+
+const mean = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const calendarMonth = (monthYear) => parseMonthYear(monthYear).month;
+
+// Each month's rise in a running total, skipping months without the month
+// before
+function monthlyRises(observed, metric) {
+  const totals = new Map(observed.map(point => [point.month_year, point.value]));
+  return observed
+    .map(({ month_year, value }) => ({
+      month_year,
+      value: monthFigure(metric, month_year, value, totals.get(addMonths(month_year, -1)))
+    }))
+    .filter(point => point.value !== null);
+}
+
+// Multiplicative index per calendar month: that month's average over the
+// overall monthly average. Months never observed get 1.
+function seasonalIndices(observed, excluded = null) {
+  const byMonth = new Map();
+  observed.filter(point => point !== excluded).forEach(({ month_year, value }) => {
+    const month = calendarMonth(month_year);
+    byMonth.set(month, [...(byMonth.get(month) || []), value]);
+  });
+  const monthMeans = new Map([...byMonth].map(([month, values]) => [month, mean(values)]));
+  const overall = mean([...monthMeans.values()]);
+
+  const indices = new Map();
+  for (let month = 1; month <= 12; month++) {
+    const monthMean = monthMeans.get(month);
+    indices.set(month, isNumber(monthMean) && overall > 0 && monthMean > 0 ? monthMean / overall : 1);
+  }
+  return indices;
+}
+
+// Seasonal level model for one metric. Upstream person-days and spend are
+// running totals from April, so the model forecasts each month's rise (the
+// recent deseasonalised level times the month's seasonal index) and adds the
+// rises to the latest reported total; the path ends at the projected FY
+// total. The interval on each rise widens with the square root of the
+// horizon, from the model's one-step relative errors.
+function forecastSeries(rows, monthYear, metric) {
+  const observed = rows
+    .filter(row => row.month_year <= monthYear && isNumber(row[metric]))
+    .map(row => ({ month_year: row.month_year, value: row[metric] }))
+    .sort((a, b) => a.month_year.localeCompare(b.month_year));
+  const rises = monthlyRises(observed, metric);
+
+  const finYear = toFinYear(monthYear);
+  const fyActual = observed.filter(point => toFinYear(point.month_year) === finYear);
+  const lastReported = fyActual.length > 0 ? fyActual[fyActual.length - 1] : null;
+  // Months still to add to the total: from the last reported month (or the
+  // FY start), so unreported months up to `monthYear` are projected too
+  const pending = [];
+  const firstPending = lastReported ? addMonths(lastReported.month_year, 1) : fyStart(finYear);
+  for (let month = firstPending; month <= fyEnd(finYear); month = addMonths(month, 1)) {
+    pending.push(month);
+  }
+
+  const seasonal = rises.length >= MIN_SEASONAL_MONTHS;
+  const indices = seasonal ? seasonalIndices(rises) : new Map();
+  const indexOf = (month) => indices.get(calendarMonth(month)) || 1;
+  const deseasonalised = rises.map(point => point.value / indexOf(point.month_year));
+
+  // Each month is deseasonalised with indices estimated without it, so a
+  // month that alone sets its calendar month's index doesn't count as a
+  // perfect fit
+  const residuals = [];
+  for (let i = 1; i < rises.length; i++) {
+    const point = rises[i];
+    const sameMonth = rises.filter(other => other !== point && calendarMonth(other.month_year) === calendarMonth(point.month_year));
+    if (seasonal && sameMonth.length === 0) continue;
+    const index = seasonal ? seasonalIndices(rises, point).get(calendarMonth(point.month_year)) : 1;
+    const level = mean(deseasonalised.slice(Math.max(0, i - LEVEL_WINDOW), i));
+    if (level > 0) residuals.push(point.value / index / level - 1);
+  }
+  const relativeError = residuals.length >= MIN_RESIDUALS
+    ? Math.sqrt(mean(residuals.map(r => r * r)))
+    : DEFAULT_RELATIVE_ERROR;
+
+  const actualToDate = lastReported ? lastReported.value : 0;
+  const level = deseasonalised.length > 0 ? mean(deseasonalised.slice(-LEVEL_WINDOW)) : null;
+  const path = [];
+  if (level !== null) {
+    let value = actualToDate;
+    let lower = actualToDate;
+    let upper = actualToDate;
+    pending.forEach((month, i) => {
+      const rise = level * indexOf(month);
+      const spread = Z_SCORE * relativeError * Math.sqrt(i + 1) * rise;
+      value += rise;
+      lower += Math.max(0, rise - spread);
+      upper += rise + spread;
+      path.push({ month_year: month, value: round(value), lower: round(lower), upper: round(upper) });
+    });
+  }
+  const forecast = path.filter(point => point.month_year > monthYear);
+  const yearEnd = path.length > 0 ? path[path.length - 1] : { value: actualToDate, lower: actualToDate, upper: actualToDate };
+
+  return {
+    method: seasonal ? 'seasonal' : 'level',
+    relative_error: round(relativeError),
+    actual: fyActual,
+    forecast,
+    fy_to_date: {
+      value: round(actualToDate),
+      months_reported: fyActual.length,
+      months_elapsed: fyMonthsToDate(monthYear).length
+    },
+    fy_projected_total: level === null ? null : { value: round(yearEnd.value), lower: round(yearEnd.lower), upper: round(yearEnd.upper) }
+  };
+}
+
+// Projections of the remaining months of the financial year, computed
+// locally from the district's own monthly history
+class ForecastService {
+  constructor({ data }) {
+    this.data = data;
+  }
+
+  async getForecast(districtCode, monthYear, { strict = false } = {}) {
+    const rows = await this.data.getDistrictHistory(districtCode, HISTORY_MONTHS, { strict, endMonth: monthYear });
+    const metrics = {};
+    FORECAST_METRICS.forEach(metric => {
+      metrics[metric] = forecastSeries(rows, monthYear, metric);
+    });
+    return {
+      district_code: districtCode,
+      month_year: monthYear,
+      financial_year: toFinYear(monthYear),
+      confidence: CONFIDENCE,
+      metrics
+    };
+  }
+}
+
+module.exports = { ForecastService, forecastSeries, seasonalIndices, FORECAST_METRICS };
@@ -0,0 +1,116 @@
+const fs = require('fs');
+const path = require('path');
+const { addMonths } = require('./fiscalCalendar');
+const { isNumber, round } = require('./figures');
+
+const DEFAULT_CONFIG_PATH = path.join(__dirname, '..', 'config', 'inclusion.json');
+
+// Each group's share (as a percentage) of the rows taken together: numerators
+// and denominators are summed first, so a statewide share weights districts
+// by their size. Rows missing either figure are left out of that group.
+function groupShares(rows, groups) {
+  const shares = {};
+  Object.entries(groups).forEach(([group, { numerator, denominator, norm }]) => {
+    const counted = rows.filter(row => isNumber(row[numerator]) && isNumber(row[denominator]));
+    const part = counted.reduce((sum, row) => sum + row[numerator], 0);
+    const whole = counted.reduce((sum, row) => sum + row[denominator], 0);
+    const share = whole > 0 ? round((part / whole) * 100) : null;
+    shares[group] = {
+      share,
+      norm,
+      below_norm: share !== null && share < norm
+    };
+  });
+  return shares;
+}
+
+const monthsUpTo = (endMonth, months) =>
+  Array.from({ length: months }, (_, i) => addMonths(endMonth, i - months + 1));
+
+const belowNorm = (shares) => Object.keys(shares).filter(group => shares[group].below_norm);
+
+// Women, SC, ST and differently-abled participation against the norms in
+// config/inclusion.json, for one district or the whole state
+class InclusionService {
+  constructor({ data, store, registry, ingestion = null, config = InclusionService.loadConfig() }) {
+    if (!config || !config.groups || Object.keys(config.groups).length === 0) {
+      throw new Error('Inclusion config must define at least one group');
+    }
+    this.data = data;
+    this.store = store;
+    this.registry = registry;
+    this.ingestion = ingestion;
+    this.config = config;
+  }
+
+  static loadConfig(configPath = DEFAULT_CONFIG_PATH) {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  }
+
+  norms() {
+    return Object.fromEntries(Object.entries(this.config.groups)
+      .map(([group, { numerator, denominator, norm, basis }]) => [group, { numerator, denominator, norm, basis }]));
+  }
+
+  async getDistrict(districtCode, endMonth, months = 12, { strict = false } = {}) {
+    const series = [];
+    for (const monthYear of monthsUpTo(endMonth, months)) {
+      const record = await this.data.getDistrictMonth(districtCode, monthYear, { strict });
+      const groups = groupShares(record ? [record] : [], this.config.groups);
+      series.push({
+        month_year: monthYear,
+        data_source: record ? record.data_source : 'missing',
+        groups,
+        below_norm: belowNorm(groups)
+      });
+    }
+
+    return {
+      scope: 'district',
+      district_code: districtCode,
+      month_year: endMonth,
+      norms: this.norms(),
+      series
+    };
+  }
+
+  // Statewide shares over time, plus every active district's shares for
+  // `endMonth` with the groups it falls short on. Only `endMonth` is
+  // ingested if missing; earlier months use what is already stored.
+  async getState(endMonth, months = 12, { strict = false } = {}) {
+    if (this.ingestion) await this.ingestion.refreshMonth(endMonth);
+
+    const series = [];
+    let latestRows = [];
+    for (const monthYear of monthsUpTo(endMonth, months)) {
+      const rows = await this.store.getMonth(monthYear, { officialOnly: strict });
+      const groups = groupShares(rows, this.config.groups);
+      series.push({ month_year: monthYear, districts_reporting: rows.length, groups, below_norm: belowNorm(groups) });
+      if (monthYear === endMonth) latestRows = rows;
+    }
+
+    const byCode = new Map(latestRows.map(row => [row.district_code, row]));
+    const districts = this.registry.activeIn(endMonth).map(district => {
+      const row = byCode.get(district.code);
+      const groups = groupShares(row ? [row] : [], this.config.groups);
+      return {
+        district_code: district.code,
+        district_name: district.name,
+        data_source: row ? row.data_source : 'missing',
+        groups,
+        below_norm: belowNorm(groups)
+      };
+    });
+
+    return {
+      scope: 'state',
+      month_year: endMonth,
+      norms: this.norms(),
+      series,
+      districts,
+      districts_flagged: districts.filter(district => district.below_norm.length > 0).length
+    };
+  }
+}
+
+module.exports = { InclusionService, groupShares };
@@ -0,0 +1,168 @@
+const { run, all, transaction } = require('./database');
+
+// Routes re-ingest a month at most this often; the cron job always refetches
+const REINGEST_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Statewide ingestion: one upstream call per month, every district stored.
+// With a `quality` service each record is checked and its issues stored too.
+class IngestionService {
+  constructor({ db, service, store, registry, quality = null }) {
+    this.db = db;
+    this.service = service;
+    this.store = store;
+    this.registry = registry;
+    this.quality = quality;
+    this.inFlight = new Map();
+    this.lastAttempt = new Map();
+  }
+
+  // Ingests a month unless it was attempted recently, successful or not
+  async ensureMonth(monthYear) {
+    const attemptedAt = this.lastAttempt.get(monthYear);
+    if (attemptedAt && Date.now() - attemptedAt < REINGEST_INTERVAL_MS) {
+      return null;
+    }
+    return this.ingestMonth(monthYear);
+  }
+
+  // ensureMonth for services that read the month's stored rows: a failed
+  // ingestion is logged and whatever is stored is served
+  async refreshMonth(monthYear) {
+    try {
+      return await this.ensureMonth(monthYear);
+    } catch (error) {
+      console.warn(`Ingestion failed for ${monthYear}:`, error.message);
+      return null;
+    }
+  }
+
+  // Concurrent callers asking for the same month share one upstream fetch
+  ingestMonth(monthYear) {
+    if (!this.inFlight.has(monthYear)) {
+      const job = this.runIngestion(monthYear).finally(() => this.inFlight.delete(monthYear));
+      this.inFlight.set(monthYear, job);
+    }
+    return this.inFlight.get(monthYear);
+  }
+
+  async runIngestion(monthYear) {
+    this.lastAttempt.set(monthYear, Date.now());
+    const startedAt = new Date().toISOString();
+    let records;
+
+    try {
+      records = await this.service.fetchStatewideRecords(monthYear);
+    } catch (error) {
+      await this.recordFailure(monthYear, 0, error, startedAt);
+      throw error;
+    }
+
+    try {
+      return await this.storeRecords(monthYear, records, startedAt);
+    } catch (error) {
+      // Storage failures aren't upstream's fault, so the month can be retried
+      // straight away rather than after REINGEST_INTERVAL_MS
+      this.lastAttempt.delete(monthYear);
+      await this.recordFailure(monthYear, records.length, error, startedAt);
+      throw error;
+    }
+  }
+
+  // Matches fetched rows to districts, checks them and stores them in one
+  // transaction; returns the run summary
+  async storeRecords(monthYear, records, startedAt) {
+    const byDistrict = new Map();
+    const rawByDistrict = new Map();
+    const unmatchedNames = new Set();
+
+    records.forEach(record => {
+      const code = this.service.resolveDistrictCode(record.district_name);
+      if (!code) {
+        if (record.district_name) unmatchedNames.add(record.district_name);
+        return;
+      }
+      // Keep the first upstream row for a district, as processAPIData does
+      if (!byDistrict.has(code)) {
+        byDistrict.set(code, this.service.normalizeRecord(record, code, monthYear));
+        rawByDistrict.set(code, record);
+      }
+    });
+
+    // Flagged records are still stored; the issues say what to distrust
+    const issuesByDistrict = new Map();
+    if (this.quality) {
+      for (const [code, data] of byDistrict) {
+        issuesByDistrict.set(code, await this.quality.inspect(data, rawByDistrict.get(code)));
+      }
+    }
+
+    await transaction(this.db, async () => {
+      for (const data of byDistrict.values()) {
+        await this.store.save(data);
+      }
+      for (const [code, issues] of issuesByDistrict) {
+        await this.quality.save(code, monthYear, issues);
+      }
+      // Queued for review; an alias added via the API resolves them next run
+      for (const name of unmatchedNames) {
+        await this.registry.recordUnmatched(name, monthYear);
+      }
+    });
+
+    const summary = {
+      month_year: monthYear,
+      status: 'success',
+      rows_fetched: records.length,
+      districts_matched: byDistrict.size,
+      districts_missing: this.registry.activeIn(monthYear).filter(d => !byDistrict.has(d.code)).map(d => d.code),
+      error: null,
+      started_at: startedAt,
+      quality_issues: [...issuesByDistrict.values()].reduce((count, issues) => count + issues.length, 0)
+    };
+    await this.recordRun(summary);
+
+    return summary;
+  }
+
+  async recordFailure(monthYear, rowsFetched, error, startedAt) {
+    await this.recordRun({
+      month_year: monthYear,
+      status: 'failed',
+      rows_fetched: rowsFetched,
+      districts_matched: 0,
+      districts_missing: this.registry.activeIn(monthYear).map(d => d.code),
+      error: error.message,
+      started_at: startedAt
+    });
+  }
+
+  async recordRun(summary) {
+    await run(this.db,
+      `INSERT INTO ingestion_runs
+       (month_year, status, rows_fetched, districts_matched, districts_missing, error, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        summary.month_year,
+        summary.status,
+        summary.rows_fetched,
+        summary.districts_matched,
+        JSON.stringify(summary.districts_missing),
+        summary.error,
+        summary.started_at
+      ]
+    );
+  }
+
+  async getRecentRuns(limit = 20) {
+    const rows = await all(this.db,
+      'SELECT * FROM ingestion_runs ORDER BY id DESC LIMIT ?',
+      [limit]
+    );
+    return rows.map(row => ({
+      ...row,
+      districts_missing: JSON.parse(row.districts_missing || '[]')
+    }));
+  }
+}
+
+module.exports = { IngestionService };
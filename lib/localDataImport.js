@@ -0,0 +1,190 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { run, get, transaction } = require('./database');
+const { parseCsv } = require('./csv');
+const { AREA_METRICS, withAverages } = require('./locationHierarchy');
+
+const DEFAULT_DROP_DIR = path.join(__dirname, '..', 'data', 'local');
+const RUPEES_PER_CRORE = 10000000;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const toNumber = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+const readRecords = (filePath, text) => {
+  if (filePath.endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : parsed.records || [];
+  }
+  return parseCsv(text);
+};
+
+const failedResult = (fileName, error) => ({
+  file_name: fileName, status: 'failed', error: error.message, rows_imported: 0, rows_rejected: 0, rejected: []
+});
+
+// Imports mandal and gram panchayat figures from CSV/JSON files dropped in a
+// directory. Each row names a district (code or name), a mandal and
+// optionally a gram panchayat; rows without a GP are mandal-level totals.
+class LocalDataImporter {
+  constructor({ db, registry, dropDir = DEFAULT_DROP_DIR }) {
+    this.db = db;
+    this.registry = registry;
+    this.dropDir = dropDir;
+  }
+
+  // Imports every new or changed file; unchanged files are skipped by checksum
+  async importDropDirectory() {
+    if (!fs.existsSync(this.dropDir)) {
+      return [];
+    }
+
+    const files = fs.readdirSync(this.dropDir)
+      .filter(name => /\.(csv|json)$/i.test(name))
+      .sort();
+
+    const results = [];
+    for (const name of files) {
+      try {
+        const result = await this.importFile(path.join(this.dropDir, name));
+        if (result) results.push(result);
+      } catch (error) {
+        console.error(`Local data import of ${name} failed:`, error);
+      }
+    }
+    return results;
+  }
+
+  // Parse failures are recorded against the file's checksum and skipped until
+  // the file changes. Files that can't be read yet and storage errors (such
+  // as SQLITE_BUSY) aren't recorded, so the next scan tries again; storage
+  // errors are thrown.
+  async importFile(filePath) {
+    const fileName = path.basename(filePath);
+    let text;
+    try {
+      text = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      console.warn(`${fileName}: could not be read (${error.message})`);
+      return failedResult(fileName, error);
+    }
+    const checksum = crypto.createHash('sha1').update(text).digest('hex');
+
+    const seen = await get(this.db, 'SELECT id FROM local_data_imports WHERE checksum = ?', [checksum]);
+    if (seen) {
+      return null;
+    }
+
+    let records;
+    try {
+      records = readRecords(filePath.toLowerCase(), text);
+    } catch (error) {
+      return this.recordFailure(fileName, checksum, error);
+    }
+
+    let imported = 0;
+    const rejected = [];
+    await transaction(this.db, async () => {
+      for (const [index, record] of records.entries()) {
+        const problem = await this.importRecord(record, fileName);
+        if (problem) {
+          rejected.push({ row: index + 1, reason: problem });
+        } else {
+          imported++;
+        }
+      }
+
+      await run(this.db,
+        `INSERT INTO local_data_imports (file_name, checksum, rows_imported, rows_rejected)
+         VALUES (?, ?, ?, ?)`,
+        [fileName, checksum, imported, rejected.length]
+      );
+    });
+
+    if (rejected.length > 0) {
+      console.warn(`${fileName}: rejected ${rejected.length} rows`, rejected.slice(0, 5));
+    }
+
+    return { file_name: fileName, status: 'imported', rows_imported: imported, rows_rejected: rejected.length, rejected };
+  }
+
+  // A file that can't be parsed imports nothing
+  async recordFailure(fileName, checksum, error) {
+    console.warn(`${fileName}: import failed (${error.message})`);
+    await run(this.db,
+      `INSERT INTO local_data_imports (file_name, checksum, rows_imported, rows_rejected, status, error)
+       VALUES (?, ?, 0, 0, 'failed', ?)`,
+      [fileName, checksum, error.message]
+    );
+    return failedResult(fileName, error);
+  }
+
+  // Returns a rejection reason, or null once the row is stored
+  async importRecord(record, fileName) {
+    const districtCode = this.registry.get(record.district_code)
+      ? record.district_code
+      : this.registry.resolve(record.district_name);
+    if (!districtCode) {
+      return `unknown district ${record.district_code || record.district_name || '(blank)'}`;
+    }
+    if (!record.mandal_code || !record.mandal_name) {
+      return 'mandal_code and mandal_name are required';
+    }
+    if (record.gp_code && !record.gp_name) {
+      return 'gp_name is required when gp_code is given';
+    }
+    if (!MONTH_PATTERN.test(record.month_year || '')) {
+      return `invalid month_year ${record.month_year || '(blank)'}`;
+    }
+
+    await run(this.db,
+      `INSERT INTO mandals (mandal_code, district_code, mandal_name, lgd_code)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(mandal_code) DO UPDATE SET
+         district_code = excluded.district_code,
+         mandal_name = excluded.mandal_name,
+         lgd_code = COALESCE(excluded.lgd_code, mandals.lgd_code)`,
+      [record.mandal_code, districtCode, record.mandal_name, toNumber(record.mandal_lgd_code)]
+    );
+
+    let level = 'mandal';
+    let areaCode = record.mandal_code;
+
+    if (record.gp_code) {
+      await run(this.db,
+        `INSERT INTO gram_panchayats (gp_code, mandal_code, gp_name, lgd_code)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(gp_code) DO UPDATE SET
+           mandal_code = excluded.mandal_code,
+           gp_name = excluded.gp_name,
+           lgd_code = COALESCE(excluded.lgd_code, gram_panchayats.lgd_code)`,
+        [record.gp_code, record.mandal_code, record.gp_name, toNumber(record.gp_lgd_code)]
+      );
+      level = 'gp';
+      areaCode = record.gp_code;
+    }
+
+    const values = Object.fromEntries(AREA_METRICS.map(metric => [metric, toNumber(record[metric])]));
+    // Drops give spend in rupees; district records store crores
+    if (values.total_amount_spent !== null) {
+      values.total_amount_spent /= RUPEES_PER_CRORE;
+    }
+    const metrics = withAverages(values);
+    const columns = [...AREA_METRICS, 'avg_days_per_household', 'avg_amount_per_household'];
+
+    await run(this.db,
+      `INSERT OR REPLACE INTO area_performance
+       (level, area_code, month_year, ${columns.join(', ')}, data_source, source_file)
+       VALUES (?, ?, ?, ${columns.map(() => '?').join(', ')}, ?, ?)`,
+      [level, areaCode, record.month_year, ...columns.map(column => metrics[column]), record.data_source || 'local_drop', fileName]
+    );
+
+    return null;
+  }
+}
+
+module.exports = { LocalDataImporter, DEFAULT_DROP_DIR };
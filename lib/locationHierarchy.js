@@ -0,0 +1,105 @@
+const { get, all } = require('./database');
+
+const AREA_METRICS = [
+  'total_households', 'total_person_days', 'total_amount_spent',
+  'women_persondays', 'completed_works', 'ongoing_works'
+];
+
+// Averages are recomputed after summing, never summed themselves
+const withAverages = (row) => ({
+  ...row,
+  avg_days_per_household: row.total_households > 0
+    ? Math.round((row.total_person_days / row.total_households) * 100) / 100
+    : null,
+  avg_amount_per_household: row.total_households > 0
+    ? Math.round((row.total_amount_spent / row.total_households) * 100) / 100
+    : null
+});
+
+const toPerformance = (row) => {
+  if (!row) return null;
+  const { id, level, area_code, ...fields } = row;
+  return fields;
+};
+
+// Read side of the district → mandal → gram panchayat hierarchy
+class LocationHierarchy {
+  constructor({ db }) {
+    this.db = db;
+  }
+
+  async getMandal(mandalCode) {
+    return get(this.db,
+      `SELECT m.*, d.district_name
+       FROM mandals m
+       LEFT JOIN districts d ON d.district_code = m.district_code
+       WHERE m.mandal_code = ?`,
+      [mandalCode]
+    );
+  }
+
+  async getMandals(districtCode, monthYear) {
+    const mandals = await all(this.db,
+      `SELECT m.mandal_code, m.mandal_name, m.lgd_code, COUNT(g.gp_code) AS gram_panchayat_count
+       FROM mandals m
+       LEFT JOIN gram_panchayats g ON g.mandal_code = m.mandal_code
+       WHERE m.district_code = ?
+       GROUP BY m.mandal_code
+       ORDER BY m.mandal_name`,
+      [districtCode]
+    );
+
+    const result = [];
+    for (const mandal of mandals) {
+      result.push({ ...mandal, performance: await this.getMandalPerformance(mandal.mandal_code, monthYear) });
+    }
+    return result;
+  }
+
+  // A mandal's own row when the drop had one, otherwise the sum of its panchayats
+  async getMandalPerformance(mandalCode, monthYear) {
+    const own = await get(this.db,
+      `SELECT * FROM area_performance WHERE level = 'mandal' AND area_code = ? AND month_year = ?`,
+      [mandalCode, monthYear]
+    );
+    if (own) {
+      return toPerformance(own);
+    }
+
+    const rollup = await get(this.db,
+      `SELECT COUNT(*) AS gp_rows, ${AREA_METRICS.map(metric => `SUM(p.${metric}) AS ${metric}`).join(', ')},
+              MAX(p.imported_at) AS imported_at
+       FROM area_performance p
+       JOIN gram_panchayats g ON g.gp_code = p.area_code
+       WHERE p.level = 'gp' AND g.mandal_code = ? AND p.month_year = ?`,
+      [mandalCode, monthYear]
+    );
+    if (!rollup || rollup.gp_rows === 0) {
+      return null;
+    }
+
+    const { gp_rows, ...totals } = rollup;
+    return withAverages({ ...totals, month_year: monthYear, data_source: 'gp_rollup', source_file: null });
+  }
+
+  async getGramPanchayats(mandalCode, monthYear) {
+    const rows = await all(this.db,
+      `SELECT g.gp_code, g.gp_name, g.lgd_code, p.*
+       FROM gram_panchayats g
+       LEFT JOIN area_performance p
+         ON p.level = 'gp' AND p.area_code = g.gp_code AND p.month_year = ?
+       WHERE g.mandal_code = ?
+       ORDER BY g.gp_name`,
+      [monthYear, mandalCode]
+    );
+
+    return rows.map(({ gp_code, gp_name, lgd_code, ...performance }) => ({
+      gp_code,
+      gp_name,
+      lgd_code,
+      performance: performance.id ? toPerformance(performance) : null
+    }));
+  }
+}
+
+module.exports = { LocationHierarchy, AREA_METRICS, withAverages };
@@ -0,0 +1,60 @@
+const { run } = require('../database');
+
+// The tables server.js used to create on startup. IF NOT EXISTS keeps this
+// a no-op for databases created before migrations were introduced.
+async function up(db) {
+  await run(db, `CREATE TABLE IF NOT EXISTS districts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    district_code TEXT UNIQUE,
+    district_name TEXT,
+    state_name TEXT,
+    latitude REAL,
+    longitude REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  await run(db, `CREATE TABLE IF NOT EXISTS performance_data (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    district_code TEXT,
+    month_year TEXT,
+    total_households INTEGER,
+    total_person_days INTEGER,
+    total_amount_spent REAL,
+    avg_days_per_household REAL,
+    avg_amount_per_household REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(district_code, month_year)
+  )`);
+
+  await run(db, `CREATE TABLE IF NOT EXISTS api_cache (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    cache_key TEXT UNIQUE,
+    data TEXT,
+    expires_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  await run(db, `CREATE TABLE IF NOT EXISTS ingested_records (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    district_code TEXT,
+    month_year TEXT,
+    record TEXT,
+    fetched_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(district_code, month_year)
+  )`);
+
+  await run(db, `CREATE TABLE IF NOT EXISTS ingestion_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    month_year TEXT,
+    status TEXT,
+    rows_fetched INTEGER,
+    districts_matched INTEGER,
+    districts_missing TEXT,
+    error TEXT,
+    started_at DATETIME,
+    finished_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+}
+
+module.exports = { up };
@@ -0,0 +1,76 @@
+const { run, all } = require('../database');
+
+// Frozen copy of the column list: later migrations may extend the live one
+const COLUMNS = [
+  'district_code', 'month_year', 'financial_year', 'month',
+  'total_households', 'total_person_days', 'total_amount_spent',
+  'avg_days_per_household', 'avg_amount_per_household', 'performance_score',
+  'average_wage_rate', 'women_persondays', 'sc_persondays', 'st_persondays',
+  'completed_works', 'ongoing_works', 'total_individuals_worked', 'total_job_cards',
+  'households_100_days', 'differently_abled_worked', 'payment_within_15_days',
+  'data_source'
+];
+
+// Replaces the seven-column performance_data table with one typed column per
+// parsed data.gov.in field, and folds the JSON records from ingested_records
+// into it.
+async function up(db) {
+  await run(db, `CREATE TABLE performance_data_v2 (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    district_code TEXT NOT NULL,
+    month_year TEXT NOT NULL,
+    financial_year TEXT,
+    month TEXT,
+    total_households INTEGER,
+    total_person_days INTEGER,
+    total_amount_spent REAL,
+    avg_days_per_household REAL,
+    avg_amount_per_household REAL,
+    performance_score REAL,
+    average_wage_rate REAL,
+    women_persondays INTEGER,
+    sc_persondays INTEGER,
+    st_persondays INTEGER,
+    completed_works INTEGER,
+    ongoing_works INTEGER,
+    total_individuals_worked INTEGER,
+    total_job_cards INTEGER,
+    households_100_days INTEGER,
+    differently_abled_worked INTEGER,
+    payment_within_15_days REAL,
+    data_source TEXT,
+    fetched_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(district_code, month_year)
+  )`);
+
+  // Legacy rows carry only the original seven metrics and no provenance.
+  // The old history route wrote some rows without a district code; drop those.
+  await run(db, `INSERT INTO performance_data_v2
+    (district_code, month_year, total_households, total_person_days,
+     total_amount_spent, avg_days_per_household, avg_amount_per_household,
+     data_source, created_at)
+    SELECT district_code, month_year, total_households, total_person_days,
+     total_amount_spent, avg_days_per_household, avg_amount_per_household,
+     'legacy', created_at
+    FROM performance_data
+    WHERE district_code IS NOT NULL AND month_year IS NOT NULL`);
+
+  const ingested = await all(db, 'SELECT record FROM ingested_records');
+  const placeholders = COLUMNS.map(() => '?').join(', ');
+  for (const row of ingested) {
+    const record = JSON.parse(row.record);
+    await run(db,
+      `INSERT OR REPLACE INTO performance_data_v2 (${COLUMNS.join(', ')}, fetched_at)
+       VALUES (${placeholders}, ?)`,
+      [...COLUMNS.map(column => record[column] ?? null), record.last_updated]
+    );
+  }
+
+  await run(db, 'DROP TABLE performance_data');
+  await run(db, 'ALTER TABLE performance_data_v2 RENAME TO performance_data');
+  await run(db, 'DROP TABLE ingested_records');
+  await run(db, 'CREATE INDEX idx_performance_month ON performance_data (month_year)');
+}
+
+module.exports = { up };
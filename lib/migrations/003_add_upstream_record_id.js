@@ -0,0 +1,8 @@
+const { run } = require('../database');
+
+// Identifies the data.gov.in row a stored record came from
+async function up(db) {
+  await run(db, 'ALTER TABLE performance_data ADD COLUMN upstream_record_id TEXT');
+}
+
+module.exports = { up };
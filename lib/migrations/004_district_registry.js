@@ -0,0 +1,34 @@
+const { run } = require('../database');
+
+// District registry: LGD codes, upstream name aliases, old/new district
+// lineage, and a review queue for upstream names that matched nothing
+async function up(db) {
+  await run(db, 'ALTER TABLE districts ADD COLUMN lgd_code INTEGER');
+  await run(db, 'ALTER TABLE districts ADD COLUMN formed_on TEXT');
+
+  await run(db, `CREATE TABLE district_aliases (
+    alias TEXT PRIMARY KEY,
+    district_code TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  await run(db, `CREATE TABLE district_lineage (
+    parent_code TEXT NOT NULL,
+    child_code TEXT NOT NULL,
+    effective_from TEXT,
+    UNIQUE(parent_code, child_code)
+  )`);
+
+  await run(db, `CREATE TABLE district_name_reviews (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    upstream_name TEXT UNIQUE,
+    normalized_name TEXT,
+    occurrences INTEGER DEFAULT 1,
+    last_month_year TEXT,
+    resolved_code TEXT,
+    first_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_seen DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+}
+
+module.exports = { up };
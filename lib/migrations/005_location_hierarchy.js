@@ -0,0 +1,55 @@
+const { run } = require('../database');
+
+// Sub-district hierarchy (district → mandal → gram panchayat) and the
+// metrics imported for it from offline data drops
+async function up(db) {
+  await run(db, `CREATE TABLE mandals (
+    mandal_code TEXT PRIMARY KEY,
+    district_code TEXT NOT NULL,
+    mandal_name TEXT NOT NULL,
+    lgd_code INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  await run(db, `CREATE TABLE gram_panchayats (
+    gp_code TEXT PRIMARY KEY,
+    mandal_code TEXT NOT NULL,
+    gp_name TEXT NOT NULL,
+    lgd_code INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  // level is 'mandal' or 'gp'; area_code is the matching mandal_code or gp_code
+  await run(db, `CREATE TABLE area_performance (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    level TEXT NOT NULL,
+    area_code TEXT NOT NULL,
+    month_year TEXT NOT NULL,
+    total_households INTEGER,
+    total_person_days INTEGER,
+    total_amount_spent REAL,
+    avg_days_per_household REAL,
+    avg_amount_per_household REAL,
+    women_persondays INTEGER,
+    completed_works INTEGER,
+    ongoing_works INTEGER,
+    data_source TEXT,
+    source_file TEXT,
+    imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(level, area_code, month_year)
+  )`);
+
+  await run(db, `CREATE TABLE local_data_imports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_name TEXT NOT NULL,
+    checksum TEXT UNIQUE,
+    rows_imported INTEGER,
+    rows_rejected INTEGER,
+    imported_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  await run(db, 'CREATE INDEX idx_mandals_district ON mandals(district_code)');
+  await run(db, 'CREATE INDEX idx_gram_panchayats_mandal ON gram_panchayats(mandal_code)');
+}
+
+module.exports = { up };
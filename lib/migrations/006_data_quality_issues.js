@@ -0,0 +1,23 @@
+const { run } = require('../database');
+
+// Problems found in ingested district months. One row per rule and metric;
+// re-ingesting a month replaces that month's rows.
+async function up(db) {
+  await run(db, `CREATE TABLE data_quality_issues (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    district_code TEXT NOT NULL,
+    month_year TEXT NOT NULL,
+    rule TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    value REAL,
+    expected REAL,
+    message TEXT NOT NULL,
+    detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(district_code, month_year, rule, metric)
+  )`);
+
+  await run(db, 'CREATE INDEX idx_data_quality_month ON data_quality_issues(month_year)');
+}
+
+module.exports = { up };
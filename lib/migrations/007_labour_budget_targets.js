@@ -0,0 +1,27 @@
+const { run } = require('../database');
+
+// Approved labour budget targets per district and financial year, with the
+// optional month-wise person-day phasing. Re-uploading a district's year
+// replaces its targets and phasing.
+async function up(db) {
+  await run(db, `CREATE TABLE labour_budget_targets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    district_code TEXT NOT NULL,
+    financial_year TEXT NOT NULL,
+    person_days_target INTEGER NOT NULL,
+    households_target INTEGER,
+    source TEXT,
+    uploaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(district_code, financial_year)
+  )`);
+
+  await run(db, `CREATE TABLE labour_budget_phasing (
+    district_code TEXT NOT NULL,
+    financial_year TEXT NOT NULL,
+    month_year TEXT NOT NULL,
+    person_days_target INTEGER NOT NULL,
+    PRIMARY KEY (district_code, month_year)
+  )`);
+}
+
+module.exports = { up };
@@ -0,0 +1,43 @@
+const { run } = require('../database');
+
+// Threshold alert rules, each delivered through one notification channel,
+// and the alerts they fired. A rule fires at most once per district month;
+// failed deliveries keep their row and are retried on the next evaluation.
+async function up(db) {
+  await run(db, `CREATE TABLE alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT,
+    metric TEXT NOT NULL,
+    district_code TEXT,
+    comparator TEXT NOT NULL,
+    threshold REAL NOT NULL,
+    channel TEXT NOT NULL,
+    recipient TEXT,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  await run(db, `CREATE TABLE alert_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id INTEGER NOT NULL,
+    district_code TEXT NOT NULL,
+    month_year TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    value REAL,
+    previous_value REAL,
+    comparator TEXT NOT NULL,
+    threshold REAL NOT NULL,
+    message TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    recipient TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    fired_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(rule_id, district_code, month_year)
+  )`);
+
+  await run(db, 'CREATE INDEX idx_alert_history_fired ON alert_history(fired_at)');
+}
+
+module.exports = { up };
@@ -0,0 +1,10 @@
+const { run } = require('../database');
+
+// Drop files that could not be read are recorded with their error, so an
+// unchanged broken file is skipped instead of failing every scheduled scan
+async function up(db) {
+  await run(db, "ALTER TABLE local_data_imports ADD COLUMN status TEXT NOT NULL DEFAULT 'imported'");
+  await run(db, 'ALTER TABLE local_data_imports ADD COLUMN error TEXT');
+}
+
+module.exports = { up };
@@ -0,0 +1,40 @@
+const fs = require('fs');
+const path = require('path');
+const { run, all, transaction } = require('../database');
+
+// Migration files are named NNN_description.js and export `up(db)`
+function loadMigrations() {
+  return fs.readdirSync(__dirname)
+    .filter(file => /^\d{3}_.+\.js$/.test(file))
+    .sort()
+    .map(file => ({
+      version: parseInt(file.slice(0, 3), 10),
+      name: file.replace(/\.js$/, ''),
+      up: require(path.join(__dirname, file)).up
+    }));
+}
+
+async function migrate(db) {
+  await run(db, `CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    name TEXT,
+    applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  const applied = new Set(
+    (await all(db, 'SELECT version FROM schema_version')).map(row => row.version)
+  );
+  const pending = loadMigrations().filter(migration => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    await transaction(db, async () => {
+      await migration.up(db);
+      await run(db, 'INSERT INTO schema_version (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+    });
+    console.log(`Applied migration ${migration.name}`);
+  }
+
+  return pending.map(migration => migration.name);
+}
+
+module.exports = { migrate };
@@ -0,0 +1,64 @@
+const { addMonths, fyMonthsToDate, fyStart, toFinYear } = require('./fiscalCalendar');
+
+// Mock works are simulated forward from this month, so any two mock months
+// of a district agree with each other
+const MOCK_WORKS_START = '2015-04';
+
+// Deterministic pseudo-random integers in [min, max]: the same key always
+// gives the same sequence, and each call moves on to the next number.
+// FNV-1a hash of the key seeds a mulberry32 generator.
+function seededRandom(key) {
+  let state = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    state = Math.imul(state ^ key.charCodeAt(i), 16777619);
+  }
+
+  return (min, max) => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    const fraction = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return min + Math.floor(fraction * (max - min + 1));
+  };
+}
+
+// Completed works (counted from the start of the financial year, as upstream
+// reports them) and ongoing works at the end of a mock month. Each month some
+// new works start and a share of the backlog is finished.
+function mockWorks(districtCode, monthYear) {
+  let ongoing = seededRandom(`${districtCode}:works`)(150, 300);
+  let completed = 0;
+
+  for (let month = MOCK_WORKS_START; month <= monthYear; month = addMonths(month, 1)) {
+    const random = seededRandom(`${districtCode}:${month}:works`);
+    if (month === fyStart(toFinYear(month))) completed = 0;
+    const finished = Math.floor((ongoing * random(8, 15)) / 100);
+    const started = random(20, 60);
+    completed += finished;
+    ongoing += started - finished;
+  }
+
+  return { completed_works: completed, ongoing_works: ongoing };
+}
+
+// Running totals for the financial year up to a mock month, built up from
+// April the way upstream reports them. Each month some households work a few
+// days at that month's wage rate, and a share of them are working for the
+// first time this year.
+function mockTotals(districtCode, monthYear) {
+  const totals = { households: 0, personDays: 0, amount: 0, months: 0 };
+
+  fyMonthsToDate(monthYear).forEach((month, index) => {
+    const random = seededRandom(`${districtCode}:${month}:totals`);
+    const working = random(15000, 45000);
+    const personDays = working * random(8, 14);
+    totals.households += index === 0 ? working : Math.floor((working * random(5, 12)) / 100);
+    totals.personDays += personDays;
+    totals.amount += personDays * random(200, 250);
+    totals.months = index + 1;
+  });
+
+  return totals;
+}
+
+module.exports = { seededRandom, mockWorks, mockTotals };
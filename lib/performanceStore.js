@@ -0,0 +1,89 @@
+const { run, get, all } = require('./database');
+const { OFFICIAL_SOURCE } = require('./figures');
+
+// Typed performance_data columns, in the shape normalizeRecord produces
+const PERFORMANCE_COLUMNS = [
+  'district_code', 'month_year', 'financial_year', 'month',
+  'total_households', 'total_person_days', 'total_amount_spent',
+  'avg_days_per_household', 'avg_amount_per_household', 'performance_score',
+  'average_wage_rate', 'women_persondays', 'sc_persondays', 'st_persondays',
+  'completed_works', 'ongoing_works', 'total_individuals_worked', 'total_job_cards',
+  'households_100_days', 'differently_abled_worked', 'payment_within_15_days',
+  'data_source', 'upstream_record_id'
+];
+
+const SELECT_RECORD = `SELECT p.*, d.district_name
+  FROM performance_data p
+  LEFT JOIN districts d ON d.district_code = p.district_code`;
+
+// Where a record's numbers came from; attached to every API response
+function provenanceOf(record) {
+  return {
+    source: record.data_source || 'unknown',
+    fetched_at: record.last_updated || null,
+    record_id: record.upstream_record_id || null
+  };
+}
+
+// Maps a performance_data row back to the API record shape
+function toRecord(row) {
+  if (!row) return null;
+  const { id, created_at, fetched_at, ...fields } = row;
+  return { ...fields, last_updated: fetched_at || created_at };
+}
+
+class PerformanceStore {
+  constructor({ db }) {
+    this.db = db;
+  }
+
+  async save(record) {
+    const placeholders = PERFORMANCE_COLUMNS.map(() => '?').join(', ');
+    await run(this.db,
+      `INSERT OR REPLACE INTO performance_data (${PERFORMANCE_COLUMNS.join(', ')}, fetched_at)
+       VALUES (${placeholders}, ?)`,
+      [...PERFORMANCE_COLUMNS.map(column => record[column] ?? null), record.last_updated]
+    );
+  }
+
+  async get(districtCode, monthYear) {
+    const row = await get(this.db,
+      `${SELECT_RECORD} WHERE p.district_code = ? AND p.month_year = ?`,
+      [districtCode, monthYear]
+    );
+    return toRecord(row);
+  }
+
+  async getForDistricts(districtCodes, monthYear) {
+    const placeholders = districtCodes.map(() => '?').join(',');
+    const rows = await all(this.db,
+      `${SELECT_RECORD} WHERE p.district_code IN (${placeholders}) AND p.month_year = ?`,
+      [...districtCodes, monthYear]
+    );
+    return rows.map(toRecord);
+  }
+
+  // Every stored row of a known district for the month; with `officialOnly`
+  // (strict mode) only rows fetched from data.gov.in
+  async getMonth(monthYear, { officialOnly = false } = {}) {
+    const rows = await all(this.db,
+      `${SELECT_RECORD} WHERE p.month_year = ? AND d.district_code IS NOT NULL
+       ${officialOnly ? 'AND p.data_source = ?' : ''}
+       ORDER BY p.district_code`,
+      officialOnly ? [monthYear, OFFICIAL_SOURCE] : [monthYear]
+    );
+    return rows.map(toRecord);
+  }
+
+  async getSeries(districtCode, monthYears) {
+    const placeholders = monthYears.map(() => '?').join(',');
+    const rows = await all(this.db,
+      `${SELECT_RECORD} WHERE p.district_code = ? AND p.month_year IN (${placeholders})
+       ORDER BY p.month_year`,
+      [districtCode, ...monthYears]
+    );
+    return rows.map(toRecord);
+  }
+}
+
+module.exports = { PerformanceStore, PERFORMANCE_COLUMNS, provenanceOf };
@@ -0,0 +1,103 @@
+const { addMonths } = require('./fiscalCalendar');
+const { isNumber } = require('./figures');
+
+// Metrics a league table can be ordered by; higher is better for all of them
+const RANKABLE_METRICS = [
+  'performance_score',
+  'total_households',
+  'total_person_days',
+  'total_amount_spent',
+  'avg_days_per_household',
+  'average_wage_rate',
+  'households_100_days',
+  'payment_within_15_days'
+];
+
+// Standard competition ranking (1, 2, 2, 4) of the rows that have a value.
+// Percentile is the share of other ranked districts this one beats or ties.
+function rankRows(rows, metric) {
+  const ranked = rows
+    .filter(row => isNumber(row[metric]))
+    .sort((a, b) => b[metric] - a[metric]);
+
+  const total = ranked.length;
+  return ranked.map(row => {
+    const below = ranked.filter(other => other[metric] < row[metric]).length;
+    const tied = ranked.filter(other => other[metric] === row[metric]).length - 1;
+    const rank = ranked.findIndex(other => other[metric] === row[metric]) + 1;
+    return {
+      district_code: row.district_code,
+      rank,
+      value: row[metric],
+      percentile: total > 1 ? Math.round(((below + tied) / (total - 1)) * 1000) / 10 : 100
+    };
+  });
+}
+
+// League tables computed from stored rows. At most one statewide ingestion
+// (throttled) runs per month; districts are never fetched one by one.
+class RankingService {
+  constructor({ store, service, registry, ingestion = null }) {
+    this.store = store;
+    this.service = service;
+    this.registry = registry;
+    this.ingestion = ingestion;
+  }
+
+  // Stored rows for a month, rescored with the current config
+  async monthRows(monthYear, { strict }) {
+    return (await this.store.getMonth(monthYear, { officialOnly: strict })).map(row => this.service.scoreRecord(row));
+  }
+
+  async getRankings(monthYear, metric, { strict = false } = {}) {
+    if (this.ingestion) await this.ingestion.refreshMonth(monthYear);
+
+    const current = await this.monthRows(monthYear, { strict });
+    const previous = await this.monthRows(addMonths(monthYear, -1), { strict });
+
+    const currentRanks = new Map(rankRows(current, metric).map(entry => [entry.district_code, entry]));
+    const previousRanks = new Map(rankRows(previous, metric).map(entry => [entry.district_code, entry]));
+    const sources = new Map(current.map(row => [row.district_code, row.data_source]));
+
+    const values = [...currentRanks.values()].map(entry => entry.value);
+    const stateAverage = values.length > 0
+      ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+      : null;
+
+    const rankings = this.registry.activeIn(monthYear).map(district => {
+      const entry = currentRanks.get(district.code);
+      const previousRank = previousRanks.get(district.code)?.rank ?? null;
+      return {
+        rank: entry ? entry.rank : null,
+        district_code: district.code,
+        district_name: district.name,
+        value: entry ? entry.value : null,
+        percentile: entry ? entry.percentile : null,
+        previous_rank: previousRank,
+        // Positive when the district moved up the table
+        rank_change: entry && previousRank !== null ? previousRank - entry.rank : null,
+        data_source: sources.get(district.code) || 'missing'
+      };
+    });
+
+    // Ranked districts first, unranked ones alphabetically at the bottom
+    rankings.sort((a, b) => {
+      if (a.rank === null || b.rank === null) {
+        return a.rank === null && b.rank === null
+          ? a.district_name.localeCompare(b.district_name)
+          : a.rank === null ? 1 : -1;
+      }
+      return a.rank - b.rank || a.district_name.localeCompare(b.district_name);
+    });
+
+    return {
+      month_year: monthYear,
+      metric,
+      state_average: stateAverage,
+      districts_ranked: currentRanks.size,
+      rankings
+    };
+  }
+}
+
+module.exports = { RankingService, rankRows, RANKABLE_METRICS };
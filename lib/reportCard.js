@@ -0,0 +1,82 @@
+const moment = require('moment');
+const { REPORT_LABELS } = require('./reportLabels');
+const { OFFICIAL_SOURCE, isNumber } = require('./figures');
+
+// Compact Indian-style figures (K / L / Cr), as on the dashboard cards.
+// "Rs" rather than the rupee sign, which the standard PDF fonts lack.
+function formatNumber(value) {
+  if (!isNumber(value)) return '—';
+  if (value >= 10000000) return `${(value / 10000000).toFixed(1)} Cr`;
+  if (value >= 100000) return `${(value / 100000).toFixed(1)} L`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)} K`;
+  return String(Math.round(value * 100) / 100);
+}
+
+// Spend is stored in crores
+function formatCrores(value) {
+  if (!isNumber(value)) return '—';
+  return value >= 1 ? `Rs ${value.toFixed(1)} Cr` : `Rs ${(value * 100).toFixed(1)} L`;
+}
+
+// Everything the one-page district report shows, with labels already in
+// the requested language; rendering is left to lib/reportPdf
+class ReportCardService {
+  constructor({ data, rankings, registry }) {
+    this.data = data;
+    this.rankings = rankings;
+    this.registry = registry;
+  }
+
+  // Resolves to null when the district has no data for the month (strict mode)
+  async build(districtCode, monthYear, { lang = 'en', strict = false } = {}) {
+    const labels = REPORT_LABELS[lang] || REPORT_LABELS.en;
+    const district = this.registry.get(districtCode);
+    const current = await this.data.getDistrictMonth(districtCode, monthYear, { strict });
+    if (!district || !current) return null;
+
+    const history = await this.data.getDistrictHistory(districtCode, 12, { strict, endMonth: monthYear });
+    const table = await this.rankings.getRankings(monthYear, 'performance_score', { strict });
+    const ranking = table.rankings.find(row => row.district_code === districtCode);
+
+    const label = (key, fallback) => labels[key] || fallback;
+    const source = current.provenance ? current.provenance.source : current.data_source;
+
+    return {
+      lang,
+      labels,
+      district: { code: district.code, name: district.name },
+      month_year: monthYear,
+      month_label: moment(monthYear, 'YYYY-MM').locale(lang).format('MMMM YYYY'),
+      metrics: [
+        { label: labels.totalHouseholds, description: labels.familiesBenefited, value: formatNumber(current.total_households) },
+        { label: labels.personDays, description: labels.workDaysCreated, value: formatNumber(current.total_person_days) },
+        { label: labels.amountSpent, description: labels.totalExpenditure, value: formatCrores(current.total_amount_spent) },
+        { label: labels.avgDaysPerHousehold, description: labels.workDaysPerFamily, value: formatNumber(current.avg_days_per_household) }
+      ],
+      performance_score: isNumber(current.performance_score) ? current.performance_score : null,
+      rank: ranking && ranking.rank !== null
+        ? { rank: ranking.rank, of: table.districts_ranked, percentile: ranking.percentile, state_average: table.state_average }
+        : null,
+      history: history.map(row => ({
+        month_year: row.month_year,
+        label: moment(row.month_year, 'YYYY-MM').locale(lang).format('MMM'),
+        value: isNumber(row.total_person_days) ? row.total_person_days : null,
+        display: formatNumber(row.total_person_days),
+        official: row.data_source === OFFICIAL_SOURCE
+      })),
+      breakdown: (current.score_breakdown || []).map(component => ({
+        label: label(`score_${component.id}`, component.label),
+        weight: component.weight,
+        score: component.score,
+        points: component.points,
+        available: component.available
+      })),
+      official: source === OFFICIAL_SOURCE,
+      source,
+      fetched_at: current.provenance ? current.provenance.fetched_at : null,
+      generated_at: new Date().toISOString()
+    };
+  }
+}
+
+module.exports = { ReportCardService, formatNumber, formatCrores };
@@ -0,0 +1,16 @@
+const fs = require('fs');
+const path = require('path');
+
+// Strings for the printable report card come from the dashboard's catalogues,
+// so both read alike; strings only the report uses are the report* keys.
+const LOCALES_DIR = path.join(__dirname, '..', 'client', 'src', 'locales');
+
+// Languages the PDF can set: English in the built-in fonts, Telugu in the
+// bundled Hind Guntur
+const REPORT_LANGUAGES = ['en', 'te'];
+
+const loadCatalogue = (lang) => JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${lang}.json`), 'utf8'));
+
+const REPORT_LABELS = Object.fromEntries(REPORT_LANGUAGES.map(lang => [lang, loadCatalogue(lang)]));
+
+module.exports = { REPORT_LABELS, REPORT_LANGUAGES };
@@ -0,0 +1,235 @@
+const fs = require('fs');
+const path = require('path');
+const PDFDocument = require('pdfkit');
+
+// Hind Guntur (SIL Open Font License, assets/fonts/OFL.txt). pdfkit shapes
+// Telugu conjuncts with the font's own tables, so no system fonts or external
+// service are used. Noto Sans Telugu 2.x can't be used: its mark-to-base
+// tables have empty anchors that pdfkit's shaper (fontkit) fails on.
+const DEFAULT_TELUGU_FONT = path.join(__dirname, '..', 'assets', 'fonts', 'HindGuntur-Regular.ttf');
+
+const PAGE = { width: 595.28, height: 841.89, margin: 40 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+
+const COLORS = {
+  text: '#202124',
+  muted: '#5f6368',
+  border: '#dadce0',
+  card: '#f8f9fa',
+  bar: '#1a73e8',
+  unofficial: '#bdc1c6',
+  good: '#10B981',
+  fair: '#F59E0B',
+  poor: '#EF4444'
+};
+
+const TELUGU = /[\u0C00-\u0C7F]+/g;
+
+const scoreColor = (score) => (score >= 80 ? COLORS.good : score >= 60 ? COLORS.fair : COLORS.poor);
+
+// Splits text into Telugu and non-Telugu runs so Latin digits and names use
+// Helvetica while Telugu uses the bundled font
+function scriptRuns(text) {
+  const runs = [];
+  let last = 0;
+  for (const match of text.matchAll(TELUGU)) {
+    if (match.index > last) runs.push({ telugu: false, text: text.slice(last, match.index) });
+    runs.push({ telugu: true, text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ telugu: false, text: text.slice(last) });
+  return runs;
+}
+
+class ReportPdfRenderer {
+  constructor({ teluguFont = DEFAULT_TELUGU_FONT } = {}) {
+    this.teluguFont = teluguFont;
+  }
+
+  hasTeluguFont() {
+    return fs.existsSync(this.teluguFont);
+  }
+
+  // Renders a ReportCardService model to a PDF buffer
+  render(report) {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE.margin,
+        info: {
+          Title: `${report.labels.reportTitle} – ${report.district.name} – ${report.month_year}`,
+          Author: 'MGNREGA District Tracker'
+        }
+      });
+      const chunks = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      if (report.lang === 'te') {
+        doc.registerFont('Telugu', this.teluguFont);
+      }
+
+      let y = this.header(doc, report, PAGE.margin);
+      y = this.metricCards(doc, report, y + 16);
+      y = this.scoreAndRank(doc, report, y + 14);
+      y = this.historyChart(doc, report, y + 20);
+      this.breakdown(doc, report, y + 20);
+      this.footer(doc, report);
+
+      doc.end();
+    });
+  }
+
+  // Writes mixed-script text at (x, y), switching fonts between runs
+  write(doc, text, x, y, { size = 10, color = COLORS.text, bold = false, width, align = 'left' } = {}) {
+    const runs = scriptRuns(String(text));
+    doc.fontSize(size).fillColor(color);
+    runs.forEach((run, i) => {
+      doc.font(run.telugu ? 'Telugu' : bold ? 'Helvetica-Bold' : 'Helvetica');
+      const options = { continued: i < runs.length - 1, lineBreak: false, width, align };
+      if (i === 0) {
+        doc.text(run.text, x, y, options);
+      } else {
+        doc.text(run.text, options);
+      }
+    });
+  }
+
+  header(doc, report, y) {
+    const { labels } = report;
+    this.write(doc, labels.reportTitle, PAGE.margin, y, { size: 18, bold: true });
+    this.write(doc, `${report.district.name} · ${labels.subtitle}`, PAGE.margin, y + 26, { size: 13 });
+    this.write(doc, report.month_label, PAGE.margin, y + 26, { size: 13, width: CONTENT_WIDTH, align: 'right' });
+
+    if (!report.official) {
+      this.write(doc, labels.unofficialData, PAGE.margin, y + 46, { size: 9, color: COLORS.poor });
+    }
+
+    const bottom = y + 62;
+    doc.moveTo(PAGE.margin, bottom).lineTo(PAGE.width - PAGE.margin, bottom).lineWidth(1).strokeColor(COLORS.border).stroke();
+    return bottom;
+  }
+
+  metricCards(doc, report, y) {
+    const gap = 10;
+    const width = (CONTENT_WIDTH - gap * 3) / 4;
+    const height = 70;
+
+    report.metrics.forEach((metric, i) => {
+      const x = PAGE.margin + i * (width + gap);
+      doc.roundedRect(x, y, width, height, 6).fillAndStroke(COLORS.card, COLORS.border);
+      this.write(doc, metric.value, x + 10, y + 10, { size: 16, bold: true });
+      this.write(doc, metric.label, x + 10, y + 34, { size: 9 });
+      this.write(doc, metric.description, x + 10, y + 50, { size: 8, color: COLORS.muted });
+    });
+
+    return y + height;
+  }
+
+  scoreAndRank(doc, report, y) {
+    const { labels } = report;
+    const height = 50;
+    const half = (CONTENT_WIDTH - 10) / 2;
+
+    doc.roundedRect(PAGE.margin, y, half, height, 6).fillAndStroke(COLORS.card, COLORS.border);
+    this.write(doc, labels.performanceScore, PAGE.margin + 10, y + 8, { size: 9, color: COLORS.muted });
+    if (report.performance_score === null) {
+      this.write(doc, labels.notAvailable, PAGE.margin + 10, y + 24, { size: 16, bold: true });
+    } else {
+      this.write(doc, `${Math.round(report.performance_score)}/100`, PAGE.margin + 10, y + 22, {
+        size: 20, bold: true, color: scoreColor(report.performance_score)
+      });
+    }
+
+    const x = PAGE.margin + half + 10;
+    doc.roundedRect(x, y, half, height, 6).fillAndStroke(COLORS.card, COLORS.border);
+    this.write(doc, labels.reportRankAmongDistricts, x + 10, y + 8, { size: 9, color: COLORS.muted });
+    if (report.rank) {
+      this.write(doc, `#${report.rank.rank} ${labels.reportRankOf} ${report.rank.of}`, x + 10, y + 22, { size: 20, bold: true });
+      if (report.rank.state_average !== null) {
+        this.write(doc, `${labels.stateAverage}: ${Math.round(report.rank.state_average)}/100`, x + 10, y + 24, {
+          size: 9, color: COLORS.muted, width: half - 20, align: 'right'
+        });
+      }
+    } else {
+      this.write(doc, labels.notAvailable, x + 10, y + 24, { size: 16, bold: true });
+    }
+
+    return y + height;
+  }
+
+  // Bars for the 12 months up to the report month; gaps where there is no data
+  historyChart(doc, report, y) {
+    const { labels } = report;
+    this.write(doc, labels.reportLast12Months, PAGE.margin, y, { size: 12, bold: true });
+
+    const top = y + 22;
+    const chartHeight = 150;
+    const baseline = top + chartHeight;
+    const slot = CONTENT_WIDTH / Math.max(report.history.length, 1);
+    const max = Math.max(...report.history.map(month => month.value || 0), 1);
+
+    doc.moveTo(PAGE.margin, baseline).lineTo(PAGE.width - PAGE.margin, baseline).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+
+    report.history.forEach((month, i) => {
+      const x = PAGE.margin + i * slot;
+      if (month.value !== null) {
+        const height = Math.max((month.value / max) * (chartHeight - 16), 1);
+        doc.rect(x + slot * 0.2, baseline - height, slot * 0.6, height).fill(month.official ? COLORS.bar : COLORS.unofficial);
+        this.write(doc, month.display, x, baseline - height - 11, { size: 7, color: COLORS.muted, width: slot, align: 'center' });
+      } else {
+        this.write(doc, '—', x, baseline - 12, { size: 8, color: COLORS.muted, width: slot, align: 'center' });
+      }
+      this.write(doc, month.label, x, baseline + 4, { size: 8, color: COLORS.muted, width: slot, align: 'center' });
+    });
+
+    if (report.history.some(month => month.value !== null && !month.official)) {
+      this.write(doc, labels.reportNotOfficialMonths, PAGE.margin, baseline + 18, { size: 8, color: COLORS.muted });
+    }
+
+    return baseline + 30;
+  }
+
+  breakdown(doc, report, y) {
+    const { labels } = report;
+    if (report.breakdown.length === 0) return y;
+
+    this.write(doc, labels.whyThisScore, PAGE.margin, y, { size: 12, bold: true });
+
+    const columns = [
+      { x: PAGE.margin, width: 260 },
+      { x: PAGE.margin + 270, width: 70, align: 'right' },
+      { x: PAGE.margin + 350, width: 70, align: 'right' },
+      { x: PAGE.margin + 430, width: CONTENT_WIDTH - 430, align: 'right' }
+    ];
+    const row = (cells, rowY, options = {}) => cells.forEach((cell, i) => {
+      this.write(doc, cell, columns[i].x, rowY, { size: 9, width: columns[i].width, align: columns[i].align, ...options });
+    });
+
+    let rowY = y + 22;
+    row(['', labels.weight, labels.componentScore, labels.reportPoints], rowY, { color: COLORS.muted });
+    report.breakdown.forEach(component => {
+      rowY += 18;
+      doc.moveTo(PAGE.margin, rowY - 5).lineTo(PAGE.width - PAGE.margin, rowY - 5).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      row([
+        component.label,
+        `${component.weight}%`,
+        component.available ? `${component.score}/100` : labels.notAvailable,
+        component.available ? `+${component.points}` : '—'
+      ], rowY, { color: component.available ? COLORS.text : COLORS.muted });
+    });
+
+    return rowY + 18;
+  }
+
+  footer(doc, report) {
+    const { labels } = report;
+    const y = PAGE.height - PAGE.margin - 24;
+    const source = report.official ? labels.officialGovernmentData : labels.unofficialData;
+    this.write(doc, `${labels.dataSource}: ${source} (${report.source})`, PAGE.margin, y, { size: 8, color: COLORS.muted });
+    this.write(doc, `${labels.reportGeneratedOn}: ${report.generated_at.slice(0, 10)}`, PAGE.margin, y + 12, { size: 8, color: COLORS.muted });
+  }
+}
+
+module.exports = { ReportPdfRenderer, scriptRuns, DEFAULT_TELUGU_FONT };
@@ -0,0 +1,33 @@
+const { fyStart, toFinYear } = require('./fiscalCalendar');
+const { isNumber } = require('./figures');
+
+// Metrics upstream reports as running totals from the start of the financial
+// year. They only fall when April restarts the count, and their FY-to-date
+// figure is the latest total.
+const RUNNING_METRICS = [
+  'total_households',
+  'total_person_days',
+  'total_amount_spent',
+  'women_persondays',
+  'sc_persondays',
+  'st_persondays',
+  'completed_works',
+  'total_individuals_worked',
+  'households_100_days',
+  'differently_abled_worked'
+];
+
+const isRunning = (metric) => RUNNING_METRICS.includes(metric);
+
+const isFyStart = (monthYear) => monthYear === fyStart(toFinYear(monthYear));
+
+// A metric's figure for the month itself: for a running total the rise on the
+// month before (the whole total in April, which is never compared with March)
+// and null without the month before; any other metric as reported
+function monthFigure(metric, monthYear, value, previousValue) {
+  if (!isNumber(value)) return null;
+  if (!isRunning(metric) || isFyStart(monthYear)) return value;
+  return isNumber(previousValue) ? value - previousValue : null;
+}
+
+module.exports = { RUNNING_METRICS, isRunning, isFyStart, monthFigure };
@@ -0,0 +1,94 @@
+const fs = require('fs');
+const path = require('path');
+const { isNumber } = require('./figures');
+
+const DEFAULT_CONFIG_PATH = path.join(__dirname, '..', 'config', 'scoring.json');
+
+const ratio = (part, whole) => (isNumber(part) && isNumber(whole) && whole > 0 ? part / whole : null);
+
+// Metrics the scoring config can refer to, derived from a performance record
+function deriveMetrics(record) {
+  const households = record.total_households;
+  const personDays = record.total_person_days;
+  const scStDays = isNumber(record.sc_persondays) && isNumber(record.st_persondays)
+    ? record.sc_persondays + record.st_persondays
+    : null;
+  const worksTakenUp = isNumber(record.completed_works) && isNumber(record.ongoing_works)
+    ? record.completed_works + record.ongoing_works
+    : null;
+
+  return {
+    total_households: households,
+    total_person_days: personDays,
+    avg_days_per_household: isNumber(record.avg_days_per_household) && record.avg_days_per_household > 0
+      ? record.avg_days_per_household
+      : ratio(personDays, households),
+    average_wage_rate: record.average_wage_rate,
+    women_share: ratio(record.women_persondays, personDays),
+    sc_st_share: ratio(scStDays, personDays),
+    works_completion_rate: ratio(record.completed_works, worksTakenUp),
+    payment_within_15_days: record.payment_within_15_days
+  };
+}
+
+function scoreComponent(component, value) {
+  if (component.type === 'bands') {
+    const band = component.bands.find(b => value > b.min);
+    return band ? band.score : 0;
+  }
+  if (component.type === 'target') {
+    return Math.max(0, Math.min(value / component.target, 1));
+  }
+  throw new Error(`Unknown scoring component type: ${component.type}`);
+}
+
+// Scores records against a weighted component config
+class ScoringEngine {
+  constructor(config) {
+    if (!config || !Array.isArray(config.components) || config.components.length === 0) {
+      throw new Error('Scoring config must define at least one component');
+    }
+    this.config = config;
+  }
+
+  static fromFile(configPath = DEFAULT_CONFIG_PATH) {
+    return new ScoringEngine(JSON.parse(fs.readFileSync(configPath, 'utf8')));
+  }
+
+  score(record) {
+    const metrics = deriveMetrics(record);
+    const breakdown = this.config.components.map(component => {
+      const value = metrics[component.metric];
+      const available = isNumber(value) && value >= 0;
+      return {
+        id: component.id,
+        label: component.label,
+        metric: component.metric,
+        weight: component.weight,
+        value: available ? Math.round(value * 10000) / 10000 : null,
+        available,
+        score: available ? Math.round(scoreComponent(component, value) * 100) : null,
+        points: 0
+      };
+    });
+
+    const availableWeight = breakdown
+      .filter(item => item.available)
+      .reduce((sum, item) => sum + item.weight, 0);
+
+    // Each component's share of the 100-point total after renormalising weights
+    breakdown.forEach(item => {
+      if (item.available && availableWeight > 0) {
+        item.points = Math.round((item.score * item.weight / availableWeight) * 10) / 10;
+      }
+    });
+
+    const score = availableWeight > 0
+      ? Math.round(breakdown.reduce((sum, item) => sum + (item.available ? item.score * item.weight : 0), 0) / availableWeight)
+      : null;
+
+    return { score, breakdown, config_version: this.config.version };
+  }
+}
+
+module.exports = { ScoringEngine, deriveMetrics, DEFAULT_CONFIG_PATH };
@@ -0,0 +1,224 @@
+const { run, all, get, transaction } = require('./database');
+const { MONTH_NAMES, fromUpstream, fyMonths, fyMonthsToDate, fyStart, toFinYear } = require('./fiscalCalendar');
+const { isNumber, round } = require('./figures');
+
+const percent = (part, whole) => (isNumber(part) && isNumber(whole) && whole > 0 ? round((part / whole) * 100) : null);
+
+const toNumber = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+// "2024-25" and "2024-2025" both become "2024-2025"; null if unreadable
+const normaliseFinYear = (value) => {
+  try {
+    return toFinYear(fyStart(String(value || '').trim()));
+  } catch (error) {
+    return null;
+  }
+};
+
+// Optional month-wise phasing columns, e.g. "apr" or "Apr"
+const phasingColumns = (record) => Object.keys(record)
+  .filter(key => MONTH_NAMES.some(name => name.toLowerCase() === key.trim().toLowerCase()))
+  .filter(key => record[key] !== '' && record[key] !== null && record[key] !== undefined);
+
+// Validates one uploaded row (CSV or JSON) into a target, or returns the
+// reason it was rejected
+function parseTarget(record, registry) {
+  const districtCode = registry.get(record.district_code)
+    ? record.district_code
+    : registry.resolve(record.district_name);
+  if (!districtCode) {
+    return { error: `unknown district ${record.district_code || record.district_name || '(blank)'}` };
+  }
+
+  const financialYear = normaliseFinYear(record.financial_year);
+  if (!financialYear) {
+    return { error: `invalid financial_year ${record.financial_year || '(blank)'}` };
+  }
+
+  const personDays = toNumber(record.person_days_target);
+  if (personDays === null || personDays <= 0) {
+    return { error: 'person_days_target must be a positive number' };
+  }
+  const households = toNumber(record.households_target);
+  if (households !== null && households <= 0) {
+    return { error: 'households_target must be a positive number' };
+  }
+
+  const phasing = [];
+  for (const column of phasingColumns(record)) {
+    const value = toNumber(record[column]);
+    if (value === null || value < 0) {
+      return { error: `${column} must be a number of person-days` };
+    }
+    phasing.push({ month_year: fromUpstream(financialYear, column.trim()), person_days_target: value });
+  }
+  if (phasing.length > 0 && phasing.length < 12) {
+    return { error: 'month-wise phasing needs all twelve months' };
+  }
+  phasing.sort((a, b) => a.month_year.localeCompare(b.month_year));
+
+  return {
+    target: {
+      district_code: districtCode,
+      financial_year: financialYear,
+      person_days_target: personDays,
+      households_target: households,
+      phasing
+    }
+  };
+}
+
+// Cumulative target for each month of the year: the approved phasing where
+// there is one, otherwise the annual target spread evenly over twelve months
+function cumulativeTargets(target) {
+  const months = fyMonths(target.financial_year);
+  const phased = new Map(target.phasing.map(entry => [entry.month_year, entry.person_days_target]));
+  let cumulative = 0;
+  return months.map((monthYear, i) => {
+    cumulative = target.phasing.length > 0
+      ? cumulative + (phased.get(monthYear) || 0)
+      : (target.person_days_target * (i + 1)) / 12;
+    return { month_year: monthYear, target_cumulative: Math.round(cumulative) };
+  });
+}
+
+// Approved labour budget targets and each district's achievement against them
+class TargetService {
+  constructor({ db, data, registry }) {
+    this.db = db;
+    this.data = data;
+    this.registry = registry;
+  }
+
+  // Stores every valid row, replacing the district's earlier targets for
+  // that year; invalid rows are reported and skipped
+  async import(records, { source = null } = {}) {
+    const targets = [];
+    const rejected = [];
+    records.forEach((record, index) => {
+      const { target, error } = parseTarget(record, this.registry);
+      if (error) rejected.push({ row: index + 1, reason: error });
+      else targets.push(target);
+    });
+
+    await transaction(this.db, async () => {
+      for (const target of targets) {
+        await run(this.db,
+          `INSERT INTO labour_budget_targets (district_code, financial_year, person_days_target, households_target, source)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(district_code, financial_year) DO UPDATE SET
+             person_days_target = excluded.person_days_target,
+             households_target = excluded.households_target,
+             source = excluded.source,
+             uploaded_at = CURRENT_TIMESTAMP`,
+          [target.district_code, target.financial_year, target.person_days_target, target.households_target, source]
+        );
+        await run(this.db,
+          'DELETE FROM labour_budget_phasing WHERE district_code = ? AND financial_year = ?',
+          [target.district_code, target.financial_year]
+        );
+        for (const entry of target.phasing) {
+          await run(this.db,
+            `INSERT INTO labour_budget_phasing (district_code, financial_year, month_year, person_days_target)
+             VALUES (?, ?, ?, ?)`,
+            [target.district_code, target.financial_year, entry.month_year, entry.person_days_target]
+          );
+        }
+      }
+    });
+
+    return { rows_imported: targets.length, rows_rejected: rejected.length, rejected };
+  }
+
+  async list({ financialYear = null, district = null } = {}) {
+    const filters = [];
+    const params = [];
+    if (financialYear) { filters.push('financial_year = ?'); params.push(financialYear); }
+    if (district) { filters.push('district_code = ?'); params.push(district); }
+
+    return all(this.db,
+      `SELECT district_code, financial_year, person_days_target, households_target, source, uploaded_at
+       FROM labour_budget_targets
+       ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
+       ORDER BY financial_year DESC, district_code`,
+      params
+    );
+  }
+
+  async get(districtCode, financialYear) {
+    const row = await get(this.db,
+      `SELECT district_code, financial_year, person_days_target, households_target, source, uploaded_at
+       FROM labour_budget_targets WHERE district_code = ? AND financial_year = ?`,
+      [districtCode, financialYear]
+    );
+    if (!row) return null;
+    const phasing = await all(this.db,
+      `SELECT month_year, person_days_target FROM labour_budget_phasing
+       WHERE district_code = ? AND financial_year = ? ORDER BY month_year`,
+      [districtCode, financialYear]
+    );
+    return { ...row, phasing };
+  }
+
+  // Achievement for the financial year up to `monthYear`. Upstream reports
+  // person-days and households worked as running totals from April, so the
+  // figures to date are the latest reported month's and the curve follows
+  // each month's total.
+  async getAchievement(districtCode, monthYear, { strict = false } = {}) {
+    const financialYear = toFinYear(monthYear);
+    const target = await this.get(districtCode, financialYear);
+
+    const actual = new Map();
+    for (const month of fyMonthsToDate(monthYear)) {
+      const record = await this.data.getDistrictMonth(districtCode, month, { strict });
+      if (record) actual.set(month, record);
+    }
+    const latest = (field) => {
+      const values = [...actual.values()].map(record => record[field]).filter(isNumber);
+      return values.length > 0 ? values[values.length - 1] : null;
+    };
+    const personDaysToDate = latest('total_person_days');
+    const householdsReached = latest('total_households');
+
+    const targetCurve = target ? cumulativeTargets(target) : fyMonths(financialYear).map(month => ({ month_year: month, target_cumulative: null }));
+    const curve = targetCurve.map(point => {
+      const value = point.month_year <= monthYear ? actual.get(point.month_year)?.total_person_days : null;
+      return { ...point, actual_cumulative: isNumber(value) ? round(value) : null };
+    });
+    const expectedToDate = target ? curve.find(point => point.month_year === monthYear).target_cumulative : null;
+
+    return {
+      district_code: districtCode,
+      month_year: monthYear,
+      financial_year: financialYear,
+      months_reported: actual.size,
+      target: target
+        ? {
+          person_days: target.person_days_target,
+          households: target.households_target,
+          phased: target.phasing.length > 0,
+          source: target.source,
+          uploaded_at: target.uploaded_at
+        }
+        : null,
+      person_days: {
+        actual_to_date: personDaysToDate,
+        achievement_pct: target ? percent(personDaysToDate, target.person_days_target) : null,
+        expected_to_date: expectedToDate,
+        // Above 100 means ahead of the phasing for the months gone
+        pace_pct: percent(personDaysToDate, expectedToDate)
+      },
+      households: {
+        reached: householdsReached,
+        coverage_pct: target ? percent(householdsReached, target.households_target) : null
+      },
+      curve
+    };
+  }
+}
+
+module.exports = { TargetService, parseTarget, cumulativeTargets };
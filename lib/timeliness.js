@@ -0,0 +1,133 @@
+const fs = require('fs');
+const path = require('path');
+const { addMonths } = require('./fiscalCalendar');
+const { isNumber, round } = require('./figures');
+
+const DEFAULT_CONFIG_PATH = path.join(__dirname, '..', 'config', 'timeliness.json');
+
+const METRIC = 'payment_within_15_days';
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Direction of a change in percentage points; higher is better
+function trendOf(change, steadyBand) {
+  if (!isNumber(change)) return null;
+  if (Math.abs(change) <= steadyBand) return 'steady';
+  return change > 0 ? 'improving' : 'worsening';
+}
+
+// Counts of values in buckets split at `bands`, e.g. [50, 75] gives
+// under 50, 50 to under 75, and 75 and over
+function distribution(values, bands) {
+  const edges = [null, ...bands, null];
+  return edges.slice(0, -1).map((from, i) => {
+    const to = edges[i + 1];
+    return {
+      from,
+      to,
+      count: values.filter(value => (from === null || value >= from) && (to === null || value < to)).length
+    };
+  });
+}
+
+// Share of wages paid within 15 days, per district over time and across
+// the state for a month, against the alert threshold in config/timeliness.json
+class TimelinessService {
+  constructor({ data, store, registry, ingestion = null, config = TimelinessService.loadConfig() }) {
+    this.data = data;
+    this.store = store;
+    this.registry = registry;
+    this.ingestion = ingestion;
+    this.config = config;
+  }
+
+  static loadConfig(configPath = DEFAULT_CONFIG_PATH) {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  }
+
+  belowThreshold(value) {
+    return isNumber(value) && value < this.config.alert_threshold;
+  }
+
+  // Stored rows for a month that report the metric
+  async monthValues(monthYear, { strict }) {
+    return (await this.store.getMonth(monthYear, { officialOnly: strict })).filter(row => isNumber(row[METRIC]));
+  }
+
+  async getDistrict(districtCode, endMonth, months = 12, { strict = false } = {}) {
+    const series = [];
+    for (let i = months - 1; i >= 0; i--) {
+      const monthYear = addMonths(endMonth, -i);
+      const record = await this.data.getDistrictMonth(districtCode, monthYear, { strict });
+      const value = record && isNumber(record[METRIC]) ? round(record[METRIC]) : null;
+      series.push({
+        month_year: monthYear,
+        value,
+        data_source: record ? record.data_source : 'missing',
+        below_threshold: this.belowThreshold(value)
+      });
+    }
+
+    // The latest month is compared with the last month before it that has a value
+    const latest = series[series.length - 1];
+    const previous = series.slice(0, -1).reverse().find(point => point.value !== null);
+    const change = latest.value !== null && previous ? round(latest.value - previous.value) : null;
+
+    return {
+      scope: 'district',
+      district_code: districtCode,
+      month_year: endMonth,
+      threshold: this.config.alert_threshold,
+      value: latest.value,
+      below_threshold: latest.below_threshold,
+      previous_month: previous ? previous.month_year : null,
+      change,
+      trend: trendOf(change, this.config.steady_band),
+      series
+    };
+  }
+
+  // Statewide distribution for a month, with the districts paying slowest
+  async getState(monthYear, { strict = false } = {}) {
+    if (this.ingestion) await this.ingestion.refreshMonth(monthYear);
+
+    const current = await this.monthValues(monthYear, { strict });
+    const previous = new Map((await this.monthValues(addMonths(monthYear, -1), { strict }))
+      .map(row => [row.district_code, row[METRIC]]));
+    const values = current.map(row => row[METRIC]);
+
+    const districts = current
+      .map(row => {
+        const before = previous.get(row.district_code);
+        const change = isNumber(before) ? round(row[METRIC] - before) : null;
+        return {
+          district_code: row.district_code,
+          district_name: this.registry.get(row.district_code).name,
+          value: round(row[METRIC]),
+          change,
+          trend: trendOf(change, this.config.steady_band),
+          below_threshold: this.belowThreshold(row[METRIC]),
+          data_source: row.data_source
+        };
+      })
+      .sort((a, b) => a.value - b.value || a.district_name.localeCompare(b.district_name));
+
+    return {
+      scope: 'state',
+      month_year: monthYear,
+      threshold: this.config.alert_threshold,
+      districts_reporting: values.length,
+      districts_below_threshold: districts.filter(district => district.below_threshold).length,
+      state_average: values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null,
+      state_median: values.length > 0 ? round(median(values)) : null,
+      distribution: distribution(values, this.config.distribution_bands),
+      worst: districts.slice(0, this.config.worst_count)
+    };
+  }
+}
+
+module.exports = { TimelinessService, distribution, trendOf };
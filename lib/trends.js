@@ -0,0 +1,126 @@
+const { addMonths, fyMonthsToDate, toFinYear } = require('./fiscalCalendar');
+const { isNumber, round } = require('./figures');
+const { RUNNING_METRICS, monthFigure } = require('./runningTotals');
+
+// How each stored metric builds up over the financial year. Running totals
+// (see runningTotals) are reported month by month as their rise and take the
+// latest total for FY-to-date; rates and averages are averaged, and stocks
+// (job cards, works on hand) take the latest month.
+const TREND_METRICS = {
+  ...Object.fromEntries(RUNNING_METRICS.map(metric => [metric, 'running'])),
+  avg_days_per_household: 'mean',
+  avg_amount_per_household: 'mean',
+  performance_score: 'mean',
+  average_wage_rate: 'mean',
+  ongoing_works: 'latest',
+  total_job_cards: 'latest',
+  payment_within_15_days: 'mean'
+};
+
+// Months before the first reported month that the calculations read: a year
+// back for year-over-year and one more for that month's running-total rise,
+// which also covers the FY start and the 3-month window
+const LOOKBACK_MONTHS = 13;
+const ROLLING_WINDOW = 3;
+
+const mean = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function change(current, previous) {
+  if (!isNumber(current) || !isNumber(previous)) {
+    return { change: null, change_pct: null };
+  }
+  return {
+    change: round(current - previous),
+    change_pct: previous !== 0 ? round(((current - previous) / previous) * 100) : null
+  };
+}
+
+function accumulate(values, aggregation) {
+  if (values.length === 0) return null;
+  if (aggregation === 'mean') return round(mean(values));
+  return values[values.length - 1];
+}
+
+// Trend figures for one month, reading other months from `rowsByMonth`.
+// Missing months are skipped in FY-to-date figures (see fy_to_date_months);
+// a running total's monthly figure needs the month before, except in April,
+// and the 3-month average needs all three months.
+function monthTrends(rowsByMonth, monthYear) {
+  const reported = (month, metric) => {
+    const value = rowsByMonth.get(month)?.[metric];
+    return isNumber(value) ? value : null;
+  };
+  const valueOf = (month, metric) => {
+    const value = monthFigure(metric, month, reported(month, metric), reported(addMonths(month, -1), metric));
+    return value === null ? null : round(value);
+  };
+
+  const fyMonths = fyMonthsToDate(monthYear);
+  const windowMonths = Array.from({ length: ROLLING_WINDOW }, (_, i) => addMonths(monthYear, i - ROLLING_WINDOW + 1));
+  const reportedFyMonths = fyMonths.filter(month => rowsByMonth.has(month) && rowsByMonth.get(month).data_source !== 'missing');
+
+  const metrics = {};
+  Object.entries(TREND_METRICS).forEach(([metric, aggregation]) => {
+    const value = valueOf(monthYear, metric);
+    const mom = change(value, valueOf(addMonths(monthYear, -1), metric));
+    const yoy = change(value, valueOf(addMonths(monthYear, -12), metric));
+    const windowValues = windowMonths.map(month => valueOf(month, metric));
+
+    metrics[metric] = {
+      value,
+      mom_change: mom.change,
+      mom_change_pct: mom.change_pct,
+      yoy_change: yoy.change,
+      yoy_change_pct: yoy.change_pct,
+      fy_to_date: accumulate(fyMonths.map(month => reported(month, metric)).filter(isNumber), aggregation),
+      rolling_3m: windowValues.every(isNumber) ? round(mean(windowValues)) : null
+    };
+  });
+
+  const row = rowsByMonth.get(monthYear);
+  return {
+    month_year: monthYear,
+    financial_year: toFinYear(monthYear),
+    fy_to_date_months: reportedFyMonths.length,
+    data_source: row ? row.data_source : 'missing',
+    metrics
+  };
+}
+
+// Trends for the `months` months ending at `endMonth`, from monthly rows
+// covering at least LOOKBACK_MONTHS before the first of them
+function computeTrends(rows, endMonth, months) {
+  const rowsByMonth = new Map(rows.map(row => [row.month_year, row]));
+  const series = [];
+  for (let i = months - 1; i >= 0; i--) {
+    series.push(monthTrends(rowsByMonth, addMonths(endMonth, -i)));
+  }
+  return series;
+}
+
+// Month-over-month, year-over-year, FY-to-date and rolling figures for a
+// district. Reads full monthly records (not the /history rows) so every
+// stored metric is covered.
+class TrendService {
+  constructor({ data }) {
+    this.data = data;
+  }
+
+  async getTrends(districtCode, endMonth, months = 12, { strict = false } = {}) {
+    const rows = [];
+    for (let i = months + LOOKBACK_MONTHS - 1; i >= 0; i--) {
+      const monthYear = addMonths(endMonth, -i);
+      const data = await this.data.getDistrictMonth(districtCode, monthYear, { strict });
+      rows.push(data ? { ...data, month_year: monthYear } : { month_year: monthYear, data_source: 'missing' });
+    }
+    return {
+      district_code: districtCode,
+      month_year: endMonth,
+      months,
+      aggregations: TREND_METRICS,
+      series: computeTrends(rows, endMonth, months)
+    };
+  }
+}
+
+module.exports = { TrendService, computeTrends, monthTrends, TREND_METRICS };
@@ -0,0 +1,119 @@
+const { addMonths } = require('./fiscalCalendar');
+const { isNumber, round } = require('./figures');
+const { monthFigure } = require('./runningTotals');
+
+// Works figures for one month. Upstream counts completed works from the start
+// of the financial year and ongoing works as the backlog at the month's end,
+// so works finished in the month are the rise in completed works (all of them
+// in April) and works started are the rise in the backlog plus those finished.
+// Figures that need the previous month are null without it.
+function worksMonth(record, previous) {
+  const completed = record ? record.completed_works : null;
+  const ongoing = record ? record.ongoing_works : null;
+  if (!isNumber(completed) || !isNumber(ongoing)) {
+    return {
+      completed_works: null,
+      ongoing_works: null,
+      works_taken_up: null,
+      completion_ratio: null,
+      completed_in_month: null,
+      new_works_started: null
+    };
+  }
+
+  const takenUp = completed + ongoing;
+  const hasPrevious = previous && isNumber(previous.completed_works) && isNumber(previous.ongoing_works);
+  const completedInMonth = monthFigure('completed_works', record.month_year, completed, hasPrevious ? previous.completed_works : null);
+
+  return {
+    completed_works: completed,
+    ongoing_works: ongoing,
+    works_taken_up: takenUp,
+    completion_ratio: takenUp > 0 ? round((completed / takenUp) * 100) : null,
+    completed_in_month: completedInMonth,
+    new_works_started: hasPrevious && completedInMonth !== null ? ongoing - previous.ongoing_works + completedInMonth : null
+  };
+}
+
+// Sum of a figure over districts that report it, or null if none do
+const total = (rows, field) => {
+  const values = rows.map(row => row[field]).filter(isNumber);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+};
+
+// Completed and ongoing works: completion ratio, works started and the
+// backlog, per district over time and across the state for a month
+class WorksService {
+  constructor({ data, store, registry, ingestion = null }) {
+    this.data = data;
+    this.store = store;
+    this.registry = registry;
+    this.ingestion = ingestion;
+  }
+
+  // The `months` months up to `endMonth`; one extra month is read first so
+  // the earliest month has works started
+  async getDistrict(districtCode, endMonth, months = 12, { strict = false } = {}) {
+    let previous = await this.data.getDistrictMonth(districtCode, addMonths(endMonth, -months), { strict });
+    const series = [];
+    for (let i = months - 1; i >= 0; i--) {
+      const monthYear = addMonths(endMonth, -i);
+      const record = await this.data.getDistrictMonth(districtCode, monthYear, { strict });
+      series.push({
+        month_year: monthYear,
+        data_source: record ? record.data_source : 'missing',
+        ...worksMonth(record, previous)
+      });
+      previous = record;
+    }
+
+    return { scope: 'district', district_code: districtCode, month_year: endMonth, series };
+  }
+
+  // Every active district's works for a month, highest completion ratio
+  // first, with statewide totals
+  async getState(monthYear, { strict = false } = {}) {
+    if (this.ingestion) await this.ingestion.refreshMonth(monthYear);
+
+    const current = new Map((await this.store.getMonth(monthYear, { officialOnly: strict })).map(row => [row.district_code, row]));
+    const previous = new Map((await this.store.getMonth(addMonths(monthYear, -1), { officialOnly: strict })).map(row => [row.district_code, row]));
+
+    const districts = this.registry.activeIn(monthYear).map(district => {
+      const record = current.get(district.code) || null;
+      return {
+        district_code: district.code,
+        district_name: district.name,
+        data_source: record ? record.data_source : 'missing',
+        ...worksMonth(record, previous.get(district.code))
+      };
+    });
+
+    districts.sort((a, b) => {
+      if (a.completion_ratio === null || b.completion_ratio === null) {
+        return a.completion_ratio === null && b.completion_ratio === null
+          ? a.district_name.localeCompare(b.district_name)
+          : a.completion_ratio === null ? 1 : -1;
+      }
+      return b.completion_ratio - a.completion_ratio || a.district_name.localeCompare(b.district_name);
+    });
+
+    const completed = total(districts, 'completed_works');
+    const takenUp = total(districts, 'works_taken_up');
+    return {
+      scope: 'state',
+      month_year: monthYear,
+      districts_reporting: districts.filter(district => district.completion_ratio !== null).length,
+      state: {
+        completed_works: completed,
+        ongoing_works: total(districts, 'ongoing_works'),
+        works_taken_up: takenUp,
+        completion_ratio: takenUp > 0 ? round((completed / takenUp) * 100) : null,
+        completed_in_month: total(districts, 'completed_in_month'),
+        new_works_started: total(districts, 'new_works_started')
+      },
+      districts
+    };
+  }
+}
+
+module.exports = { WorksService, worksMonth };
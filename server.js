@@ -7,14 +7,47 @@ const cron = require('node-cron');
 const axios = require('axios');
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
+const crypto = require('crypto');
 const moment = require('moment');
 require('dotenv').config();
+const { migrate } = require('./lib/migrations');
+const { run } = require('./lib/database');
+const { PerformanceStore } = require('./lib/performanceStore');
+const { IngestionService } = require('./lib/ingestion');
+const { DistrictDataService } = require('./lib/districtData');
+const { ScoringEngine } = require('./lib/scoring');
+const { DistrictRegistry } = require('./lib/districtRegistry');
+const { DistrictLocator } = require('./lib/districtLocator');
+const { LocationHierarchy } = require('./lib/locationHierarchy');
+const { LocalDataImporter } = require('./lib/localDataImport');
+const { RankingService, RANKABLE_METRICS } = require('./lib/rankings');
+const { ExportService, EXPORT_FORMATS, CONTENT_TYPES } = require('./lib/exports');
+const { ReportCardService } = require('./lib/reportCard');
+const { TrendService } = require('./lib/trends');
+const { ForecastService } = require('./lib/forecast');
+const { DataQualityService, SEVERITIES } = require('./lib/dataQuality');
+const { InclusionService } = require('./lib/inclusion');
+const { TimelinessService } = require('./lib/timeliness');
+const { WorksService } = require('./lib/works');
+const { TargetService } = require('./lib/targets');
+const { AlertService, redactRule, redactRecipient } = require('./lib/alerts');
+const { createChannels } = require('./lib/alertChannels');
+const { ReportPdfRenderer } = require('./lib/reportPdf');
+const { REPORT_LANGUAGES } = require('./lib/reportLabels');
+const { seededRandom, mockWorks, mockTotals } = require('./lib/mockData');
+const { parseCsv } = require('./lib/csv');
+const { toUpstreamQuery, toFinYear, toMonthName, parseMonthYear } = require('./lib/fiscalCalendar');
 
 const app = express();
 // Behind Render's proxy; enables correct client IP detection for rate limiting
 app.set('trust proxy', 1);
 const PORT = process.env.PORT || 3000;
 const READ_ONLY_DB = process.env.READ_ONLY_DB === '1';
+// Never serve mock or legacy numbers unless a request opts out with ?strict=false
+const STRICT_REAL_DATA = process.env.STRICT_REAL_DATA === '1';
+// Bearer token for admin changes (alert rules, labour budget targets); without
+// it they can't be made. ALERT_ADMIN_TOKEN is its earlier, alerts-only name.
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || process.env.ALERT_ADMIN_TOKEN || null;
 
 // Security and performance middleware
 app.use(helmet({
@@ -54,89 +87,41 @@ const db = new sqlite3.Database(
   READ_ONLY_DB ? sqlite3.OPEN_READONLY : (sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE)
 );
 
-// Initialize database tables (skip when read-only)
-if (!READ_ONLY_DB) {
-  db.serialize(() => {
-    // Districts table
-    db.run(`CREATE TABLE IF NOT EXISTS districts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      district_code TEXT UNIQUE,
-      district_name TEXT,
-      state_name TEXT,
-      latitude REAL,
-      longitude REAL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )`);
-
-    // Performance data table
-    db.run(`CREATE TABLE IF NOT EXISTS performance_data (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      district_code TEXT,
-      month_year TEXT,
-      total_households INTEGER,
-      total_person_days INTEGER,
-      total_amount_spent REAL,
-      avg_days_per_household REAL,
-      avg_amount_per_household REAL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(district_code, month_year)
-    )`);
-
-    // API cache table
-    db.run(`CREATE TABLE IF NOT EXISTS api_cache (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      cache_key TEXT UNIQUE,
-      data TEXT,
-      expires_at DATETIME,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )`);
-  });
-}
+// District master data (LGD codes, aliases, lineage) lives in SQLite
+const districtRegistry = new DistrictRegistry({ db });
 
-// Andhra Pradesh districts data
-const andhraPradeshDistricts = [
-  { code: 'AP001', name: 'Anantapur', lat: 14.6819, lng: 77.6006 },
-  { code: 'AP002', name: 'Chittoor', lat: 13.2156, lng: 79.1004 },
-  { code: 'AP003', name: 'East Godavari', lat: 16.9454, lng: 82.2382 },
-  { code: 'AP004', name: 'Guntur', lat: 16.3067, lng: 80.4365 },
-  { code: 'AP005', name: 'Krishna', lat: 16.1667, lng: 81.1333 },
-  { code: 'AP006', name: 'Kurnool', lat: 15.8300, lng: 78.0500 },
-  { code: 'AP007', name: 'Nellore', lat: 14.4415, lng: 79.9864 },
-  { code: 'AP008', name: 'Prakasam', lat: 15.5067, lng: 79.3200 },
-  { code: 'AP009', name: 'Srikakulam', lat: 18.2989, lng: 83.8975 },
-  { code: 'AP010', name: 'Visakhapatnam', lat: 17.6868, lng: 83.2185 },
-  { code: 'AP011', name: 'Vizianagaram', lat: 18.1167, lng: 83.4167 },
-  { code: 'AP012', name: 'West Godavari', lat: 16.9454, lng: 81.2382 },
-  { code: 'AP013', name: 'YSR Kadapa', lat: 14.4667, lng: 78.8167 }
-];
-
-// Insert districts if not exists (skip when read-only)
-if (!READ_ONLY_DB) {
-  db.serialize(() => {
-    const stmt = db.prepare(`INSERT OR IGNORE INTO districts 
-      (district_code, district_name, state_name, latitude, longitude) 
-      VALUES (?, ?, ?, ?, ?)`);
-    
-    andhraPradeshDistricts.forEach(district => {
-      stmt.run(district.code, district.name, 'Andhra Pradesh', district.lat, district.lng);
-    });
-    stmt.finalize();
-  });
-}
+// Apply schema migrations and seed the registry (skip writes when read-only)
+const loadRegistry = () => {
+  const seed = DistrictRegistry.loadSeed(process.env.DISTRICTS_CONFIG || undefined);
+  if (READ_ONLY_DB) {
+    // Older read-only databases may predate the registry tables
+    return districtRegistry.load()
+      .then(() => {
+        if (districtRegistry.list().length === 0) districtRegistry.loadFromSeed(seed);
+      })
+      .catch(() => districtRegistry.loadFromSeed(seed));
+  }
+  return districtRegistry.seed(seed).then(() => districtRegistry.load());
+};
+
+const dbReady = (READ_ONLY_DB ? Promise.resolve() : migrate(db)).then(loadRegistry);
 
 // API service for data.gov.in
 class MGNREGAService {
-  constructor() {
+  constructor({ scoringEngine, registry }) {
     this.baseURL = 'https://api.data.gov.in/resource';
     this.apiKey = process.env.DATA_GOV_API_KEY || '579b464db66ec23bdd000001cdd3946e44ce4aad7209ff7b23ac571b';
+    this.scoringEngine = scoringEngine;
+    this.registry = registry;
   }
 
-  async fetchDistrictData(districtCode, monthYear) {
+  // In strict mode resolves to null rather than falling back to mock data
+  async fetchDistrictData(districtCode, monthYear, { strict = false } = {}) {
     try {
       const cacheKey = `district_${districtCode}_${monthYear}`;
       const cachedData = await this.getCachedData(cacheKey);
       
-      if (cachedData) {
+      if (cachedData && (!strict || cachedData.data_source === 'data.gov.in')) {
         return cachedData;
       }
 
@@ -145,7 +130,11 @@ class MGNREGAService {
       try {
         realData = await this.fetchRealAPIData(districtCode, monthYear);
       } catch (apiError) {
-        console.warn('API fetch failed, using mock data:', apiError.message);
+        console.warn(`API fetch failed${strict ? '' : ', using mock data'}:`, apiError.message);
+      }
+
+      if (!realData && strict) {
+        return null;
       }
 
       // Use real data if available, otherwise fall back to mock data
@@ -162,13 +151,16 @@ class MGNREGAService {
   }
 
   async fetchRealAPIData(districtCode, monthYear) {
+    const records = await this.fetchStatewideRecords(monthYear);
+    return this.processAPIData(records, districtCode, monthYear);
+  }
+
+  // Downloads every Andhra Pradesh row for a month in a single call
+  async fetchStatewideRecords(monthYear) {
     const apiUrl = 'https://api.data.gov.in/resource/ee03643a-ee4c-48c2-ac30-9f2ff26ab722';
     
-    // Parse monthYear to extract year and month
-    const [year, month] = monthYear.split('-');
-    const finYear = `${year}-${parseInt(year) + 1}`;
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const monthName = monthNames[parseInt(month) - 1];
+    // Jan-Mar belong to the financial year that started the previous April
+    const { finYear, monthName } = toUpstreamQuery(monthYear);
     
     const params = {
       'api-key': this.apiKey,
@@ -183,61 +175,42 @@ class MGNREGAService {
     const response = await axios.get(apiUrl, { params });
     
     if (response.data && response.data.records) {
-      return this.processAPIData(response.data.records, districtCode, monthYear);
+      return response.data.records;
     }
     
     throw new Error('No data received from API');
   }
 
+  // Maps an upstream district name to one of our district codes, or null
+  resolveDistrictCode(upstreamName) {
+    return this.registry.resolve(upstreamName);
+  }
+
   processAPIData(records, districtCode, monthYear) {
     // Find records for the specific district with improved matching
-    const districtRecords = records.filter(record => {
-      const districtName = record.district_name?.toLowerCase();
-      const targetDistrict = andhraPradeshDistricts.find(d => d.code === districtCode);
-      
-      if (!targetDistrict || !districtName) return false;
-      
-      // Create multiple possible matches for district names
-      const possibleNames = [
-        targetDistrict.name.toLowerCase(),
-        targetDistrict.name.toLowerCase().replace(/\s+/g, ''),
-        targetDistrict.name.toLowerCase().replace(/\s+/g, '.')
-      ];
-      
-      // Special cases for known API variations
-      if (targetDistrict.code === 'AP013') {
-        possibleNames.push('y.s.r', 'ysr', 'kadapa', 'y s r');
-      }
-      if (targetDistrict.code === 'AP004') {
-        possibleNames.push('ntr', 'guntur');
-      }
-      if (targetDistrict.code === 'AP012') {
-        possibleNames.push('west godavari', 'westgodavari');
-      }
-      if (targetDistrict.code === 'AP003') {
-        possibleNames.push('east godavari', 'eastgodavari');
-      }
-      
-      return possibleNames.some(name => districtName.includes(name));
-    });
+    const districtRecords = records.filter(record => this.resolveDistrictCode(record.district_name) === districtCode);
 
     if (districtRecords.length === 0) {
       // Log available districts for debugging
       const availableDistricts = records.map(r => r.district_name).join(', ');
       console.log(`Available districts in API: ${availableDistricts}`);
-      throw new Error(`No data found for district ${districtCode} (${andhraPradeshDistricts.find(d => d.code === districtCode)?.name})`);
+      throw new Error(`No data found for district ${districtCode} (${this.registry.get(districtCode)?.name})`);
     }
 
     // Use the most recent record for the district
-    const latestRecord = districtRecords[0];
-    const district = andhraPradeshDistricts.find(d => d.code === districtCode);
+    return this.normalizeRecord(districtRecords[0], districtCode, monthYear);
+  }
+
+  // Converts one raw data.gov.in row into our performance record shape
+  normalizeRecord(latestRecord, districtCode, monthYear) {
+    const district = this.registry.get(districtCode);
     
     // Calculate person days from the API data
     const totalPersonDays = parseInt(latestRecord.Persondays_of_Central_Liability_so_far) || 0;
     const totalHouseholds = parseInt(latestRecord.Total_Households_Worked) || 0;
     const totalAmountSpent = parseFloat(latestRecord.Total_Exp) || 0;
     
-    return {
+    return this.scoreRecord({
       district_code: districtCode,
       district_name: district?.name || latestRecord.district_name || 'Unknown',
       month_year: monthYear,
@@ -247,20 +220,10 @@ class MGNREGAService {
       avg_days_per_household: parseFloat(latestRecord.Average_days_of_employment_provided_per_Household) || 0,
       avg_amount_per_household: totalHouseholds > 0 ? 
         Math.round((totalAmountSpent / totalHouseholds) * 100) / 100 : 0,
-      performance_score: this.calculatePerformanceScore({
-        total_households: totalHouseholds,
-        total_person_days: totalPersonDays,
-        total_amount_spent: totalAmountSpent,
-        avg_days: parseFloat(latestRecord.Average_days_of_employment_provided_per_Household) || 0,
-        wage_rate: parseFloat(latestRecord.Average_Wage_rate_per_day_per_person) || 0,
-        women_persondays: parseInt(latestRecord.Women_Persondays) || 0,
-        sc_persondays: parseInt(latestRecord.SC_persondays) || 0,
-        st_persondays: parseInt(latestRecord.ST_persondays) || 0,
-        completed_works: parseInt(latestRecord.Number_of_Completed_Works) || 0,
-        ongoing_works: parseInt(latestRecord.Number_of_Ongoing_Works) || 0
-      }),
       data_source: 'data.gov.in',
       last_updated: new Date().toISOString(),
+      // data.gov.in rows have no id of their own; this triple is unique per row
+      upstream_record_id: [latestRecord.fin_year, latestRecord.month, latestRecord.district_code || latestRecord.district_name].join(':'),
       // Additional real data fields
       financial_year: latestRecord.fin_year,
       month: latestRecord.month,
@@ -275,75 +238,55 @@ class MGNREGAService {
       households_100_days: parseInt(latestRecord.Total_No_of_HHs_completed_100_Days_of_Wage_Employment) || 0,
       differently_abled_worked: parseInt(latestRecord.Differently_abled_persons_worked) || 0,
       payment_within_15_days: parseFloat(latestRecord.percentage_payments_gererated_within_15_days) || 0
-    };
+    });
   }
 
-  calculatePerformanceScore(data) {
-    // Calculate performance score based on MGNREGA metrics
-    let score = 60; // Base score
-    
-    // Household coverage score (0-20 points)
-    if (data.total_households > 30000) score += 20;
-    else if (data.total_households > 20000) score += 15;
-    else if (data.total_households > 10000) score += 10;
-    else if (data.total_households > 5000) score += 5;
-    
-    // Person days efficiency (0-20 points)
-    const avgDays = data.total_households > 0 ? data.total_person_days / data.total_households : 0;
-    if (avgDays > 25) score += 20;
-    else if (avgDays > 20) score += 15;
-    else if (avgDays > 15) score += 10;
-    else if (avgDays > 10) score += 5;
-    
-    return Math.min(score, 100);
+  // Adds the configured performance score and its per-component breakdown
+  scoreRecord(record) {
+    const { score, breakdown } = this.scoringEngine.score(record);
+    return { ...record, performance_score: score, score_breakdown: breakdown };
   }
 
   generateMockData(districtCode, monthYear) {
-    const district = andhraPradeshDistricts.find(d => d.code === districtCode);
+    const district = this.registry.get(districtCode);
     
-    // Use deterministic seed based on district code and month for consistent mock data
-    const seed = districtCode.charCodeAt(2) + monthYear.charCodeAt(5) + monthYear.charCodeAt(6);
-    const seededRandom = (min, max) => {
-      const x = Math.sin(seed) * 10000;
-      return min + Math.floor((x - Math.floor(x)) * (max - min + 1));
-    };
+    // Seeded by district and month so the same mock record comes back every time
+    const random = seededRandom(`${districtCode}:${monthYear}`);
     
-    const baseHouseholds = seededRandom(15000, 45000);
-    const avgDaysPerHousehold = seededRandom(18, 28);
-    const totalPersonDays = Math.floor(baseHouseholds * avgDaysPerHousehold);
-    const wageRate = seededRandom(200, 250);
-    const totalAmount = totalPersonDays * wageRate;
+    // Households, person-days and spend are running totals from April, as upstream reports them
+    const { households, personDays, amount, months } = mockTotals(districtCode, monthYear);
+    const avgDaysPerHousehold = personDays / households;
+    const wageRate = amount / personDays;
     
     // Convert to crores to match real API data format
-    const totalAmountCrores = totalAmount / 10000000;
+    const totalAmountCrores = amount / 10000000;
     
-    return {
+    return this.scoreRecord({
       district_code: districtCode,
       district_name: district?.name || 'Unknown',
       month_year: monthYear,
-      total_households: baseHouseholds,
-      total_person_days: totalPersonDays,
+      total_households: households,
+      total_person_days: personDays,
       total_amount_spent: totalAmountCrores, // Now in crores like real data
       avg_days_per_household: Math.round(avgDaysPerHousehold * 100) / 100,
-      avg_amount_per_household: Math.round((totalAmountCrores / baseHouseholds) * 100) / 100,
-      performance_score: seededRandom(75, 95), // More realistic range, closer to real data
+      avg_amount_per_household: Math.round((totalAmountCrores / households) * 100) / 100,
       data_source: 'mock_data',
       last_updated: new Date().toISOString(),
       // Additional mock fields for consistency
-      financial_year: `${monthYear.split('-')[0]}-${parseInt(monthYear.split('-')[0]) + 1}`,
-      month: monthYear.split('-')[1],
-      average_wage_rate: wageRate,
-      women_persondays: Math.floor(totalPersonDays * 0.4),
-      sc_persondays: Math.floor(totalPersonDays * 0.15),
-      st_persondays: Math.floor(totalPersonDays * 0.08),
-      completed_works: seededRandom(50, 200),
-      ongoing_works: seededRandom(100, 300),
-      total_individuals_worked: Math.floor(baseHouseholds * 1.2),
-      total_job_cards: Math.floor(baseHouseholds * 1.1),
-      households_100_days: Math.floor(baseHouseholds * 0.15),
-      differently_abled_worked: Math.floor(baseHouseholds * 0.02),
-      payment_within_15_days: seededRandom(75, 95)
-    };
+      financial_year: toFinYear(monthYear),
+      month: toMonthName(monthYear),
+      average_wage_rate: Math.round(wageRate * 100) / 100,
+      women_persondays: Math.floor(personDays * 0.4),
+      sc_persondays: Math.floor(personDays * 0.15),
+      st_persondays: Math.floor(personDays * 0.08),
+      ...mockWorks(districtCode, monthYear),
+      total_individuals_worked: Math.floor(households * 1.2),
+      total_job_cards: seededRandom(`${districtCode}:job_cards`)(150000, 250000),
+      // Reaching 100 days takes the year, so this grows with the months worked
+      households_100_days: Math.floor((households * 0.15 * months) / 12),
+      differently_abled_worked: Math.floor(households * 0.02),
+      payment_within_15_days: random(75, 95)
+    });
   }
 
   async getCachedData(key) {
@@ -359,19 +302,14 @@ class MGNREGAService {
     });
   }
 
+  // Through the shared run() so the write waits for any open transaction
   async setCachedData(key, data, ttl) {
     if (READ_ONLY_DB) return; // no-op in read-only mode
-    return new Promise((resolve, reject) => {
-      const expiresAt = new Date(Date.now() + ttl).toISOString();
-      db.run(
-        'INSERT OR REPLACE INTO api_cache (cache_key, data, expires_at) VALUES (?, ?, ?)',
-        [key, JSON.stringify(data), expiresAt],
-        (err) => {
-          if (err) reject(err);
-          else resolve();
-        }
-      );
-    });
+    const expiresAt = new Date(Date.now() + ttl).toISOString();
+    await run(db,
+      'INSERT OR REPLACE INTO api_cache (cache_key, data, expires_at) VALUES (?, ?, ?)',
+      [key, JSON.stringify(data), expiresAt]
+    );
   }
 
   async getDataSourceInfo() {
@@ -384,90 +322,133 @@ class MGNREGAService {
       api_endpoint: 'https://api.data.gov.in/resource/ee03643a-ee4c-48c2-ac30-9f2ff26ab722'
     };
   }
+}
 
-  async getDistrictHistory(districtCode, months = 12) {
-    try {
-      const history = [];
-      const currentDate = moment();
-      let apiDataCount = 0;
-      let mockDataCount = 0;
-      
-      for (let i = 0; i < months; i++) {
-        const monthYear = currentDate.clone().subtract(i, 'months').format('YYYY-MM');
-        
-        try {
-          const data = await this.fetchDistrictData(districtCode, monthYear);
-          if (data) {
-            history.push({
-              month_year: monthYear,
-              total_households: data.total_households,
-              total_person_days: data.total_person_days,
-              total_amount_spent: data.total_amount_spent,
-              avg_days_per_household: data.avg_days_per_household,
-              avg_amount_per_household: data.avg_amount_per_household,
-              performance_score: data.performance_score,
-              data_source: data.data_source || 'api'
-            });
-            apiDataCount++;
-          }
-        } catch (error) {
-          console.warn(`Failed to fetch API data for ${monthYear}:`, error.message);
-          // Generate mock data for missing months to ensure we have complete historical data
-          const mockData = this.generateMockData(districtCode, monthYear);
-          history.push({
-            month_year: monthYear,
-            total_households: mockData.total_households,
-            total_person_days: mockData.total_person_days,
-            total_amount_spent: mockData.total_amount_spent,
-            avg_days_per_household: mockData.avg_days_per_household,
-            avg_amount_per_household: mockData.avg_amount_per_household,
-            performance_score: mockData.performance_score,
-            data_source: 'mock'
-          });
-          mockDataCount++;
-        }
-      }
-      
-      console.log(`Historical data for ${districtCode}: ${apiDataCount} API records, ${mockDataCount} mock records`);
-      return history.reverse(); // Return in chronological order
-    } catch (error) {
-      console.error('Error fetching district history:', error);
-      throw new Error('Failed to fetch district history');
-    }
-  }
+const scoringEngine = ScoringEngine.fromFile(process.env.SCORING_CONFIG || undefined);
+const mgnregaService = new MGNREGAService({ scoringEngine, registry: districtRegistry });
+const performanceStore = new PerformanceStore({ db });
+const districtLocator = DistrictLocator.fromFile(districtRegistry, process.env.DISTRICT_BOUNDARIES || undefined);
+const dataQualityService = new DataQualityService({
+  db,
+  store: performanceStore,
+  config: DataQualityService.loadConfig(process.env.DATA_QUALITY_CONFIG || undefined)
+});
+const ingestionService = new IngestionService({
+  db,
+  service: mgnregaService,
+  store: performanceStore,
+  registry: districtRegistry,
+  quality: dataQualityService
+});
+const rankingService = new RankingService({
+  store: performanceStore,
+  service: mgnregaService,
+  registry: districtRegistry,
+  ingestion: READ_ONLY_DB ? null : ingestionService
+});
+const locationHierarchy = new LocationHierarchy({ db });
+const localDataImporter = new LocalDataImporter({
+  db,
+  registry: districtRegistry,
+  dropDir: process.env.LOCAL_DATA_DIR || undefined
+});
+const districtDataService = new DistrictDataService({
+  store: performanceStore,
+  ingestion: ingestionService,
+  service: mgnregaService,
+  readOnly: READ_ONLY_DB
+});
+const reportCardService = new ReportCardService({
+  data: districtDataService,
+  rankings: rankingService,
+  registry: districtRegistry
+});
+const trendService = new TrendService({ data: districtDataService });
+const forecastService = new ForecastService({ data: districtDataService });
+const inclusionService = new InclusionService({
+  data: districtDataService,
+  store: performanceStore,
+  registry: districtRegistry,
+  ingestion: READ_ONLY_DB ? null : ingestionService,
+  config: InclusionService.loadConfig(process.env.INCLUSION_CONFIG || undefined)
+});
+const exportService = new ExportService({
+  data: districtDataService,
+  store: performanceStore,
+  service: mgnregaService,
+  registry: districtRegistry,
+  ingestion: READ_ONLY_DB ? null : ingestionService,
+  inclusion: inclusionService
+});
+const timelinessService = new TimelinessService({
+  data: districtDataService,
+  store: performanceStore,
+  registry: districtRegistry,
+  ingestion: READ_ONLY_DB ? null : ingestionService,
+  config: TimelinessService.loadConfig(process.env.TIMELINESS_CONFIG || undefined)
+});
+const targetService = new TargetService({
+  db,
+  data: districtDataService,
+  registry: districtRegistry
+});
+const alertService = new AlertService({
+  db,
+  store: performanceStore,
+  registry: districtRegistry,
+  channels: createChannels()
+});
+const worksService = new WorksService({
+  data: districtDataService,
+  store: performanceStore,
+  registry: districtRegistry,
+  ingestion: READ_ONLY_DB ? null : ingestionService
+});
+const reportPdfRenderer = new ReportPdfRenderer({
+  teluguFont: process.env.REPORT_TELUGU_FONT || undefined
+});
 
-  async getDistrictComparison(districtCodes, monthYear) {
-    try {
-      const comparison = [];
-      
-      for (const code of districtCodes) {
-        try {
-          const data = await this.fetchDistrictData(code, monthYear);
-          if (data) {
-            comparison.push({
-              district_code: code,
-              district_name: data.district_name,
-              total_households: data.total_households,
-              total_person_days: data.total_person_days,
-              total_amount_spent: data.total_amount_spent,
-              avg_days_per_household: data.avg_days_per_household,
-              performance_score: data.performance_score
-            });
-          }
-        } catch (error) {
-          console.warn(`Failed to fetch comparison data for district ${code}:`, error.message);
-        }
-      }
-      
-      return comparison;
-    } catch (error) {
-      console.error('Error fetching district comparison:', error);
-      throw new Error('Failed to fetch district comparison');
-    }
+// Returns true for a well-formed YYYY-MM month
+const isValidMonth = (monthYear) => {
+  try {
+    parseMonthYear(monthYear);
+    return true;
+  } catch (error) {
+    return false;
   }
-}
+};
+
+// ?strict=true|false overrides the STRICT_REAL_DATA setting per request
+const isStrict = (req) => (
+  req.query.strict === undefined ? STRICT_REAL_DATA : req.query.strict === 'true'
+);
+
+// Sends an export table as a download, e.g. mgnrega-comparison-2025-06.csv
+const sendExport = (res, table, format, filename) => {
+  res.set('Content-Type', CONTENT_TYPES[format]);
+  res.set('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  res.send(ExportService.render(table, format));
+};
 
-const mgnregaService = new MGNREGAService();
+// Whether the request carries ADMIN_TOKEN as `Authorization: Bearer`.
+// Hashing first gives timingSafeEqual inputs of equal length.
+const isAdmin = (req) => {
+  const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+  if (!ADMIN_TOKEN || !match) return false;
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(match[1]), digest(ADMIN_TOKEN));
+};
+
+const requireAdmin = (req, res, next) => {
+  if (!ADMIN_TOKEN) {
+    return res.status(503).json({ error: 'Admin changes are disabled until ADMIN_TOKEN is set' });
+  }
+  if (!isAdmin(req)) {
+    res.set('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+  next();
+};
 
 // API Routes
 // Block write methods when read-only
@@ -489,34 +470,75 @@ app.get('/api/districts', (req, res) => {
   });
 });
 
+// Upstream district names that matched no alias, awaiting review
+app.get('/api/districts/unmatched', async (req, res) => {
+  try {
+    res.json(await districtRegistry.getUnmatched());
+  } catch (error) {
+    console.error('Unmatched districts error:', error);
+    res.status(500).json({ error: 'Failed to fetch unmatched district names' });
+  }
+});
+
+// Map an upstream name to a district code. Needs the admin token; remapping a
+// name that already resolves to another district also needs `override: true`.
+app.post('/api/districts/aliases', requireAdmin, async (req, res) => {
+  const { alias, district_code: districtCode, override = false } = req.body;
+
+  if (!alias || !districtCode) {
+    res.status(400).json({ error: 'alias and district_code required' });
+    return;
+  }
+  if (!districtRegistry.get(districtCode)) {
+    res.status(404).json({ error: `Unknown district code: ${districtCode}` });
+    return;
+  }
+  const existing = districtRegistry.resolve(alias);
+  if (existing && existing !== districtCode && override !== true) {
+    res.status(409).json({ error: `${alias} already maps to ${existing}; send override: true to remap it` });
+    return;
+  }
+
+  try {
+    res.status(201).json(await districtRegistry.addAlias(alias, districtCode, { override: override === true }));
+  } catch (error) {
+    console.error('Add alias error:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Old/new district lineage from the 2022 reorganisation
+app.get('/api/districts/:code/lineage', (req, res) => {
+  const district = districtRegistry.get(req.params.code);
+  if (!district) {
+    res.status(404).json({ error: 'District not found' });
+    return;
+  }
+  res.json({ ...district, ...districtRegistry.getLineage(district.code) });
+});
+
 app.get('/api/district/:code/performance', async (req, res) => {
   try {
     const { code } = req.params;
     const { month } = req.query;
     
-    const monthYear = month || moment().format('YYYY-MM');
+    if (month && !isValidMonth(month)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
     
-    const data = await mgnregaService.fetchDistrictData(code, monthYear);
+    const monthYear = month || moment().format('YYYY-MM');
     
-    // Store in database (skip when read-only)
-    if (!READ_ONLY_DB) {
-      db.run(
-        `INSERT OR REPLACE INTO performance_data 
-         (district_code, month_year, total_households, total_person_days, 
-          total_amount_spent, avg_days_per_household, avg_amount_per_household)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        [
-          data.district_code,
-          data.month_year,
-          data.total_households,
-          data.total_person_days,
-          data.total_amount_spent,
-          data.avg_days_per_household,
-          data.avg_amount_per_household
-        ]
-      );
+    const data = await districtDataService.getDistrictMonth(code, monthYear, { strict: isStrict(req) });
+    if (!data) {
+      res.status(503).json({
+        error: 'No official data available for this district and month',
+        district_code: code,
+        month_year: monthYear,
+        provenance: { source: 'missing', fetched_at: null, record_id: null }
+      });
+      return;
     }
-    
     res.json(data);
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -528,60 +550,65 @@ app.get('/api/district/:code/history', async (req, res) => {
     const { code } = req.params;
     const { months = 12 } = req.query;
     
-    // First try to get data from database
-    db.all(
-      `SELECT * FROM performance_data 
-       WHERE district_code = ? 
-       ORDER BY month_year DESC 
-       LIMIT ?`,
-      [code, months],
-      async (err, rows) => {
-        if (err) {
-          console.error('Database error:', err);
-          res.status(500).json({ error: 'Database error' });
-          return;
-        }
-        
-        // Always try to fetch fresh data to ensure we have complete historical data
-        try {
-          console.log(`Fetching fresh historical data for district ${code} (${months} months)`);
-          const history = await mgnregaService.getDistrictHistory(code, parseInt(months));
-          
-          // Store the fresh data in database (skip when read-only)
-          if (!READ_ONLY_DB && history && history.length > 0) {
-            const stmt = db.prepare(`INSERT OR REPLACE INTO performance_data 
-              (district_code, month_year, total_households, total_person_days, 
-               total_amount_spent, avg_days_per_household, avg_amount_per_household)
-              VALUES (?, ?, ?, ?, ?, ?, ?)`);
-            
-            history.forEach(data => {
-              stmt.run(
-                data.district_code,
-                data.month_year,
-                data.total_households,
-                data.total_person_days,
-                data.total_amount_spent,
-                data.avg_days_per_household,
-                data.avg_amount_per_household
-              );
-            });
-            stmt.finalize();
-          }
-          
-          res.json(history);
-        } catch (apiError) {
-          console.error('API error:', apiError);
-          // Fallback to database data if available, otherwise return empty array
-          res.json(rows || []);
-        }
-      }
-    );
+    const history = await districtDataService.getDistrictHistory(code, parseInt(months), { strict: isStrict(req) });
+    res.json(history);
   } catch (error) {
     console.error('Historical data API error:', error);
     res.status(500).json({ error: 'Failed to fetch historical data' });
   }
 });
 
+// Month-over-month, year-over-year, FY-to-date and 3-month rolling figures
+// for every stored metric, for the `months` months up to `month`
+app.get('/api/district/:code/trends', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+    const months = req.query.months === undefined ? 12 : parseInt(req.query.months, 10);
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!(months >= 1 && months <= 36)) {
+      res.status(400).json({ error: 'Months must be between 1 and 36' });
+      return;
+    }
+    if (!districtRegistry.get(code)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    res.json(await trendService.getTrends(code, monthYear, months, { strict: isStrict(req) }));
+  } catch (error) {
+    console.error('Trends API error:', error);
+    res.status(500).json({ error: 'Failed to compute trends' });
+  }
+});
+
+// Person-days and spend projected for the rest of the financial year after
+// `month`, with 95% intervals, from the district's own seasonal pattern
+app.get('/api/district/:code/forecast', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!districtRegistry.get(code)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    res.json(await forecastService.getForecast(code, monthYear, { strict: isStrict(req) }));
+  } catch (error) {
+    console.error('Forecast API error:', error);
+    res.status(500).json({ error: 'Failed to compute forecast' });
+  }
+});
+
 app.get('/api/comparison', async (req, res) => {
   try {
     const { districts, month } = req.query;
@@ -591,60 +618,539 @@ app.get('/api/comparison', async (req, res) => {
       return;
     }
     
+    if (month && !isValidMonth(month)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    
     const districtList = districts.split(',');
     const monthYear = month || moment().format('YYYY-MM');
     
-    // Try to get data from database first
-    const placeholders = districtList.map(() => '?').join(',');
-    
-    db.all(
-      `SELECT * FROM performance_data 
-       WHERE district_code IN (${placeholders}) 
-       AND month_year = ?`,
-      [...districtList, monthYear],
-      async (err, rows) => {
-        if (err) {
-          console.error('Database error:', err);
-          res.status(500).json({ error: 'Database error' });
-          return;
-        }
-        
-        // If we have data in database, return it
-        if (rows && rows.length > 0) {
-          res.json(rows);
-          return;
-        }
-        
-        // If no data in database, fetch from API service
-        try {
-          const comparison = await mgnregaService.getDistrictComparison(districtList, monthYear);
-          res.json(comparison);
-        } catch (apiError) {
-          console.error('API error:', apiError);
-          // Fallback to mock data
-          const mockData = districtList.map(code => {
-            const district = andhraPradeshDistricts.find(d => d.code === code);
-            return {
-              district_code: code,
-              district_name: district?.name || code,
-              total_households: Math.floor(Math.random() * 50000) + 10000,
-              total_person_days: Math.floor(Math.random() * 1000000) + 200000,
-              total_amount_spent: Math.floor(Math.random() * 100000000) + 50000000,
-              avg_days_per_household: Math.floor(Math.random() * 20) + 15,
-              performance_score: Math.floor(Math.random() * 40) + 60,
-              month_year: monthYear
-            };
-          });
-          res.json(mockData);
-        }
-      }
-    );
+    const comparison = await districtDataService.getDistrictComparison(districtList, monthYear, { strict: isStrict(req) });
+    res.json(comparison);
   } catch (error) {
     console.error('Comparison API error:', error);
-    res.status(500).json({ error: 'Failed to fetch comparison data' });
+    res.status(503).json({ error: 'Comparison data unavailable' });
+  }
+});
+
+// Statewide league table for one metric, from stored data
+app.get('/api/rankings', async (req, res) => {
+  try {
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+    const metric = req.query.metric || 'performance_score';
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!RANKABLE_METRICS.includes(metric)) {
+      res.status(400).json({ error: `Metric must be one of: ${RANKABLE_METRICS.join(', ')}` });
+      return;
+    }
+
+    res.json(await rankingService.getRankings(monthYear, metric, { strict: isStrict(req) }));
+  } catch (error) {
+    console.error('Rankings error:', error);
+    res.status(500).json({ error: 'Failed to compute rankings' });
+  }
+});
+
+// Women, SC, ST and differently-abled shares against their norms for the
+// `months` months up to `month`: statewide with every district's shares for
+// `month`, or for one district when `district` is given
+app.get('/api/inclusion', async (req, res) => {
+  try {
+    const { district } = req.query;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+    const months = req.query.months === undefined ? 12 : parseInt(req.query.months, 10);
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!(months >= 1 && months <= 36)) {
+      res.status(400).json({ error: 'Months must be between 1 and 36' });
+      return;
+    }
+    if (district && !districtRegistry.get(district)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    const strict = isStrict(req);
+    res.json(district
+      ? await inclusionService.getDistrict(district, monthYear, months, { strict })
+      : await inclusionService.getState(monthYear, months, { strict }));
+  } catch (error) {
+    console.error('Inclusion API error:', error);
+    res.status(500).json({ error: 'Failed to compute inclusion figures' });
+  }
+});
+
+// Share of wages paid within 15 days: with `district`, that district's
+// monthly series up to `month` and its trend; otherwise the statewide
+// distribution for `month` and the slowest-paying districts
+app.get('/api/timeliness', async (req, res) => {
+  try {
+    const { district } = req.query;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+    const months = req.query.months === undefined ? 12 : parseInt(req.query.months, 10);
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!(months >= 1 && months <= 36)) {
+      res.status(400).json({ error: 'Months must be between 1 and 36' });
+      return;
+    }
+    if (district && !districtRegistry.get(district)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    const strict = isStrict(req);
+    res.json(district
+      ? await timelinessService.getDistrict(district, monthYear, months, { strict })
+      : await timelinessService.getState(monthYear, { strict }));
+  } catch (error) {
+    console.error('Timeliness API error:', error);
+    res.status(500).json({ error: 'Failed to compute wage payment timeliness' });
+  }
+});
+
+// Completed and ongoing works: with `district`, that district's completion
+// ratio, works started and backlog for the `months` months up to `month`;
+// otherwise every district's figures for `month` with statewide totals
+app.get('/api/works', async (req, res) => {
+  try {
+    const { district } = req.query;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+    const months = req.query.months === undefined ? 12 : parseInt(req.query.months, 10);
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!(months >= 1 && months <= 36)) {
+      res.status(400).json({ error: 'Months must be between 1 and 36' });
+      return;
+    }
+    if (district && !districtRegistry.get(district)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    const strict = isStrict(req);
+    res.json(district
+      ? await worksService.getDistrict(district, monthYear, months, { strict })
+      : await worksService.getState(monthYear, { strict }));
+  } catch (error) {
+    console.error('Works API error:', error);
+    res.status(500).json({ error: 'Failed to compute works progress' });
   }
 });
 
+// Person-days and household achievement against the approved labour budget
+// for the financial year up to `month`, with the cumulative-vs-target curve
+app.get('/api/district/:code/targets', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!districtRegistry.get(code)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    res.json(await targetService.getAchievement(code, monthYear, { strict: isStrict(req) }));
+  } catch (error) {
+    console.error('Targets API error:', error);
+    res.status(500).json({ error: 'Failed to compute target achievement' });
+  }
+});
+
+// One-page printable PDF report card for a district and month
+app.get('/api/district/:code/report', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+    const lang = req.query.lang || 'en';
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (!REPORT_LANGUAGES.includes(lang)) {
+      res.status(400).json({ error: `Language must be one of: ${REPORT_LANGUAGES.join(', ')}` });
+      return;
+    }
+    if (!districtRegistry.get(code)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+    if (lang === 'te' && !reportPdfRenderer.hasTeluguFont()) {
+      res.status(503).json({ error: 'Telugu font is not installed' });
+      return;
+    }
+
+    const report = await reportCardService.build(code, monthYear, { lang, strict: isStrict(req) });
+    if (!report) {
+      res.status(404).json({ error: 'No data for this district and month' });
+      return;
+    }
+
+    const pdf = await reportPdfRenderer.render(report);
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `${disposition}; filename="mgnrega-${code}-report-${monthYear}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Report card error:', error);
+    res.status(500).json({ error: 'Failed to generate report card' });
+  }
+});
+
+// Export of one district's monthly history as CSV, XLSX or JSON
+app.get('/api/export/history/:code', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const format = req.query.format || 'csv';
+    const months = parseInt(req.query.months || 12, 10);
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (!Number.isInteger(months) || months < 1 || months > 60) {
+      res.status(400).json({ error: 'Months must be between 1 and 60' });
+      return;
+    }
+    if (!districtRegistry.get(code)) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    const table = await exportService.history(code, months, { strict: isStrict(req) });
+    sendExport(res, table, format, `mgnrega-${code}-history-${moment().format('YYYY-MM')}`);
+  } catch (error) {
+    console.error('History export error:', error);
+    res.status(500).json({ error: 'Failed to export historical data' });
+  }
+});
+
+// Export of a multi-district comparison for one month
+app.get('/api/export/comparison', async (req, res) => {
+  try {
+    const { districts } = req.query;
+    const format = req.query.format || 'csv';
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!districts) {
+      res.status(400).json({ error: 'Districts parameter required' });
+      return;
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+
+    const table = await exportService.comparison(districts.split(','), monthYear, { strict: isStrict(req) });
+    sendExport(res, table, format, `mgnrega-comparison-${monthYear}`);
+  } catch (error) {
+    console.error('Comparison export error:', error);
+    res.status(500).json({ error: 'Failed to export comparison data' });
+  }
+});
+
+// Export of every district's figures for one month
+app.get('/api/export/snapshot', async (req, res) => {
+  try {
+    const format = req.query.format || 'csv';
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+
+    const table = await exportService.snapshot(monthYear, { strict: isStrict(req) });
+    sendExport(res, table, format, `mgnrega-statewide-${monthYear}`);
+  } catch (error) {
+    console.error('Snapshot export error:', error);
+    res.status(500).json({ error: 'Failed to export statewide data' });
+  }
+});
+
+// Export of every district's inclusion shares against the norms for one month
+app.get('/api/export/inclusion', async (req, res) => {
+  try {
+    const format = req.query.format || 'csv';
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+
+    const table = await exportService.inclusionShares(monthYear, { strict: isStrict(req) });
+    sendExport(res, table, format, `mgnrega-inclusion-${monthYear}`);
+  } catch (error) {
+    console.error('Inclusion export error:', error);
+    res.status(500).json({ error: 'Failed to export inclusion figures' });
+  }
+});
+
+// Mandals of a district with their figures for a month
+app.get('/api/district/:code/mandals', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+
+    const district = districtRegistry.get(code);
+    if (!district) {
+      res.status(404).json({ error: 'District not found' });
+      return;
+    }
+
+    res.json({
+      district_code: district.code,
+      district_name: district.name,
+      month_year: monthYear,
+      mandals: await locationHierarchy.getMandals(district.code, monthYear)
+    });
+  } catch (error) {
+    console.error('Mandals error:', error);
+    res.status(500).json({ error: 'Failed to fetch mandals' });
+  }
+});
+
+// Mandal figures for a month, with its gram panchayats
+app.get('/api/mandal/:code/performance', async (req, res) => {
+  try {
+    const { code } = req.params;
+    const monthYear = req.query.month || moment().format('YYYY-MM');
+
+    if (!isValidMonth(monthYear)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+
+    const mandal = await locationHierarchy.getMandal(code);
+    if (!mandal) {
+      res.status(404).json({ error: 'Mandal not found' });
+      return;
+    }
+
+    res.json({
+      mandal_code: mandal.mandal_code,
+      mandal_name: mandal.mandal_name,
+      lgd_code: mandal.lgd_code,
+      district_code: mandal.district_code,
+      district_name: mandal.district_name,
+      month_year: monthYear,
+      performance: await locationHierarchy.getMandalPerformance(code, monthYear),
+      gram_panchayats: await locationHierarchy.getGramPanchayats(code, monthYear)
+    });
+  } catch (error) {
+    console.error('Mandal performance error:', error);
+    res.status(500).json({ error: 'Failed to fetch mandal performance' });
+  }
+});
+
+// Ingestion run history
+app.get('/api/ingestion/runs', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+    res.json(await ingestionService.getRecentRuns(limit));
+  } catch (error) {
+    console.error('Ingestion runs error:', error);
+    res.status(500).json({ error: 'Failed to fetch ingestion runs' });
+  }
+});
+
+// Problems found in ingested data, newest months first
+app.get('/api/data-quality', async (req, res) => {
+  try {
+    const { month, district, severity } = req.query;
+
+    if (month && !isValidMonth(month)) {
+      res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+      return;
+    }
+    if (severity && !SEVERITIES.includes(severity)) {
+      res.status(400).json({ error: `Severity must be one of: ${SEVERITIES.join(', ')}` });
+      return;
+    }
+
+    const issues = await dataQualityService.list({ month, district, severity });
+    const counts = Object.fromEntries(SEVERITIES.map(level => [level, issues.filter(found => found.severity === level).length]));
+    res.json({ total: issues.length, counts, issues });
+  } catch (error) {
+    console.error('Data quality error:', error);
+    res.status(500).json({ error: 'Failed to fetch data quality issues' });
+  }
+});
+
+// Uploaded labour budget targets, optionally for one financial year or district
+app.get('/api/targets', async (req, res) => {
+  try {
+    const { fy, district } = req.query;
+
+    if (fy && !/^\d{4}-\d{4}$/.test(fy)) {
+      res.status(400).json({ error: 'Financial year must be in YYYY-YYYY format' });
+      return;
+    }
+
+    res.json(await targetService.list({ financialYear: fy, district }));
+  } catch (error) {
+    console.error('Targets list error:', error);
+    res.status(500).json({ error: 'Failed to fetch targets' });
+  }
+});
+
+// Upload approved labour budget targets as CSV (text/csv) or JSON (an array
+// or { targets: [...] }). Columns: district_code or district_name,
+// financial_year, person_days_target, optional households_target and
+// optional month-wise person-days in apr ... mar. `source` names the upload.
+// Needs the admin token.
+app.post('/api/targets', requireAdmin, express.text({ type: 'text/csv', limit: '2mb' }), async (req, res) => {
+  try {
+    let records;
+    if (typeof req.body === 'string') {
+      records = parseCsv(req.body);
+    } else if (Array.isArray(req.body)) {
+      records = req.body;
+    } else {
+      records = req.body && Array.isArray(req.body.targets) ? req.body.targets : null;
+    }
+
+    if (!records || records.length === 0) {
+      res.status(400).json({ error: 'No target rows found' });
+      return;
+    }
+
+    const result = await targetService.import(records, { source: req.query.source || 'upload' });
+    res.status(result.rows_imported > 0 ? 201 : 400).json(result);
+  } catch (error) {
+    console.error('Targets upload error:', error);
+    res.status(500).json({ error: 'Failed to store targets' });
+  }
+});
+
+// Recipients are shown in full only to admins
+const showRule = (req, rule) => (isAdmin(req) ? rule : redactRule(rule));
+
+// Alert rules: metric, optional district (all districts when absent),
+// comparator (below, above, drop_pct), threshold, channel and recipient
+app.get('/api/alerts/rules', async (req, res) => {
+  try {
+    res.json((await alertService.listRules()).map(rule => showRule(req, rule)));
+  } catch (error) {
+    console.error('Alert rules error:', error);
+    res.status(500).json({ error: 'Failed to fetch alert rules' });
+  }
+});
+
+app.get('/api/alerts/rules/:id', async (req, res) => {
+  try {
+    const rule = await alertService.getRule(req.params.id);
+    if (!rule) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    res.json(showRule(req, rule));
+  } catch (error) {
+    console.error('Alert rule error:', error);
+    res.status(500).json({ error: 'Failed to fetch alert rule' });
+  }
+});
+
+app.post('/api/alerts/rules', requireAdmin, async (req, res) => {
+  try {
+    const { rule, error } = await alertService.createRule(req.body || {});
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Create alert rule error:', error);
+    res.status(500).json({ error: 'Failed to store alert rule' });
+  }
+});
+
+// Changes only the fields given, e.g. { "active": false } to pause a rule
+app.patch('/api/alerts/rules/:id', requireAdmin, async (req, res) => {
+  try {
+    const result = await alertService.updateRule(req.params.id, req.body || {});
+    if (!result) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    if (result.error) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+    res.json(result.rule);
+  } catch (error) {
+    console.error('Update alert rule error:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+app.delete('/api/alerts/rules/:id', requireAdmin, async (req, res) => {
+  try {
+    if (!(await alertService.deleteRule(req.params.id))) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Delete alert rule error:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+// Fired alerts, newest first, with their delivery status
+app.get('/api/alerts/history', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+    const history = await alertService.history({ ruleId: req.query.rule, district: req.query.district, limit });
+    res.json(isAdmin(req) ? history : history.map(entry => ({ ...entry, recipient: redactRecipient(entry.recipient) })));
+  } catch (error) {
+    console.error('Alert history error:', error);
+    res.status(500).json({ error: 'Failed to fetch alert history' });
+  }
+});
+
+// Scoring components and weights behind performance_score
+app.get('/api/scoring/config', (req, res) => {
+  res.json(scoringEngine.config);
+});
+
 // Data source information endpoint
 app.get('/api/data-source', (req, res) => {
   res.json({
@@ -654,49 +1160,35 @@ app.get('/api/data-source', (req, res) => {
     ministry: 'Ministry of Rural Development',
     department: 'Department of Rural Development (DRD)',
     last_updated: new Date().toISOString(),
+    strict_mode: STRICT_REAL_DATA,
     features: [
       'Real-time MGNREGA data from Government of India',
       'District-wise performance metrics',
       'Automatic data caching for reliability',
-      'Fallback to mock data if API unavailable',
+      'Fallback to mock data if API unavailable, or explicit gaps in strict mode',
       'Performance scoring based on actual metrics'
     ]
   });
 });
 
+// District boundaries for the choropleth map, or headquarters points without them
+app.get('/api/boundaries', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.json(districtLocator.toGeoJSON());
+});
+
 // Location-based district detection
 app.post('/api/detect-district', (req, res) => {
-  const { latitude, longitude } = req.body;
-  
-  if (!latitude || !longitude) {
+  const latitude = parseFloat(req.body.latitude);
+  const longitude = parseFloat(req.body.longitude);
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
     res.status(400).json({ error: 'Latitude and longitude required' });
     return;
   }
-  
-  // Find nearest district
-  let nearestDistrict = null;
-  let minDistance = Infinity;
-  
-  andhraPradeshDistricts.forEach(district => {
-    const distance = Math.sqrt(
-      Math.pow(district.lat - latitude, 2) + 
-      Math.pow(district.lng - longitude, 2)
-    );
-    
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearestDistrict = {
-        id: Math.floor(Math.random() * 1000),
-        district_code: district.code,
-        district_name: district.name,
-        state_name: 'Andhra Pradesh',
-        latitude: district.lat,
-        longitude: district.lng
-      };
-    }
-  });
-  
-  res.json(nearestDistrict);
+
+  res.json(districtLocator.locate(latitude, longitude));
 });
 
 // Serve static files
@@ -713,6 +1205,34 @@ app.use((err, req, res, next) => {
   res.status(500).json({ error: 'Something went wrong!' });
 });
 
+// Picks up mandal/GP files dropped into LOCAL_DATA_DIR
+const importLocalData = async () => {
+  try {
+    const results = await localDataImporter.importDropDirectory();
+    results.forEach(result => {
+      if (result.status === 'failed') {
+        console.error(`Could not import ${result.file_name}: ${result.error}`);
+        return;
+      }
+      console.log(`Imported ${result.file_name}: ${result.rows_imported} rows, ${result.rows_rejected} rejected`);
+    });
+  } catch (error) {
+    console.error('Local data import failed:', error);
+  }
+};
+
+// Sends the alerts that the month's figures fire
+const evaluateAlerts = async (monthYear) => {
+  try {
+    const summary = await alertService.evaluate(monthYear);
+    if (summary.alerts_sent > 0 || summary.alerts_failed > 0) {
+      console.log(`Alerts for ${monthYear}: ${summary.alerts_sent} sent, ${summary.alerts_failed} failed`);
+    }
+  } catch (error) {
+    console.error('Alert evaluation failed:', error);
+  }
+};
+
 // Scheduled data fetching (skip when read-only)
 if (!READ_ONLY_DB) {
   cron.schedule('0 */6 * * *', async () => {
@@ -720,26 +1240,34 @@ if (!READ_ONLY_DB) {
     
     try {
       const currentMonth = moment().format('YYYY-MM');
-      
-      for (const district of andhraPradeshDistricts) {
-        try {
-          await mgnregaService.fetchDistrictData(district.code, currentMonth);
-          console.log(`Fetched data for ${district.name}`);
-        } catch (error) {
-          console.error(`Failed to fetch data for ${district.name}:`, error);
-        }
-      }
+      const summary = await ingestionService.ingestMonth(currentMonth);
+      console.log(
+        `Ingested ${currentMonth}: ${summary.rows_fetched} rows, ` +
+        `${summary.districts_matched} districts matched, ` +
+        `${summary.districts_missing.length} missing`
+      );
     } catch (error) {
       console.error('Scheduled data fetch failed:', error);
     }
+
+    await importLocalData();
+    await evaluateAlerts(moment().format('YYYY-MM'));
   });
 }
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-});
+// Start server once the schema is up to date
+dbReady
+  .then(() => (READ_ONLY_DB ? null : importLocalData()))
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`Server running on port ${PORT}`);
+      console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    });
+  })
+  .catch(error => {
+    console.error('Database migration failed:', error);
+    process.exit(1);
+  });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
@@ -0,0 +1,103 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const sqlite3 = require('sqlite3');
+const { migrate } = require('../lib/migrations');
+const { PerformanceStore } = require('../lib/performanceStore');
+const { DataQualityService, checkRecord } = require('../lib/dataQuality');
+
+const config = DataQualityService.loadConfig();
+
+const record = (monthYear, fields = {}) => ({
+  district_code: 'AP001',
+  month_year: monthYear,
+  total_households: 30000,
+  total_person_days: 600000,
+  total_amount_spent: 18,
+  avg_days_per_household: 20,
+  average_wage_rate: 290,
+  data_source: 'data.gov.in',
+  ...fields
+});
+
+const raw = (fields = {}) => ({
+  Total_Households_Worked: '30000',
+  Persondays_of_Central_Liability_so_far: '600000',
+  Total_Exp: '18',
+  Average_days_of_employment_provided_per_Household: '20',
+  Average_Wage_rate_per_day_per_person: '290',
+  ...fields
+});
+
+const rules = (issues) => issues.map(found => `${found.rule}:${found.metric}`);
+
+test('a normal month raises nothing', () => {
+  assert.deepStrictEqual(checkRecord(record('2025-06'), { raw: raw(), config }), []);
+});
+
+test('unreadable upstream fields are reported instead of passing as zero', () => {
+  const issues = checkRecord(record('2025-06', { total_households: 0 }), {
+    raw: raw({ Total_Households_Worked: '', Total_Exp: 'NA' }),
+    config
+  });
+  assert.deepStrictEqual(rules(issues), ['unreadable_field:total_households', 'unreadable_field:total_amount_spent']);
+});
+
+test('zero households, impossible days and off-rate wages are rule failures', () => {
+  const issues = checkRecord(record('2025-06', { total_households: 0, avg_days_per_household: 180, average_wage_rate: 120 }), {
+    raw: raw(),
+    config
+  });
+  assert.deepStrictEqual(rules(issues), [
+    'zero_households:total_households',
+    'wage_out_of_range:average_wage_rate',
+    'days_over_limit:avg_days_per_household'
+  ]);
+  assert.deepStrictEqual(issues.map(found => found.severity), ['error', 'warning', 'error']);
+  assert.strictEqual(issues[1].expected, 307);
+});
+
+test('a 90% fall from the previous month is a sharp drop, except in April', () => {
+  const june = checkRecord(record('2025-06', { total_person_days: 50000 }), { history: [record('2025-05')], config });
+  assert.deepStrictEqual(rules(june), ['sharp_drop:total_person_days']);
+  assert.strictEqual(june[0].expected, 600000);
+  assert.match(june[0].message, /fell 92%/);
+
+  const april = checkRecord(record('2025-04', { total_person_days: 50000 }), { history: [record('2025-03')], config });
+  assert.deepStrictEqual(rules(april), []);
+});
+
+test('monthly rises far from the district\'s usual rise are outliers', () => {
+  // Running totals restarting in April; each month adds about 3,000 households
+  const totals = { '2024-11': 20000, '2024-12': 23000, '2025-01': 26200, '2025-02': 29000, '2025-03': 32100, '2025-04': 3000, '2025-05': 6100 };
+  const history = Object.entries(totals).map(([monthYear, households]) => record(monthYear, { total_households: households }));
+
+  // Far below last year's totals, but a usual rise for June
+  assert.deepStrictEqual(rules(checkRecord(record('2025-06', { total_households: 9100 }), { history, config })), []);
+  const issues = checkRecord(record('2025-06', { total_households: 20000 }), { history, config });
+  assert.deepStrictEqual(rules(issues), ['outlier:total_households']);
+  assert.deepStrictEqual([issues[0].value, issues[0].expected], [13900, 3050]);
+  assert.match(issues[0].message, /rose far more/);
+
+  // Too little history to judge
+  assert.deepStrictEqual(rules(checkRecord(record('2025-06', { total_households: 20000 }), { history: history.slice(3), config })), []);
+});
+
+test('issues are stored per district month and replaced on re-ingestion', async () => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  const store = new PerformanceStore({ db });
+  const quality = new DataQualityService({ db, store, config });
+
+  await store.save(record('2025-05'));
+  const june = record('2025-06', { total_person_days: 1000 });
+  const issues = await quality.inspect(june, raw());
+  assert.deepStrictEqual(rules(issues), ['sharp_drop:total_person_days']);
+
+  await quality.save('AP001', '2025-06', issues);
+  await quality.save('AP002', '2025-06', checkRecord(record('2025-06', { district_code: 'AP002', total_households: 0 }), { config }));
+  assert.strictEqual((await quality.list({ month: '2025-06' })).length, 2);
+  assert.deepStrictEqual((await quality.list({ severity: 'error' })).map(found => found.district_code), ['AP002']);
+
+  await quality.save('AP001', '2025-06', []);
+  assert.deepStrictEqual((await quality.list()).map(found => found.district_code), ['AP002']);
+});
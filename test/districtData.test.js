@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictDataService } = require('../lib/districtData');
+
+const row = (source) => ({ district_code: 'AP001', month_year: '2025-06', total_households: 100, data_source: source });
+
+// Stubs for the store, ingestion and upstream client, recording each call
+const setup = ({ stored = null, ingested = null, upstream = null, readOnly = false } = {}) => {
+  const calls = { ensureMonth: 0, fetchDistrictData: [], saved: [] };
+  let current = stored;
+  const data = new DistrictDataService({
+    readOnly,
+    store: {
+      get: async () => current,
+      save: async (record) => { calls.saved.push(record); }
+    },
+    ingestion: {
+      ensureMonth: async () => {
+        calls.ensureMonth++;
+        if (ingested) current = ingested;
+      }
+    },
+    service: {
+      fetchDistrictData: async (...args) => {
+        calls.fetchDistrictData.push(args);
+        return upstream;
+      },
+      generateMockData: () => row('mock_data'),
+      scoreRecord: (record) => ({ ...record, performance_score: 50 })
+    }
+  });
+  return { data, calls };
+};
+
+test('strict mode gives null rather than mock or legacy figures', async () => {
+  const empty = setup();
+  assert.strictEqual(await empty.data.getDistrictMonth('AP001', '2025-06', { strict: true }), null);
+  assert.deepStrictEqual(empty.calls.saved, []);
+
+  const legacy = setup({ stored: row('legacy') });
+  assert.strictEqual(await legacy.data.getDistrictMonth('AP001', '2025-06', { strict: true }), null);
+  assert.strictEqual((await legacy.data.getDistrictMonth('AP001', '2025-06')).data_source, 'legacy');
+
+  const mock = await empty.data.getDistrictMonth('AP001', '2025-06');
+  assert.strictEqual(mock.data_source, 'mock_data');
+  assert.strictEqual(empty.calls.saved.length, 1);
+});
+
+test('a stored official row is served without ingesting the month again', async () => {
+  const { data, calls } = setup({ stored: row('data.gov.in') });
+  const record = await data.getDistrictMonth('AP001', '2025-06', { strict: true });
+  assert.deepStrictEqual([record.data_source, record.performance_score, record.provenance.source], ['data.gov.in', 50, 'data.gov.in']);
+  assert.strictEqual(calls.ensureMonth, 0);
+});
+
+test('a month ingested on demand is served in strict mode', async () => {
+  const { data, calls } = setup({ ingested: row('data.gov.in') });
+  assert.strictEqual((await data.getDistrictMonth('AP001', '2025-06', { strict: true })).data_source, 'data.gov.in');
+  assert.strictEqual(calls.ensureMonth, 1);
+});
+
+test('read-only deployments ask upstream for official figures only', async () => {
+  const { data, calls } = setup({ readOnly: true });
+  assert.strictEqual(await data.getDistrictMonth('AP001', '2025-06', { strict: true }), null);
+  assert.deepStrictEqual(calls.fetchDistrictData, [['AP001', '2025-06', { strict: true }]]);
+  assert.strictEqual(calls.ensureMonth, 0);
+
+  const served = setup({ readOnly: true, upstream: row('data.gov.in') });
+  assert.strictEqual((await served.data.getDistrictMonth('AP001', '2025-06', { strict: true })).data_source, 'data.gov.in');
+
+  // Mock figures aren't stored in read-only mode
+  assert.strictEqual((await data.getDistrictMonth('AP001', '2025-06')).data_source, 'mock_data');
+  assert.deepStrictEqual(calls.saved, []);
+});
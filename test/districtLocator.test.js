@@ -0,0 +1,112 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { DistrictLocator, pointInGeometry } = require('../lib/districtLocator');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const square = {
+  type: 'Polygon',
+  coordinates: [
+    [[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]],
+    [[1, 1], [2, 1], [2, 2], [1, 2], [1, 1]]
+  ]
+};
+
+const box = (code, west, south, east, north) => ({
+  type: 'Feature',
+  properties: { district_code: code },
+  geometry: { type: 'Polygon', coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]] }
+});
+
+// Two made-up neighbouring districts; only the lookup logic is under test
+const locator = new DistrictLocator({
+  registry,
+  boundaries: { type: 'FeatureCollection', features: [box('AP022', 80.0, 16.3, 80.9, 17.2), box('AP005', 80.9, 15.7, 81.6, 16.6)] }
+});
+
+// Towns near district borders and the district each belongs to since the
+// April 2022 reorganisation
+const BORDER_TOWNS = [
+  ['Ongole', 15.5057, 80.0499, 'AP008'],
+  ['Bhimavaram', 16.5449, 81.5212, 'AP012'],
+  ['Gudivada', 16.4350, 80.9956, 'AP005'],
+  ['Bheemunipatnam', 17.8896, 83.4500, 'AP010'],
+  ['Bobbili', 18.5730, 83.3580, 'AP011'],
+  ['Kovvur', 17.0167, 81.7333, 'AP003'],
+  ['Rampachodavaram', 17.4420, 81.7750, 'AP014'],
+  ['Jaggayyapeta', 16.8920, 80.0977, 'AP022']
+];
+
+test('point-in-polygon honours holes', () => {
+  assert.strictEqual(pointInGeometry(3, 3, square), true);
+  assert.strictEqual(pointInGeometry(1.5, 1.5, square), false);
+  assert.strictEqual(pointInGeometry(5, 5, square), false);
+});
+
+test('points inside a boundary take that district, not the nearest headquarters', () => {
+  // Nearer Krishna's headquarters than NTR's, but inside NTR's boundary
+  const result = locator.locate(16.31, 80.89);
+  assert.strictEqual(result.method, 'polygon');
+  assert.strictEqual(result.district_code, 'AP022');
+  assert.strictEqual(result.inside_state, true);
+  assert.ok(result.distance_to_boundary_km > 0 && result.distance_to_boundary_km < 5);
+});
+
+test('coordinates far from every boundary are outside the state', () => {
+  const result = locator.locate(17.385, 78.4867);
+  assert.strictEqual(result.inside_state, false);
+  assert.strictEqual(result.district_code, undefined);
+  assert.ok(result.distance_to_boundary_km > 10);
+});
+
+test('points just outside the boundaries fall back to the nearest headquarters', () => {
+  const result = locator.locate(16.0, 81.645);
+  assert.strictEqual(result.inside_state, true);
+  assert.strictEqual(result.method, 'nearest_centroid');
+  assert.strictEqual(result.district_code, 'AP005');
+});
+
+test('without boundaries every point uses the nearest centroid and the state is unknown', () => {
+  const fallback = DistrictLocator.fromFile(registry);
+  assert.strictEqual(fallback.hasBoundaries, false);
+  const result = fallback.locate(16.51, 80.65);
+  assert.strictEqual(result.method, 'nearest_centroid');
+  assert.strictEqual(result.district_code, 'AP022');
+  assert.strictEqual(result.inside_state, null);
+  assert.strictEqual(result.distance_to_boundary_km, null);
+});
+
+test('without boundaries points clearly outside the state are turned away', () => {
+  const fallback = DistrictLocator.fromFile(registry);
+  // Delhi is outside the state's bounding box; Hyderabad and Bengaluru are
+  // inside it but too far from every district headquarters
+  [['Delhi', 28.61, 77.21], ['Hyderabad', 17.385, 78.4867], ['Bengaluru', 12.97, 77.59]].forEach(([city, lat, lng]) => {
+    const result = fallback.locate(lat, lng);
+    assert.strictEqual(result.inside_state, false, city);
+    assert.strictEqual(result.district_code, undefined, city);
+  });
+  // The state's far corners are still placed
+  assert.strictEqual(fallback.locate(19.11, 84.69).district_code, 'AP009');
+  assert.strictEqual(fallback.locate(12.75, 78.34).inside_state, null);
+});
+
+// Runs against the official boundaries the deployment is configured with
+test('border towns resolve to their own district', { skip: !process.env.DISTRICT_BOUNDARIES && 'DISTRICT_BOUNDARIES not set' }, () => {
+  const official = DistrictLocator.fromFile(registry, process.env.DISTRICT_BOUNDARIES);
+  BORDER_TOWNS.forEach(([town, lat, lng, code]) => {
+    const result = official.locate(lat, lng);
+    assert.strictEqual(result.method, 'polygon', town);
+    assert.strictEqual(result.district_code, code, town);
+  });
+});
+
+test('without boundaries the map gets a headquarters point per district', () => {
+  const { features } = DistrictLocator.fromFile(registry).toGeoJSON();
+  assert.strictEqual(features.length, registry.list().length);
+  const ntr = features.find(feature => feature.properties.district_code === 'AP022');
+  assert.strictEqual(ntr.geometry.type, 'Point');
+  assert.deepStrictEqual(ntr.geometry.coordinates, [registry.get('AP022').lng, registry.get('AP022').lat]);
+  assert.strictEqual(locator.toGeoJSON().features.length, 2);
+});
@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const sqlite3 = require('sqlite3');
+const { migrate } = require('../lib/migrations');
+const { DistrictRegistry, normalizeDistrictName } = require('../lib/districtRegistry');
+
+const openRegistry = async () => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  const registry = new DistrictRegistry({ db });
+  await registry.seed(DistrictRegistry.loadSeed());
+  await registry.load();
+  return registry;
+};
+
+test('normalizes punctuation and spacing out of names', () => {
+  assert.strictEqual(normalizeDistrictName('Y.S.R. Kadapa'), 'ysrkadapa');
+  assert.strictEqual(normalizeDistrictName(' East  Godavari '), 'eastgodavari');
+});
+
+test('resolves upstream spellings through the alias table', async () => {
+  const registry = await openRegistry();
+  assert.strictEqual(registry.resolve('YSR KADAPA'), 'AP013');
+  assert.strictEqual(registry.resolve('Sri Potti Sriramulu Nellore'), 'AP007');
+  assert.strictEqual(registry.resolve('NTR'), 'AP022');
+  assert.strictEqual(registry.resolve('Godavari'), null);
+});
+
+test('links new districts to the districts they were carved from', async () => {
+  const registry = await openRegistry();
+  const { parents } = registry.getLineage('AP022');
+  assert.deepStrictEqual(parents.map(d => d.code), ['AP005']);
+  assert.ok(registry.getLineage('AP005').children.some(d => d.code === 'AP022'));
+});
+
+test('queues unmatched names and resolves them when an alias is added', async () => {
+  const registry = await openRegistry();
+  await registry.recordUnmatched('Kadapa Dist.', '2025-05');
+  await registry.recordUnmatched('Kadapa Dist.', '2025-06');
+
+  let [review] = await registry.getUnmatched();
+  assert.strictEqual(review.occurrences, 2);
+  assert.strictEqual(review.last_month_year, '2025-06');
+
+  await registry.addAlias('Kadapa Dist.', 'AP013');
+  [review] = await registry.getUnmatched();
+  assert.strictEqual(review.resolved_code, 'AP013');
+  assert.strictEqual(registry.resolve('kadapa dist'), 'AP013');
+});
+
+test('names already mapped to another district move only with an override', async () => {
+  const registry = await openRegistry();
+  await assert.rejects(registry.addAlias('Y.S.R. Kadapa', 'AP001'), /already maps to AP013/);
+  assert.strictEqual(registry.resolve('YSR Kadapa'), 'AP013');
+
+  // Re-adding the same mapping is harmless
+  await registry.addAlias('Y.S.R. Kadapa', 'AP013');
+  await registry.addAlias('Y.S.R. Kadapa', 'AP001', { override: true });
+  await registry.load();
+  assert.strictEqual(registry.resolve('YSR Kadapa'), 'AP001');
+});
+
+test('seeding twice keeps runtime aliases', async () => {
+  const registry = await openRegistry();
+  await registry.addAlias('Cuddapah', 'AP013');
+  await registry.seed(DistrictRegistry.loadSeed());
+  await registry.load();
+  assert.strictEqual(registry.resolve('Cuddapah'), 'AP013');
+  assert.strictEqual(registry.list().length, 26);
+});
@@ -0,0 +1,128 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const zlib = require('zlib');
+const { parseCsv, toCsv } = require('../lib/csv');
+const { toXlsx, columnName } = require('../lib/xlsx');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { ExportService } = require('../lib/exports');
+const { InclusionService } = require('../lib/inclusion');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+// Reads entries back out of a ZIP via its central directory
+function unzip(buffer) {
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buffer.readUInt16LE(end + 10);
+  let pointer = buffer.readUInt32LE(end + 16);
+  const files = {};
+  for (let i = 0; i < count; i++) {
+    const size = buffer.readUInt32LE(pointer + 20);
+    const nameLength = buffer.readUInt16LE(pointer + 28);
+    const offset = buffer.readUInt32LE(pointer + 42);
+    const name = buffer.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+    const dataStart = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+    files[name] = zlib.inflateRawSync(buffer.subarray(dataStart, dataStart + size)).toString('utf8');
+    pointer += 46 + nameLength;
+  }
+  return files;
+}
+
+const historyRow = (month, source) => ({
+  district_code: 'AP001',
+  month_year: month,
+  total_households: 1200,
+  total_person_days: 30000,
+  total_amount_spent: 0.75,
+  avg_days_per_household: 25,
+  performance_score: 62,
+  data_source: source,
+  provenance: { source, fetched_at: '2025-07-01T00:00:00.000Z', record_id: source === 'data.gov.in' ? '2025-2026:Jun:AP001' : null }
+});
+
+const exporter = new ExportService({
+  data: {
+    getDistrictHistory: async () => [historyRow('2025-05', 'data.gov.in'), historyRow('2025-06', 'mock_data')]
+  },
+  store: {
+    getMonth: async () => [{ district_code: 'AP002', month_year: '2025-06', total_households: 900, data_source: 'data.gov.in' }]
+  },
+  service: { scoreRecord: (record) => ({ ...record, performance_score: 50 }) },
+  registry
+});
+
+test('CSV cells with commas, quotes and newlines are quoted', () => {
+  const csv = toCsv([['name', 'note'], ['Sri Potti Sriramulu Nellore', 'says "hi", twice\nthen stops']]);
+  assert.deepStrictEqual(parseCsv(csv), [{ name: 'Sri Potti Sriramulu Nellore', note: 'says "hi", twice\nthen stops' }]);
+});
+
+test('CSV text that a spreadsheet would run as a formula is neutralised', () => {
+  assert.strictEqual(toCsv([['=HYPERLINK("x")', -5]]), `"'=HYPERLINK(""x"")",-5\r\n`);
+});
+
+test('XLSX output is a readable workbook with typed cells', () => {
+  const files = unzip(toXlsx([['District', 'Households'], ['Kurnool <KNL>', 1200]], { name: 'history', boldRows: [0] }));
+  assert.ok(files['[Content_Types].xml'].includes('spreadsheetml.sheet.main+xml'));
+  assert.ok(files['xl/workbook.xml'].includes('name="history"'));
+
+  const sheet = files['xl/worksheets/sheet1.xml'];
+  assert.ok(sheet.includes('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">District</t>'));
+  assert.ok(sheet.includes('Kurnool &lt;KNL&gt;'));
+  assert.ok(sheet.includes('<c r="B2"><v>1200</v></c>'));
+  assert.strictEqual(columnName(27), 'AB');
+});
+
+test('history export carries metadata and flattened provenance', async () => {
+  const table = await exporter.history('AP001', 2);
+  assert.strictEqual(table.metadata.view, 'history');
+  assert.strictEqual(table.metadata.provenance, 'data.gov.in: 1; mock_data: 1');
+  assert.ok(table.metadata.generated_at);
+
+  const csv = ExportService.render(table, 'csv').toString('utf8');
+  assert.ok(csv.startsWith('\uFEFFtitle,MGNREGA history – Anantapur'));
+
+  const [, data] = csv.split('\r\n\r\n');
+  const [first, second] = parseCsv(data);
+  assert.strictEqual(first['Financial Year'], '2025-2026');
+  assert.strictEqual(first['Upstream Record ID'], '2025-2026:Jun:AP001');
+  assert.strictEqual(second['Data Source'], 'mock_data');
+});
+
+test('JSON export lists rows by column key', async () => {
+  const json = JSON.parse(ExportService.render(await exporter.history('AP001', 2), 'json').toString('utf8'));
+  assert.strictEqual(json.metadata.district_code, 'AP001');
+  assert.strictEqual(json.rows[0].total_households, 1200);
+  assert.strictEqual(json.rows[0].district_name, 'Anantapur');
+});
+
+test('statewide snapshot lists districts without data as missing', async () => {
+  const table = await exporter.snapshot('2025-06');
+  assert.strictEqual(table.rows.length, 26);
+  const anantapur = table.rows.find(row => row.district_code === 'AP001');
+  const chittoor = table.rows.find(row => row.district_code === 'AP002');
+  assert.strictEqual(anantapur.data_source, 'missing');
+  assert.strictEqual(chittoor.performance_score, 50);
+  assert.strictEqual(table.metadata.provenance, 'missing: 25; data.gov.in: 1');
+});
+
+test('inclusion export lists each district\'s shares against the norms', async () => {
+  const store = {
+    getMonth: async () => [{
+      district_code: 'AP002', month_year: '2025-06', data_source: 'data.gov.in',
+      total_person_days: 1000, women_persondays: 300, sc_persondays: 200, st_persondays: 80,
+      total_individuals_worked: 500, differently_abled_worked: 30
+    }]
+  };
+  const inclusion = new InclusionService({ data: null, store, registry });
+  const table = await new ExportService({ store, registry, inclusion }).inclusionShares('2025-06');
+
+  assert.strictEqual(table.metadata.view, 'inclusion');
+  assert.strictEqual(table.metadata.norms, 'Women: 33.33%; SC: 17.08%; ST: 5.53%; Differently Abled: 5%');
+  assert.deepStrictEqual(table.columns.map(column => column.label).slice(4, 9),
+    ['Women Share (%)', 'SC Share (%)', 'ST Share (%)', 'Differently Abled Share (%)', 'Below Norm']);
+
+  const [, data] = ExportService.render(table, 'csv').toString('utf8').split('\r\n\r\n');
+  const chittoor = parseCsv(data).find(row => row['District Code'] === 'AP002');
+  assert.deepStrictEqual([chittoor['Women Share (%)'], chittoor['ST Share (%)'], chittoor['Below Norm']], ['30', '8', 'women']);
+  assert.strictEqual(table.rows.find(row => row.district_code === 'AP001').data_source, 'missing');
+});
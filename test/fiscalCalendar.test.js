@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const {
+  toFinYear,
+  toMonthName,
+  toUpstreamQuery,
+  fromUpstream,
+  fyStart,
+  fyEnd,
+  addMonths,
+  fyMonthsToDate,
+  fyMonths
+} = require('../lib/fiscalCalendar');
+
+test('January to March belong to the previous financial year', () => {
+  assert.strictEqual(toFinYear('2025-01'), '2024-2025');
+  assert.strictEqual(toFinYear('2025-03'), '2024-2025');
+});
+
+test('April starts a new financial year', () => {
+  assert.strictEqual(toFinYear('2025-04'), '2025-2026');
+  assert.strictEqual(toFinYear('2024-12'), '2024-2025');
+});
+
+test('builds the upstream fin_year/month query', () => {
+  assert.deepStrictEqual(toUpstreamQuery('2025-02'), { finYear: '2024-2025', monthName: 'Feb' });
+  assert.deepStrictEqual(toUpstreamQuery('2025-06'), { finYear: '2025-2026', monthName: 'Jun' });
+  assert.strictEqual(toMonthName('2024-12'), 'Dec');
+});
+
+test('round-trips upstream fin_year/month back to YYYY-MM', () => {
+  ['2024-03', '2024-04', '2024-12', '2025-01'].forEach(monthYear => {
+    const { finYear, monthName } = toUpstreamQuery(monthYear);
+    assert.strictEqual(fromUpstream(finYear, monthName), monthYear);
+  });
+  assert.strictEqual(fromUpstream('2024-25', 'January'), '2025-01');
+});
+
+test('financial year start and end', () => {
+  assert.strictEqual(fyStart('2024-2025'), '2024-04');
+  assert.strictEqual(fyEnd('2024-2025'), '2025-03');
+});
+
+test('adds months across calendar year boundaries', () => {
+  assert.strictEqual(addMonths('2024-12', 1), '2025-01');
+  assert.strictEqual(addMonths('2025-01', -1), '2024-12');
+  assert.strictEqual(addMonths('2025-03', -15), '2023-12');
+});
+
+test('lists financial-year-to-date months across the new year', () => {
+  assert.deepStrictEqual(fyMonthsToDate('2024-04'), ['2024-04']);
+  const toFeb = fyMonthsToDate('2025-02');
+  assert.strictEqual(toFeb.length, 11);
+  assert.strictEqual(toFeb[0], '2024-04');
+  assert.strictEqual(toFeb[toFeb.length - 1], '2025-02');
+  assert.strictEqual(fyMonths('2024-2025').length, 12);
+});
+
+test('rejects malformed input', () => {
+  assert.throws(() => toFinYear('2025-13'));
+  assert.throws(() => toFinYear('June 2025'));
+  assert.throws(() => fromUpstream('2024-2025', 'Foo'));
+});
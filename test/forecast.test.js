@@ -0,0 +1,97 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { addMonths } = require('../lib/fiscalCalendar');
+const { ForecastService, forecastSeries, seasonalIndices } = require('../lib/forecast');
+
+// Person-days peak in May and are lowest in the monsoon months
+const SEASON = { 1: 1.2, 2: 1.3, 3: 1.4, 4: 1.4, 5: 1.6, 6: 1.0, 7: 0.6, 8: 0.5, 9: 0.5, 10: 0.6, 11: 0.8, 12: 1.1 };
+
+// Each month's person-days, for `count` months ending at `endMonth`
+const seasonalRises = (endMonth, count, base = 100000) => Array.from({ length: count }, (_, i) => {
+  const monthYear = addMonths(endMonth, i - count + 1);
+  return { month_year: monthYear, value: base * SEASON[parseInt(monthYear.slice(5), 10)] };
+});
+
+// Rows reporting the rises the way upstream does, as running totals from April
+const runningRows = (rises) => {
+  let total = 0;
+  return rises.map(({ month_year, value }) => {
+    total = month_year.endsWith('-04') ? value : total + value;
+    return { month_year, total_person_days: total, data_source: 'data.gov.in' };
+  });
+};
+
+const seasonalRows = (endMonth, count) => runningRows(seasonalRises(endMonth, count));
+
+test('seasonal indices average to one across the observed months', () => {
+  const indices = seasonalIndices(seasonalRises('2025-03', 24));
+  const values = [...indices.values()];
+  assert.ok(Math.abs(values.reduce((sum, value) => sum + value, 0) / 12 - 1) < 1e-9);
+  assert.ok(indices.get(5) > indices.get(8));
+});
+
+test('projects the running total to the FY end following the district\'s season', () => {
+  const result = forecastSeries(seasonalRows('2025-06', 27), '2025-06', 'total_person_days');
+  assert.strictEqual(result.method, 'seasonal');
+  assert.deepStrictEqual(result.forecast.map(point => point.month_year), [
+    '2025-07', '2025-08', '2025-09', '2025-10', '2025-11', '2025-12', '2026-01', '2026-02', '2026-03'
+  ]);
+  // A perfectly seasonal series is reproduced exactly: June's total of
+  // 400,000 plus each month's rise
+  assert.strictEqual(result.forecast[0].value, 460000);
+  assert.strictEqual(result.forecast[8].value, 1200000);
+  assert.deepStrictEqual(result.fy_to_date, { value: 400000, months_reported: 3, months_elapsed: 3 });
+  assert.deepStrictEqual(result.fy_projected_total, { value: 1200000, lower: 1200000, upper: 1200000 });
+});
+
+test('months not yet reported are projected into the total', () => {
+  const result = forecastSeries(seasonalRows('2025-04', 25), '2025-06', 'total_person_days');
+  assert.deepStrictEqual(result.fy_to_date, { value: 140000, months_reported: 1, months_elapsed: 3 });
+  assert.deepStrictEqual([result.forecast[0].month_year, result.forecast[0].value], ['2025-07', 460000]);
+  assert.strictEqual(result.fy_projected_total.value, 1200000);
+});
+
+test('intervals contain the projection and widen with the horizon', () => {
+  const rises = seasonalRises('2025-06', 27).map((point, i) => ({ ...point, value: point.value * [1, 1.1, 0.9, 1.05, 0.95][i % 5] }));
+  const { forecast, fy_projected_total } = forecastSeries(runningRows(rises), '2025-06', 'total_person_days');
+  forecast.forEach(point => assert.ok(point.lower <= point.value && point.value <= point.upper));
+  assert.ok(forecast[8].upper - forecast[8].lower > forecast[0].upper - forecast[0].lower);
+  assert.ok(fy_projected_total.lower < fy_projected_total.value && fy_projected_total.value < fy_projected_total.upper);
+  assert.strictEqual(fy_projected_total.value, forecast[8].value);
+});
+
+test('with under a year of data the recent level is carried forward', () => {
+  // May is missing, so June's rise is unknown and April's is the only one
+  const rows = [
+    { month_year: '2025-04', total_person_days: 100000 },
+    { month_year: '2025-05', total_person_days: null },
+    { month_year: '2025-06', total_person_days: 300000 }
+  ];
+  const result = forecastSeries(rows, '2025-06', 'total_person_days');
+  assert.strictEqual(result.method, 'level');
+  assert.strictEqual(result.relative_error, 0.25);
+  assert.deepStrictEqual(result.forecast.map(point => point.value), [400000, 500000, 600000, 700000, 800000, 900000, 1000000, 1100000, 1200000]);
+  assert.deepStrictEqual(result.fy_to_date, { value: 300000, months_reported: 2, months_elapsed: 3 });
+});
+
+test('no data means no projection', () => {
+  const result = forecastSeries([], '2025-06', 'total_amount_spent');
+  assert.deepStrictEqual(result.forecast, []);
+  assert.strictEqual(result.fy_projected_total, null);
+});
+
+test('service reads three years up to the month and forecasts both metrics', async () => {
+  const forecasts = new ForecastService({
+    data: {
+      getDistrictHistory: async (code, months, { endMonth, strict }) => {
+        assert.deepStrictEqual([code, months, endMonth, strict], ['AP001', 36, '2026-01', true]);
+        return seasonalRows('2026-01', 36);
+      }
+    }
+  });
+  const result = await forecasts.getForecast('AP001', '2026-01', { strict: true });
+  assert.strictEqual(result.financial_year, '2025-2026');
+  assert.strictEqual(result.confidence, 0.95);
+  assert.deepStrictEqual(result.metrics.total_person_days.forecast.map(point => point.month_year), ['2026-02', '2026-03']);
+  assert.strictEqual(result.metrics.total_amount_spent.fy_projected_total, null);
+});
@@ -0,0 +1,88 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { InclusionService, groupShares } = require('../lib/inclusion');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const config = InclusionService.loadConfig();
+
+const row = (code, month, women, source = 'data.gov.in') => ({
+  district_code: code,
+  month_year: month,
+  total_person_days: 1000,
+  women_persondays: women,
+  sc_persondays: 150,
+  st_persondays: 60,
+  total_individuals_worked: 500,
+  differently_abled_worked: 30,
+  data_source: source
+});
+
+test('shares are percentages of the rows taken together, flagged below the norm', () => {
+  const shares = groupShares([row('AP001', '2025-06', 300), { ...row('AP002', '2025-06', 500), total_person_days: 3000 }], config.groups);
+  assert.deepStrictEqual(shares.women, { share: 20, norm: 33.33, below_norm: true });
+  assert.deepStrictEqual(shares.sc, { share: 7.5, norm: 17.08, below_norm: true });
+
+  const single = groupShares([row('AP001', '2025-06', 400)], config.groups);
+  assert.deepStrictEqual(single.women, { share: 40, norm: 33.33, below_norm: false });
+  assert.deepStrictEqual(single.differently_abled, { share: 6, norm: 5, below_norm: false });
+});
+
+test('a group with no figures has no share and is not flagged', () => {
+  const shares = groupShares([{ ...row('AP001', '2025-06', null), st_persondays: null }], config.groups);
+  assert.deepStrictEqual(shares.st, { share: null, norm: 5.53, below_norm: false });
+  assert.deepStrictEqual(groupShares([], config.groups).women.share, null);
+});
+
+test('statewide view flags every district below a norm for the month', async () => {
+  const rows = [
+    row('AP001', '2025-06', 400), row('AP002', '2025-06', 250), row('AP003', '2025-06', 100, 'mock_data'),
+    row('AP001', '2025-05', 400)
+  ];
+  const inclusion = new InclusionService({
+    store: { getMonth: async (monthYear, { officialOnly = false } = {}) => rows.filter(r => r.month_year === monthYear && (!officialOnly || r.data_source === 'data.gov.in')) },
+    registry,
+    config
+  });
+
+  const result = await inclusion.getState('2025-06', 2, { strict: true });
+  assert.deepStrictEqual(result.series.map(point => [point.month_year, point.districts_reporting, point.groups.women.share]), [
+    ['2025-05', 1, 40],
+    ['2025-06', 2, 32.5]
+  ]);
+  assert.deepStrictEqual(result.series[1].below_norm, ['women', 'sc']);
+  assert.strictEqual(result.norms.women.norm, 33.33);
+
+  const [first, second, third] = result.districts;
+  assert.deepStrictEqual(first.below_norm, ['sc']);
+  assert.deepStrictEqual(second.below_norm, ['women', 'sc']);
+  // Mock rows don't count in strict mode
+  assert.deepStrictEqual([third.data_source, third.below_norm], ['missing', []]);
+  assert.strictEqual(result.districts_flagged, 2);
+});
+
+test('district view reads each month through the data service', async () => {
+  const inclusion = new InclusionService({
+    data: {
+      getDistrictMonth: async (code, monthYear, { strict }) => {
+        assert.deepStrictEqual([code, strict], ['AP004', true]);
+        return monthYear === '2025-06' ? row(code, monthYear, 300) : null;
+      }
+    },
+    config
+  });
+
+  const result = await inclusion.getDistrict('AP004', '2025-06', 3, { strict: true });
+  assert.deepStrictEqual(result.series.map(point => [point.month_year, point.data_source, point.groups.women.share]), [
+    ['2025-04', 'missing', null],
+    ['2025-05', 'missing', null],
+    ['2025-06', 'data.gov.in', 30]
+  ]);
+  assert.deepStrictEqual(result.series[2].below_norm, ['women', 'sc']);
+});
+
+test('a config without groups is rejected', () => {
+  assert.throws(() => new InclusionService({ config: { groups: {} } }), /at least one group/);
+});
@@ -0,0 +1,102 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const sqlite3 = require('sqlite3');
+const { migrate } = require('../lib/migrations');
+const { transaction } = require('../lib/database');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { PerformanceStore } = require('../lib/performanceStore');
+const { IngestionService } = require('../lib/ingestion');
+
+const upstream = (name, households) => ({ district_name: name, Total_Households_Worked: String(households) });
+
+const setup = async (recordsByMonth, { failSave = null } = {}) => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  const registry = new DistrictRegistry({ db });
+  await registry.seed(DistrictRegistry.loadSeed());
+  await registry.load();
+  const store = new PerformanceStore({ db });
+
+  // Stands in for the data.gov.in client in server.js
+  const service = {
+    fetchStatewideRecords: async (monthYear) => recordsByMonth[monthYear] || [],
+    resolveDistrictCode: (name) => registry.resolve(name),
+    normalizeRecord: (record, code, monthYear) => ({
+      district_code: code,
+      month_year: monthYear,
+      total_households: parseInt(record.Total_Households_Worked, 10),
+      data_source: 'data.gov.in'
+    })
+  };
+  const saving = failSave
+    ? { save: async (record) => { if (record.district_code === failSave) throw new Error('disk I/O error'); return store.save(record); } }
+    : store;
+  const ingestion = new IngestionService({ db, service, store: saving, registry });
+  return { db, registry, store, ingestion };
+};
+
+test('upstream names resolve through aliases and the first row per district wins', async () => {
+  const { registry, store, ingestion } = await setup({
+    '2025-06': [upstream('YSR KADAPA', 100), upstream('Y.S.R. Kadapa', 999), upstream('Srikakulam', 200), upstream('Godavari', 5)]
+  });
+
+  const summary = await ingestion.ingestMonth('2025-06');
+  assert.deepStrictEqual([summary.status, summary.rows_fetched, summary.districts_matched], ['success', 4, 2]);
+  assert.strictEqual(summary.districts_missing.length, registry.activeIn('2025-06').length - 2);
+  assert.ok(!summary.districts_missing.includes('AP013') && summary.districts_missing.includes('AP001'));
+
+  assert.strictEqual((await store.get('AP013', '2025-06')).total_households, 100);
+  assert.strictEqual((await store.get('AP009', '2025-06')).total_households, 200);
+  assert.deepStrictEqual((await registry.getUnmatched()).map(row => row.upstream_name), ['Godavari']);
+
+  const [latest] = await ingestion.getRecentRuns();
+  assert.deepStrictEqual([latest.status, latest.districts_matched, latest.districts_missing], ['success', 2, summary.districts_missing]);
+});
+
+test('recent months are not refetched by routes', async () => {
+  const { ingestion } = await setup({ '2025-06': [upstream('Srikakulam', 200)] });
+  assert.strictEqual((await ingestion.ensureMonth('2025-06')).status, 'success');
+  assert.strictEqual(await ingestion.ensureMonth('2025-06'), null);
+});
+
+test('services reading a month serve stored rows when ingestion fails', async () => {
+  const { ingestion } = await setup({});
+  ingestion.service.fetchStatewideRecords = async () => { throw new Error('upstream timed out'); };
+  assert.strictEqual(await ingestion.refreshMonth('2025-06'), null);
+  assert.strictEqual((await ingestion.getRecentRuns())[0].error, 'upstream timed out');
+});
+
+test('months ingested at the same time each get their own transaction', async () => {
+  const { store, ingestion } = await setup({
+    '2025-05': [upstream('Srikakulam', 150)],
+    '2025-06': [upstream('Srikakulam', 200)]
+  });
+
+  const summaries = await Promise.all([ingestion.ingestMonth('2025-05'), ingestion.ingestMonth('2025-06')]);
+  assert.deepStrictEqual(summaries.map(summary => summary.status), ['success', 'success']);
+  assert.strictEqual((await store.get('AP009', '2025-05')).total_households, 150);
+  assert.strictEqual((await store.get('AP009', '2025-06')).total_households, 200);
+});
+
+test('a storage failure is a failed run, is retried and rolls back only its own writes', async () => {
+  const { db, store, ingestion } = await setup(
+    { '2025-06': [upstream('Srikakulam', 200), upstream('Anantapur', 300)] },
+    { failSave: 'AP001' }
+  );
+
+  // A write from another request while the ingestion's transaction is open
+  const [result] = await Promise.allSettled([
+    ingestion.ingestMonth('2025-06'),
+    store.save({ district_code: 'AP002', month_year: '2025-06', total_households: 1, data_source: 'mock' })
+  ]);
+  assert.match(result.reason.message, /disk I\/O error/);
+  assert.strictEqual(await store.get('AP009', '2025-06'), null);
+  assert.strictEqual((await store.get('AP002', '2025-06')).data_source, 'mock');
+
+  const [run] = await ingestion.getRecentRuns();
+  assert.deepStrictEqual([run.status, run.rows_fetched, run.error], ['failed', 2, 'disk I/O error']);
+  await assert.rejects(ingestion.ensureMonth('2025-06'), /disk I\/O error/);
+
+  // The connection is left usable
+  assert.strictEqual(await transaction(db, async () => 'done'), 'done');
+});
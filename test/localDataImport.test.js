@@ -0,0 +1,102 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const sqlite3 = require('sqlite3');
+const { migrate } = require('../lib/migrations');
+const { parseCsv } = require('../lib/csv');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { LocationHierarchy } = require('../lib/locationHierarchy');
+const { LocalDataImporter } = require('../lib/localDataImport');
+
+const CSV = [
+  'district_name,mandal_code,mandal_name,gp_code,gp_name,month_year,total_households,total_person_days,total_amount_spent',
+  'Anantapur,M001,Gooty,G001,Gooty Rural,2025-06,120,2400,"1,20,000"',
+  'Anantapur,M001,Gooty,G002,"Kotturu, East",2025-06,80,1600,80000',
+  'Nowhere,M002,Ghost,,,2025-06,10,10,10',
+  'Anantapur,M003,Tadipatri,,,2025-13,10,10,10'
+].join('\n');
+
+const setup = async () => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  const registry = new DistrictRegistry({ db });
+  await registry.seed(DistrictRegistry.loadSeed());
+  await registry.load();
+
+  const dropDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mgnrega-drop-'));
+  fs.writeFileSync(path.join(dropDir, 'june.csv'), CSV);
+  fs.writeFileSync(path.join(dropDir, 'notes.txt'), 'ignored');
+
+  return {
+    importer: new LocalDataImporter({ db, registry, dropDir }),
+    hierarchy: new LocationHierarchy({ db })
+  };
+};
+
+test('parses quoted CSV fields', () => {
+  const [row] = parseCsv('a,b\r\n"x, ""y""",2\r\n');
+  assert.deepStrictEqual(row, { a: 'x, "y"', b: '2' });
+});
+
+test('imports GP rows and rejects rows it cannot place', async () => {
+  const { importer } = await setup();
+  const [result] = await importer.importDropDirectory();
+  assert.strictEqual(result.rows_imported, 2);
+  assert.strictEqual(result.rows_rejected, 2);
+  assert.match(result.rejected[0].reason, /unknown district/);
+  assert.match(result.rejected[1].reason, /invalid month_year/);
+});
+
+test('unchanged files are not imported twice', async () => {
+  const { importer } = await setup();
+  await importer.importDropDirectory();
+  assert.deepStrictEqual(await importer.importDropDirectory(), []);
+});
+
+test('mandal figures roll up from gram panchayats', async () => {
+  const { importer, hierarchy } = await setup();
+  await importer.importDropDirectory();
+
+  const [mandal] = await hierarchy.getMandals('AP001', '2025-06');
+  assert.strictEqual(mandal.mandal_name, 'Gooty');
+  assert.strictEqual(mandal.gram_panchayat_count, 2);
+  assert.strictEqual(mandal.performance.total_households, 200);
+  assert.strictEqual(mandal.performance.total_amount_spent, 0.02);
+  assert.strictEqual(mandal.performance.avg_days_per_household, 20);
+  assert.strictEqual(mandal.performance.data_source, 'gp_rollup');
+
+  const gps = await hierarchy.getGramPanchayats('M001', '2025-07');
+  assert.deepStrictEqual(gps.map(gp => gp.performance), [null, null]);
+});
+
+test('a corrupt file is recorded as failed and later files still import', async () => {
+  const { importer } = await setup();
+  fs.writeFileSync(path.join(importer.dropDir, 'april.json'), '{"records": [');
+
+  const [failed, june] = await importer.importDropDirectory();
+  assert.strictEqual(failed.file_name, 'april.json');
+  assert.strictEqual(failed.status, 'failed');
+  assert.match(failed.error, /JSON/);
+  assert.deepStrictEqual([june.file_name, june.status, june.rows_imported], ['june.csv', 'imported', 2]);
+
+  // Skipped until the file changes
+  assert.deepStrictEqual(await importer.importDropDirectory(), []);
+});
+
+test('storage errors and unreadable files are retried on the next scan', async () => {
+  const { importer } = await setup();
+  // A directory named like a drop file can't be read as one
+  fs.mkdirSync(path.join(importer.dropDir, 'april.csv'));
+  const importRecord = importer.importRecord;
+  importer.importRecord = async () => { throw new Error('SQLITE_BUSY: database is locked'); };
+
+  const [unreadable] = await importer.importDropDirectory();
+  assert.deepStrictEqual([unreadable.file_name, unreadable.status], ['april.csv', 'failed']);
+  assert.match(unreadable.error, /EISDIR/);
+
+  importer.importRecord = importRecord;
+  const results = await importer.importDropDirectory();
+  assert.deepStrictEqual(results.map(result => [result.file_name, result.status]), [['april.csv', 'failed'], ['june.csv', 'imported']]);
+});
@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const sqlite3 = require('sqlite3');
+const { run, get, all } = require('../lib/database');
+const { migrate } = require('../lib/migrations');
+const initialSchema = require('../lib/migrations/001_initial_schema');
+
+// A database as server.js created it before migrations: the initial tables,
+// legacy seven-column rows and ingested data.gov.in records as JSON
+const legacyDatabase = async () => {
+  const db = new sqlite3.Database(':memory:');
+  await initialSchema.up(db);
+  await run(db, `INSERT INTO performance_data
+    (district_code, month_year, total_households, total_person_days, total_amount_spent, avg_days_per_household, avg_amount_per_household)
+    VALUES ('AP001', '2024-06', 25000, 500000, 12.5, 20, 0.0005), ('AP002', '2024-06', 1, 1, 1, 1, 1), (NULL, '2024-06', 9, 9, 9, 9, 9)`);
+  await run(db, 'INSERT INTO ingested_records (district_code, month_year, record, fetched_at) VALUES (?, ?, ?, ?)', [
+    'AP002', '2024-06',
+    JSON.stringify({
+      district_code: 'AP002', month_year: '2024-06', financial_year: '2024-2025', month: 'Jun',
+      total_households: 31000, total_person_days: 720000, total_amount_spent: 17.25,
+      women_persondays: 300000, payment_within_15_days: 96.5, data_source: 'data.gov.in',
+      last_updated: '2024-07-02T06:00:00.000Z'
+    }),
+    '2024-07-02T06:00:00.000Z'
+  ]);
+  return db;
+};
+
+test('migrating a legacy database keeps its rows in the typed columns', async () => {
+  const db = await legacyDatabase();
+  const applied = await migrate(db);
+  assert.strictEqual(applied[0], '001_initial_schema');
+  assert.strictEqual(applied.length, (await all(db, 'SELECT version FROM schema_version')).length);
+
+  const rows = await all(db, 'SELECT * FROM performance_data ORDER BY district_code');
+  // The row without a district code is dropped
+  assert.deepStrictEqual(rows.map(row => row.district_code), ['AP001', 'AP002']);
+
+  const [legacy, ingested] = rows;
+  assert.deepStrictEqual(
+    [legacy.total_households, legacy.total_person_days, legacy.total_amount_spent, legacy.data_source, legacy.fetched_at],
+    [25000, 500000, 12.5, 'legacy', null]
+  );
+  assert.strictEqual(legacy.women_persondays, null);
+
+  // The ingested record replaces the legacy row for its month
+  assert.deepStrictEqual(
+    [ingested.total_households, ingested.total_amount_spent, ingested.women_persondays, ingested.payment_within_15_days],
+    [31000, 17.25, 300000, 96.5]
+  );
+  assert.deepStrictEqual(
+    [ingested.data_source, ingested.financial_year, ingested.month, ingested.fetched_at, ingested.upstream_record_id],
+    ['data.gov.in', '2024-2025', 'Jun', '2024-07-02T06:00:00.000Z', null]
+  );
+  assert.strictEqual(await get(db, "SELECT name FROM sqlite_master WHERE name = 'ingested_records'"), undefined);
+
+  // Running again is a no-op
+  assert.deepStrictEqual(await migrate(db), []);
+});
@@ -0,0 +1,48 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { addMonths } = require('../lib/fiscalCalendar');
+const { seededRandom, mockWorks, mockTotals } = require('../lib/mockData');
+const { monthFigure } = require('../lib/runningTotals');
+const { worksMonth } = require('../lib/works');
+
+test('seeded numbers vary from call to call but repeat for the same key', () => {
+  const first = seededRandom('AP001:2025-06');
+  const values = Array.from({ length: 5 }, () => first(15000, 45000));
+  assert.ok(new Set(values).size > 1);
+  values.forEach(value => assert.ok(value >= 15000 && value <= 45000));
+
+  const again = seededRandom('AP001:2025-06');
+  assert.deepStrictEqual(Array.from({ length: 5 }, () => again(15000, 45000)), values);
+
+  // Districts whose codes share a character no longer share figures
+  assert.notStrictEqual(seededRandom('AP001:2025-06')(1, 1e6), seededRandom('AP011:2025-06')(1, 1e6));
+});
+
+test('mock works counts reconcile from month to month', () => {
+  let previous = null;
+  for (let month = '2023-01'; month <= '2025-12'; month = addMonths(month, 1)) {
+    const record = { month_year: month, ...mockWorks('AP004', month) };
+    const figures = worksMonth(record, previous);
+    assert.ok(record.ongoing_works >= 0);
+    if (previous) {
+      assert.ok(figures.completed_in_month >= 0, `${month} completed ${figures.completed_in_month}`);
+      assert.ok(figures.new_works_started >= 20 && figures.new_works_started <= 60, `${month} started ${figures.new_works_started}`);
+    }
+    previous = record;
+  }
+  assert.deepStrictEqual(mockWorks('AP004', '2025-06'), mockWorks('AP004', '2025-06'));
+});
+
+test('mock running totals build up over the year and restart in April', () => {
+  let previous = null;
+  for (let month = '2023-01'; month <= '2025-12'; month = addMonths(month, 1)) {
+    const totals = mockTotals('AP004', month);
+    ['households', 'personDays', 'amount'].forEach(field => {
+      const rise = monthFigure('total_person_days', month, totals[field], previous ? previous[field] : null);
+      assert.ok(rise === null || rise > 0, `${month} ${field} rose ${rise}`);
+    });
+    if (month.endsWith('-04')) assert.strictEqual(totals.months, 1);
+    previous = totals;
+  }
+  assert.deepStrictEqual(mockTotals('AP004', '2025-06'), mockTotals('AP004', '2025-06'));
+});
@@ -0,0 +1,24 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const sqlite3 = require('sqlite3');
+const { migrate } = require('../lib/migrations');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { PerformanceStore } = require('../lib/performanceStore');
+
+const row = (code, source) => ({ district_code: code, month_year: '2025-06', total_households: 100, data_source: source });
+
+test('a month\'s rows cover known districts, official ones only in strict mode', async () => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  await new DistrictRegistry({ db }).seed(DistrictRegistry.loadSeed());
+  const store = new PerformanceStore({ db });
+
+  await store.save(row('AP001', 'data.gov.in'));
+  await store.save(row('AP002', 'mock_data'));
+  await store.save(row('XX999', 'data.gov.in'));
+
+  assert.deepStrictEqual((await store.getMonth('2025-06')).map(record => record.district_code), ['AP001', 'AP002']);
+  const official = await store.getMonth('2025-06', { officialOnly: true });
+  assert.deepStrictEqual(official.map(record => [record.district_code, record.district_name]), [['AP001', 'Anantapur']]);
+  assert.deepStrictEqual(await store.getMonth('2025-05'), []);
+});
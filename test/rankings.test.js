@@ -0,0 +1,71 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { RankingService, rankRows } = require('../lib/rankings');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const row = (code, month, households, source = 'data.gov.in') => ({
+  district_code: code, month_year: month, total_households: households, data_source: source
+});
+
+const storeWith = (rows) => ({
+  getMonth: async (monthYear, { officialOnly = false } = {}) => rows.filter(r => r.month_year === monthYear && (!officialOnly || r.data_source === 'data.gov.in'))
+});
+
+const service = { scoreRecord: (record) => ({ ...record, performance_score: null }) };
+
+test('ties share a rank and the next rank is skipped', () => {
+  const ranked = rankRows([
+    { district_code: 'A', v: 10 },
+    { district_code: 'B', v: 30 },
+    { district_code: 'C', v: 10 },
+    { district_code: 'D', v: null }
+  ], 'v');
+  assert.deepStrictEqual(ranked.map(r => [r.district_code, r.rank]), [['B', 1], ['A', 2], ['C', 2]]);
+  assert.strictEqual(ranked[0].percentile, 100);
+  assert.strictEqual(ranked[1].percentile, 50);
+});
+
+test('ranks every active district with average and month-over-month change', async () => {
+  const rankings = new RankingService({
+    store: storeWith([
+      row('AP001', '2025-06', 300), row('AP002', '2025-06', 200), row('AP003', '2025-06', 100),
+      row('AP001', '2025-05', 100), row('AP002', '2025-05', 200), row('AP003', '2025-05', 300)
+    ]),
+    service,
+    registry
+  });
+
+  const result = await rankings.getRankings('2025-06', 'total_households');
+  assert.strictEqual(result.districts_ranked, 3);
+  assert.strictEqual(result.state_average, 200);
+  assert.strictEqual(result.rankings.length, 26);
+
+  const [first, second, third, unranked] = result.rankings;
+  assert.deepStrictEqual([first.district_code, first.rank, first.rank_change], ['AP001', 1, 2]);
+  assert.deepStrictEqual([second.district_code, second.rank_change], ['AP002', 0]);
+  assert.deepStrictEqual([third.district_code, third.rank_change], ['AP003', -2]);
+  assert.strictEqual(unranked.rank, null);
+  assert.strictEqual(unranked.data_source, 'missing');
+});
+
+test('strict mode ranks official rows only', async () => {
+  const rankings = new RankingService({
+    store: storeWith([row('AP001', '2025-06', 300, 'mock_data'), row('AP002', '2025-06', 200)]),
+    service,
+    registry
+  });
+
+  const result = await rankings.getRankings('2025-06', 'total_households', { strict: true });
+  assert.strictEqual(result.districts_ranked, 1);
+  assert.strictEqual(result.rankings[0].district_code, 'AP002');
+});
+
+test('districts formed in 2022 are not listed for earlier months', async () => {
+  const rankings = new RankingService({ store: storeWith([]), service, registry });
+  const result = await rankings.getRankings('2021-06', 'total_households');
+  assert.strictEqual(result.rankings.length, 13);
+  assert.strictEqual(result.state_average, null);
+});
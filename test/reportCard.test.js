@@ -0,0 +1,100 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { ReportCardService, formatNumber, formatCrores } = require('../lib/reportCard');
+const { ReportPdfRenderer } = require('../lib/reportPdf');
+const { REPORT_LABELS } = require('../lib/reportLabels');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const month = (monthYear, source, personDays) => ({
+  district_code: 'AP001',
+  month_year: monthYear,
+  total_person_days: personDays,
+  data_source: source
+});
+
+const reports = new ReportCardService({
+  data: {
+    getDistrictMonth: async (code, monthYear) => (monthYear === '2025-06' ? {
+      district_code: code,
+      month_year: monthYear,
+      total_households: 125000,
+      total_person_days: 3400000,
+      total_amount_spent: 0.45,
+      avg_days_per_household: 27.2,
+      performance_score: 71.6,
+      data_source: 'data.gov.in',
+      provenance: { source: 'data.gov.in', fetched_at: '2025-07-01T00:00:00.000Z' },
+      score_breakdown: [
+        { id: 'household_coverage', label: 'Household coverage', weight: 30, score: 80, points: 24, available: true },
+        { id: 'works_completion', label: 'Works completed', weight: 10, score: null, points: 0, available: false }
+      ]
+    } : null),
+    getDistrictHistory: async (code, months, { endMonth }) => {
+      assert.strictEqual(endMonth, '2025-06');
+      return [month('2025-04', 'missing', null), month('2025-05', 'mock_data', 2000000), month('2025-06', 'data.gov.in', 3400000)];
+    }
+  },
+  rankings: {
+    getRankings: async () => ({
+      districts_ranked: 26,
+      state_average: 64.2,
+      rankings: [{ district_code: 'AP001', rank: 4, percentile: 88 }]
+    })
+  },
+  registry
+});
+
+test('figures are compacted the way the dashboard shows them', () => {
+  assert.strictEqual(formatNumber(3400000), '34.0 L');
+  assert.strictEqual(formatNumber(null), '—');
+  assert.strictEqual(formatCrores(12.34), 'Rs 12.3 Cr');
+  assert.strictEqual(formatCrores(0.45), 'Rs 45.0 L');
+});
+
+test('report card combines metrics, rank, history and score breakdown', async () => {
+  const report = await reports.build('AP001', '2025-06');
+  assert.strictEqual(report.district.name, 'Anantapur');
+  assert.strictEqual(report.month_label, 'June 2025');
+  assert.deepStrictEqual(report.metrics.map(metric => metric.value), ['1.3 L', '34.0 L', 'Rs 45.0 L', '27.2']);
+  assert.deepStrictEqual(report.rank, { rank: 4, of: 26, percentile: 88, state_average: 64.2 });
+  assert.strictEqual(report.official, true);
+
+  assert.deepStrictEqual(report.history.map(row => [row.label, row.value, row.official]), [
+    ['Apr', null, false],
+    ['May', 2000000, false],
+    ['Jun', 3400000, true]
+  ]);
+  assert.strictEqual(report.breakdown[1].available, false);
+});
+
+test('Telugu report uses Telugu labels and month names', async () => {
+  const report = await reports.build('AP001', '2025-06', { lang: 'te' });
+  assert.strictEqual(report.labels.personDays, 'వ్యక్తి రోజులు');
+  assert.strictEqual(report.breakdown[0].label, 'కుటుంబ కవరేజ్');
+  assert.ok(/[\u0C00-\u0C7F]/.test(report.month_label));
+});
+
+test('labels come from the dashboard catalogues', () => {
+  const dashboard = require('../client/src/locales/te.json');
+  assert.strictEqual(REPORT_LABELS.te.personDays, dashboard.personDays);
+  assert.strictEqual(REPORT_LABELS.te.score_household_coverage, dashboard.score_household_coverage);
+  assert.ok(REPORT_LABELS.en.reportTitle);
+});
+
+test('Telugu report renders to a PDF with the bundled font', async () => {
+  const renderer = new ReportPdfRenderer();
+  assert.ok(renderer.hasTeluguFont());
+
+  const report = await reports.build('AP001', '2025-06', { lang: 'te' });
+  const pdf = await renderer.render(report);
+  assert.strictEqual(pdf.subarray(0, 5).toString(), '%PDF-');
+  assert.match(pdf.toString('latin1'), /\/BaseFont \/[A-Z]{6}\+HindGuntur-Regular/);
+});
+
+test('no report without data for the month', async () => {
+  assert.strictEqual(await reports.build('AP001', '2025-01'), null);
+  assert.strictEqual(await reports.build('AP999', '2025-06'), null);
+});
@@ -0,0 +1,16 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { isRunning, monthFigure } = require('../lib/runningTotals');
+
+test('a running total\'s month figure is its rise, the whole total in April', () => {
+  assert.strictEqual(monthFigure('total_person_days', '2025-06', 900, 600), 300);
+  assert.strictEqual(monthFigure('total_person_days', '2025-04', 400, 5000), 400);
+  assert.strictEqual(monthFigure('total_person_days', '2025-06', 900, null), null);
+  assert.strictEqual(monthFigure('total_person_days', '2025-06', null, 600), null);
+});
+
+test('other metrics are taken as reported', () => {
+  assert.ok(isRunning('completed_works') && !isRunning('ongoing_works'));
+  assert.strictEqual(monthFigure('average_wage_rate', '2025-06', 250, 240), 250);
+  assert.strictEqual(monthFigure('ongoing_works', '2025-06', 80, null), 80);
+});
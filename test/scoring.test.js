@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { ScoringEngine, deriveMetrics } = require('../lib/scoring');
+
+const engine = ScoringEngine.fromFile();
+
+const fullRecord = {
+  total_households: 35000,
+  total_person_days: 900000,
+  avg_days_per_household: 26,
+  average_wage_rate: 300,
+  women_persondays: 450000,
+  sc_persondays: 150000,
+  st_persondays: 50000,
+  completed_works: 100,
+  ongoing_works: 100,
+  payment_within_15_days: 100
+};
+
+test('a district meeting every norm scores 100', () => {
+  const { score, breakdown } = engine.score(fullRecord);
+  assert.strictEqual(score, 100);
+  assert.ok(breakdown.every(item => item.available && item.score === 100));
+});
+
+test('breakdown points add up to the total score', () => {
+  const { score, breakdown } = engine.score({
+    ...fullRecord,
+    total_households: 12000,
+    women_persondays: 150000,
+    payment_within_15_days: 60
+  });
+  const points = breakdown.reduce((sum, item) => sum + item.points, 0);
+  assert.ok(Math.abs(points - score) <= 1);
+  assert.strictEqual(breakdown.find(item => item.id === 'household_coverage').score, 50);
+  assert.strictEqual(breakdown.find(item => item.id === 'payment_timeliness').score, 60);
+});
+
+test('components with missing inputs are excluded and weights renormalised', () => {
+  const { score, breakdown } = engine.score({
+    total_households: 35000,
+    total_person_days: 900000,
+    avg_days_per_household: 26
+  });
+  assert.strictEqual(score, 100);
+  assert.strictEqual(breakdown.filter(item => item.available).length, 2);
+  assert.strictEqual(breakdown.find(item => item.id === 'wage_rate').value, null);
+});
+
+test('derives shares from person-day counts', () => {
+  const metrics = deriveMetrics(fullRecord);
+  assert.strictEqual(metrics.women_share, 0.5);
+  assert.strictEqual(metrics.works_completion_rate, 0.5);
+  assert.strictEqual(deriveMetrics({ total_households: 10, total_person_days: 200 }).avg_days_per_household, 20);
+});
+
+test('custom configs are honoured', () => {
+  const custom = new ScoringEngine({
+    version: 'test',
+    components: [{ id: 'timely', label: 'Timely', metric: 'payment_within_15_days', weight: 1, type: 'target', target: 80 }]
+  });
+  assert.strictEqual(custom.score({ payment_within_15_days: 40 }).score, 50);
+  assert.throws(() => new ScoringEngine({ components: [] }));
+});
@@ -0,0 +1,98 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const sqlite3 = require('sqlite3');
+const { migrate } = require('../lib/migrations');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { parseCsv } = require('../lib/csv');
+const { TargetService, parseTarget, cumulativeTargets } = require('../lib/targets');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const PHASING = { apr: 120, may: 150, jun: 130, jul: 60, aug: 40, sep: 40, oct: 50, nov: 70, dec: 80, jan: 90, feb: 80, mar: 90 };
+
+test('rows are validated and financial years normalised', () => {
+  const { target } = parseTarget({ district_code: 'AP001', financial_year: '2025-26', person_days_target: '1,000,000', households_target: '40000' }, registry);
+  assert.deepStrictEqual(target, {
+    district_code: 'AP001',
+    financial_year: '2025-2026',
+    person_days_target: 1000000,
+    households_target: 40000,
+    phasing: []
+  });
+
+  assert.match(parseTarget({ district_code: 'XX999', financial_year: '2025-26', person_days_target: '10' }, registry).error, /unknown district/);
+  assert.match(parseTarget({ district_code: 'AP001', financial_year: 'next year', person_days_target: '10' }, registry).error, /financial_year/);
+  assert.match(parseTarget({ district_code: 'AP001', financial_year: '2025-26', person_days_target: '0' }, registry).error, /positive/);
+  assert.match(parseTarget({ district_code: 'AP001', financial_year: '2025-26', person_days_target: '10', apr: '5' }, registry).error, /all twelve months/);
+});
+
+test('the target curve follows the phasing, or is even without one', () => {
+  const even = cumulativeTargets({ financial_year: '2025-2026', person_days_target: 1200, phasing: [] });
+  assert.deepStrictEqual(even.slice(0, 2), [
+    { month_year: '2025-04', target_cumulative: 100 },
+    { month_year: '2025-05', target_cumulative: 200 }
+  ]);
+  assert.strictEqual(even[11].target_cumulative, 1200);
+
+  const { target } = parseTarget({ district_code: 'AP001', financial_year: '2025-2026', person_days_target: '1000', ...PHASING }, registry);
+  const phased = cumulativeTargets(target);
+  assert.deepStrictEqual(phased.slice(0, 3).map(point => point.target_cumulative), [120, 270, 400]);
+  assert.strictEqual(phased[11].month_year, '2026-03');
+  assert.strictEqual(phased[11].target_cumulative, 1000);
+});
+
+test('uploads replace earlier targets and report rejected rows', async () => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  const targets = new TargetService({ db, registry });
+
+  const csv = [
+    'district_code,financial_year,person_days_target,households_target,apr,may,jun,jul,aug,sep,oct,nov,dec,jan,feb,mar',
+    'AP001,2025-26,1000,,120,150,130,60,40,40,50,70,80,90,80,90',
+    'AP002,2025-26,abc,,,,,,,,,,,,,',
+    'AP003,2025-26,5000,2000,,,,,,,,,,,,'
+  ].join('\n');
+  const result = await targets.import(parseCsv(csv), { source: 'lb-2025.csv' });
+  assert.deepStrictEqual([result.rows_imported, result.rows_rejected], [2, 1]);
+  assert.deepStrictEqual(result.rejected[0], { row: 2, reason: 'person_days_target must be a positive number' });
+
+  await targets.import([{ district_code: 'AP001', financial_year: '2025-2026', person_days_target: 1100 }]);
+  const stored = await targets.get('AP001', '2025-2026');
+  assert.deepStrictEqual([stored.person_days_target, stored.phasing.length], [1100, 0]);
+  assert.deepStrictEqual((await targets.list({ financialYear: '2025-2026' })).map(row => row.district_code), ['AP001', 'AP003']);
+});
+
+test('achievement takes the latest running total against the target to date', async () => {
+  const db = new sqlite3.Database(':memory:');
+  await migrate(db);
+  const months = {
+    '2025-04': { total_person_days: 100, total_households: 900 },
+    '2025-05': { total_person_days: 300, total_households: 1100 },
+    '2025-06': { total_person_days: 450, total_households: 1200 }
+  };
+  const targets = new TargetService({
+    db,
+    registry,
+    data: { getDistrictMonth: async (code, monthYear) => months[monthYear] || null }
+  });
+  await targets.import([{ district_code: 'AP003', financial_year: '2025-26', person_days_target: 1200, households_target: 2000 }]);
+
+  const result = await targets.getAchievement('AP003', '2025-06');
+  assert.strictEqual(result.financial_year, '2025-2026');
+  assert.deepStrictEqual(result.person_days, { actual_to_date: 450, achievement_pct: 37.5, expected_to_date: 300, pace_pct: 150 });
+  assert.deepStrictEqual(result.households, { reached: 1200, coverage_pct: 60 });
+  assert.deepStrictEqual(result.curve.slice(1, 4), [
+    { month_year: '2025-05', target_cumulative: 200, actual_cumulative: 300 },
+    { month_year: '2025-06', target_cumulative: 300, actual_cumulative: 450 },
+    { month_year: '2025-07', target_cumulative: 400, actual_cumulative: null }
+  ]);
+
+  // Upstream figures are already totals to date, so they aren't added up again
+  const may = await targets.getAchievement('AP003', '2025-05');
+  assert.deepStrictEqual([may.person_days.actual_to_date, may.households.reached], [300, 1100]);
+
+  const untargeted = await targets.getAchievement('AP004', '2025-06');
+  assert.strictEqual(untargeted.target, null);
+  assert.strictEqual(untargeted.person_days.achievement_pct, null);
+});
@@ -0,0 +1,75 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { TimelinessService, distribution, trendOf } = require('../lib/timeliness');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const config = TimelinessService.loadConfig();
+
+const row = (code, month, paid, source = 'data.gov.in') => ({
+  district_code: code, month_year: month, payment_within_15_days: paid, data_source: source
+});
+
+test('changes within the steady band are steady, otherwise a direction', () => {
+  assert.strictEqual(trendOf(0.8, 1), 'steady');
+  assert.strictEqual(trendOf(-1, 1), 'steady');
+  assert.strictEqual(trendOf(2.5, 1), 'improving');
+  assert.strictEqual(trendOf(-4, 1), 'worsening');
+  assert.strictEqual(trendOf(null, 1), null);
+});
+
+test('distribution buckets are closed below and open above', () => {
+  assert.deepStrictEqual(distribution([40, 50, 74.9, 75, 99], [50, 75]), [
+    { from: null, to: 50, count: 1 },
+    { from: 50, to: 75, count: 2 },
+    { from: 75, to: null, count: 2 }
+  ]);
+});
+
+test('district series flags months under the threshold and compares with the last reported month', async () => {
+  const values = { '2025-04': 92, '2025-05': null, '2025-06': 84.456 };
+  const timeliness = new TimelinessService({
+    data: {
+      getDistrictMonth: async (code, monthYear, { strict }) => {
+        assert.deepStrictEqual([code, strict], ['AP001', true]);
+        return values[monthYear] === null ? null : row(code, monthYear, values[monthYear]);
+      }
+    },
+    config
+  });
+
+  const result = await timeliness.getDistrict('AP001', '2025-06', 3, { strict: true });
+  assert.deepStrictEqual(result.series.map(point => [point.month_year, point.value, point.below_threshold]), [
+    ['2025-04', 92, false],
+    ['2025-05', null, false],
+    ['2025-06', 84.46, true]
+  ]);
+  assert.deepStrictEqual([result.value, result.previous_month, result.change, result.trend], [84.46, '2025-04', -7.54, 'worsening']);
+  assert.strictEqual(result.threshold, 90);
+});
+
+test('statewide view lists the slowest-paying districts first', async () => {
+  const rows = [
+    row('AP001', '2025-06', 96), row('AP002', '2025-06', 70), row('AP003', '2025-06', 88),
+    row('AP004', '2025-06', 93), row('AP005', '2025-06', 45, 'mock_data'),
+    row('AP002', '2025-05', 80), row('AP003', '2025-05', 87.5)
+  ];
+  const timeliness = new TimelinessService({
+    store: { getMonth: async (monthYear, { officialOnly = false } = {}) => rows.filter(r => r.month_year === monthYear && (!officialOnly || r.data_source === 'data.gov.in')) },
+    registry,
+    config: { ...config, worst_count: 2 }
+  });
+
+  const result = await timeliness.getState('2025-06', { strict: true });
+  assert.strictEqual(result.districts_reporting, 4);
+  assert.strictEqual(result.districts_below_threshold, 2);
+  assert.strictEqual(result.state_average, 86.75);
+  assert.strictEqual(result.state_median, 90.5);
+  assert.deepStrictEqual(result.distribution.map(bucket => bucket.count), [0, 1, 1, 1, 1]);
+  assert.deepStrictEqual(result.worst.map(district => [district.district_code, district.change, district.trend]), [
+    ['AP002', -10, 'worsening'],
+    ['AP003', 0.5, 'steady']
+  ]);
+});
@@ -0,0 +1,100 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { TrendService, computeTrends, TREND_METRICS } = require('../lib/trends');
+
+const row = (monthYear, households, extra = {}) => ({
+  district_code: 'AP001',
+  month_year: monthYear,
+  total_households: households,
+  avg_days_per_household: 20,
+  total_job_cards: 1000,
+  data_source: 'data.gov.in',
+  ...extra
+});
+
+const rowsFor = (values) => Object.entries(values).map(([monthYear, households]) => row(monthYear, households));
+
+// Households are a running total from April, so each month's figure is the
+// rise on the month before
+test('month-over-month and year-over-year changes compare monthly rises', () => {
+  const rows = rowsFor({ '2024-04': 40, '2024-05': 100, '2024-06': 180, '2025-04': 50, '2025-05': 150, '2025-06': 270 });
+  const [june] = computeTrends(rows, '2025-06', 1);
+  const households = june.metrics.total_households;
+  assert.strictEqual(households.value, 120);
+  assert.deepStrictEqual([households.mom_change, households.mom_change_pct], [20, 20]);
+  assert.deepStrictEqual([households.yoy_change, households.yoy_change_pct], [40, 50]);
+});
+
+test('changes are null when the earlier month is missing or zero', () => {
+  const [june] = computeTrends(rowsFor({ '2025-04': 100, '2025-05': 100, '2025-06': 220 }), '2025-06', 1);
+  const households = june.metrics.total_households;
+  assert.deepStrictEqual([households.mom_change, households.mom_change_pct], [120, null]);
+  assert.deepStrictEqual([households.yoy_change, households.yoy_change_pct], [null, null]);
+});
+
+test('a running total restarts in April and needs the month before otherwise', () => {
+  const series = computeTrends(rowsFor({ '2025-03': 500, '2025-04': 100, '2025-06': 300 }), '2025-06', 3);
+  assert.deepStrictEqual(series.map(entry => entry.metrics.total_households.value), [100, null, null]);
+});
+
+test('FY-to-date starts in April and accumulates by metric kind', () => {
+  const rows = [
+    row('2025-03', 500, { avg_days_per_household: 50, total_job_cards: 900 }),
+    row('2025-04', 100, { avg_days_per_household: 10, total_job_cards: 1000 }),
+    row('2025-05', 200, { avg_days_per_household: 20, total_job_cards: 1100 }),
+    row('2025-06', 300, { avg_days_per_household: 30, total_job_cards: 1200 })
+  ];
+  const [june] = computeTrends(rows, '2025-06', 1);
+  assert.strictEqual(june.financial_year, '2025-2026');
+  assert.strictEqual(june.fy_to_date_months, 3);
+  assert.strictEqual(june.metrics.total_households.fy_to_date, 300);
+  assert.strictEqual(june.metrics.avg_days_per_household.fy_to_date, 20);
+  assert.strictEqual(june.metrics.total_job_cards.fy_to_date, 1200);
+
+  const [march] = computeTrends(rows, '2025-03', 1);
+  assert.strictEqual(march.financial_year, '2024-2025');
+  assert.strictEqual(march.metrics.total_households.fy_to_date, 500);
+});
+
+test('FY-to-date skips missing months and says how many were counted', () => {
+  const rows = [
+    row('2025-04', 100),
+    { district_code: 'AP001', month_year: '2025-05', total_households: null, data_source: 'missing' },
+    row('2025-06', 300)
+  ];
+  const [june] = computeTrends(rows, '2025-06', 1);
+  assert.strictEqual(june.fy_to_date_months, 2);
+  assert.strictEqual(june.metrics.total_households.fy_to_date, 300);
+});
+
+test('3-month rolling average needs all three months', () => {
+  const series = computeTrends(rowsFor({ '2025-01': 60, '2025-02': 75, '2025-03': 90, '2025-04': 100, '2025-05': 110, '2025-06': 130 }), '2025-06', 4);
+  assert.deepStrictEqual(series.map(entry => entry.month_year), ['2025-03', '2025-04', '2025-05', '2025-06']);
+  assert.deepStrictEqual(series.map(entry => entry.metrics.total_households.rolling_3m), [null, 43.33, 41.67, 43.33]);
+});
+
+test('every stored metric is reported', () => {
+  const [june] = computeTrends(rowsFor({ '2025-06': 120 }), '2025-06', 1);
+  assert.deepStrictEqual(Object.keys(june.metrics), Object.keys(TREND_METRICS));
+  assert.strictEqual(june.metrics.women_persondays.value, null);
+});
+
+test('service reads a year before the first month, with gaps for missing data', async () => {
+  const requested = [];
+  const trends = new TrendService({
+    data: {
+      getDistrictMonth: async (code, monthYear, { strict }) => {
+        requested.push(monthYear);
+        assert.strictEqual(strict, true);
+        return monthYear === '2025-06' ? row(monthYear, 120) : null;
+      }
+    }
+  });
+
+  const result = await trends.getTrends('AP001', '2025-06', 2, { strict: true });
+  assert.strictEqual(requested.length, 15);
+  assert.deepStrictEqual([requested[0], requested[14]], ['2024-04', '2025-06']);
+  assert.deepStrictEqual(result.series.map(entry => entry.data_source), ['missing', 'data.gov.in']);
+  assert.strictEqual(result.series[1].metrics.total_households.fy_to_date, 120);
+  assert.strictEqual(result.aggregations.total_households, 'running');
+});
@@ -0,0 +1,84 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { DistrictRegistry } = require('../lib/districtRegistry');
+const { WorksService, worksMonth } = require('../lib/works');
+
+const registry = new DistrictRegistry({ db: null });
+registry.loadFromSeed(DistrictRegistry.loadSeed());
+
+const row = (code, month, completed, ongoing, source = 'data.gov.in') => ({
+  district_code: code, month_year: month, completed_works: completed, ongoing_works: ongoing, data_source: source
+});
+
+test('works started are the rise in the backlog plus works finished', () => {
+  assert.deepStrictEqual(worksMonth(row('AP001', '2025-06', 130, 320), row('AP001', '2025-05', 100, 300)), {
+    completed_works: 130,
+    ongoing_works: 320,
+    works_taken_up: 450,
+    completion_ratio: 28.89,
+    completed_in_month: 30,
+    new_works_started: 50
+  });
+});
+
+test('completed works restart in April', () => {
+  const april = worksMonth(row('AP001', '2025-04', 40, 310), row('AP001', '2025-03', 500, 300));
+  assert.deepStrictEqual([april.completed_in_month, april.new_works_started], [40, 50]);
+
+  // Without March only the works finished are known
+  const alone = worksMonth(row('AP001', '2025-04', 40, 310), null);
+  assert.deepStrictEqual([alone.completed_in_month, alone.new_works_started], [40, null]);
+});
+
+test('months without works counts have no figures', () => {
+  const empty = worksMonth(row('AP001', '2025-06', null, 300), row('AP001', '2025-05', 100, 300));
+  assert.ok(Object.values(empty).every(value => value === null));
+  assert.strictEqual(worksMonth(row('AP001', '2025-06', 0, 0), null).completion_ratio, null);
+});
+
+test('district series reads the month before the first', async () => {
+  const rows = [row('AP002', '2025-03', 480, 290), row('AP002', '2025-04', 30, 300), row('AP002', '2025-05', 70, 310)];
+  const requested = [];
+  const works = new WorksService({
+    data: {
+      getDistrictMonth: async (code, monthYear) => {
+        requested.push(monthYear);
+        return rows.find(r => r.month_year === monthYear) || null;
+      }
+    }
+  });
+
+  const result = await works.getDistrict('AP002', '2025-05', 2);
+  assert.deepStrictEqual(requested, ['2025-03', '2025-04', '2025-05']);
+  assert.deepStrictEqual(result.series.map(point => [point.month_year, point.completed_in_month, point.new_works_started]), [
+    ['2025-04', 30, 40],
+    ['2025-05', 40, 50]
+  ]);
+});
+
+test('statewide view ranks districts by completion ratio and totals the state', async () => {
+  const rows = [
+    row('AP001', '2025-06', 100, 300), row('AP002', '2025-06', 200, 200), row('AP003', '2025-06', 50, 50, 'mock_data'),
+    row('AP001', '2025-05', 80, 290)
+  ];
+  const works = new WorksService({
+    store: { getMonth: async (monthYear, { officialOnly = false } = {}) => rows.filter(r => r.month_year === monthYear && (!officialOnly || r.data_source === 'data.gov.in')) },
+    registry
+  });
+
+  const result = await works.getState('2025-06', { strict: true });
+  assert.strictEqual(result.districts_reporting, 2);
+  assert.deepStrictEqual(result.districts.slice(0, 3).map(district => [district.district_code, district.completion_ratio]), [
+    ['AP002', 50],
+    ['AP001', 25],
+    [result.districts[2].district_code, null]
+  ]);
+  assert.deepStrictEqual(result.state, {
+    completed_works: 300,
+    ongoing_works: 500,
+    works_taken_up: 800,
+    completion_ratio: 37.5,
+    completed_in_month: 20,
+    new_works_started: 30
+  });
+});